@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import * as d3 from "d3";
+import type { BubbleData, NodeData } from "@/types/network";
+import { createNode } from "@/lib/network-utils";
+import { useCanvasNetworkGraph } from "@/hooks/use-canvas-network-graph";
+
+const DEFAULT_NODE_COUNT = 5000;
+const CLUSTER_SIZE = 50;
+/** How many recent frames the stats are taken over. */
+const FRAME_WINDOW = 120;
+const TOUR_STOPS = 6;
+
+/**
+ * A contact-list-like bubble: clusters of people who know each other, each
+ * hanging off the user through one person, with a few links across. The
+ * same count always gives the same bubble.
+ */
+function generateBubble(count: number): BubbleData {
+  const random = d3.randomLcg(42);
+  const pick = (n: number) => Math.floor(random() * n);
+  const nodes: NodeData[] = [createNode("me", "Me", "user")];
+  const links: BubbleData["links"] = [];
+  const groups: BubbleData["groups"] = [];
+  // A link across may land on someone already known; keep just the one.
+  const linked = new Set<string>();
+  const link = (source: string, target: string) => {
+    const key = [source, target].sort().join("\u0000");
+    if (linked.has(key)) return;
+    linked.add(key);
+    links.push({ source, target });
+  };
+
+  for (let i = 1; i < count; i++) {
+    nodes.push(createNode(`conn-${i}`, `Person ${i}`, "connection"));
+    const clusterStart = Math.floor((i - 1) / CLUSTER_SIZE) * CLUSTER_SIZE + 1;
+    if (i === clusterStart) {
+      link("me", `conn-${i}`);
+      groups.push({
+        id: `group-${groups.length}`,
+        name: `Cluster ${groups.length + 1}`,
+        memberNodeIds: [],
+      });
+    } else {
+      const known = new Set<number>();
+      const ties = 1 + pick(2);
+      for (let t = 0; t < ties; t++) {
+        known.add(clusterStart + pick(i - clusterStart));
+      }
+      known.forEach((j) => link(`conn-${j}`, `conn-${i}`));
+    }
+    if (i > CLUSTER_SIZE && random() < 0.05) {
+      link(`conn-${1 + pick(i - 1)}`, `conn-${i}`);
+    }
+    groups[groups.length - 1].memberNodeIds.push(`conn-${i}`);
+  }
+  // Outlining every cluster would hide the graph; a handful shows the cost.
+  return { nodes, links, groups: groups.slice(0, 8) };
+}
+
+interface FrameStats {
+  fps: number;
+  p95: number;
+  worst: number;
+}
+
+function summarize(frameTimes: number[]): FrameStats | null {
+  if (frameTimes.length < 2) return null;
+  const sorted = [...frameTimes].sort((a, b) => a - b);
+  const mean = d3.mean(frameTimes)!;
+  return {
+    fps: 1000 / mean,
+    p95: d3.quantileSorted(sorted, 0.95)!,
+    worst: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Renders a synthetic bubble on the canvas renderer and reports frame
+ * times while it settles and while you pan, zoom and drag. Pass `?nodes=`
+ * to change the size.
+ */
+export default function RendererBenchmarkPage() {
+  const [bubble, setBubble] = useState<BubbleData | null>(null);
+  const [nodes, setNodes] = useState<NodeData[]>([]);
+  const [isFrozen, setIsFrozen] = useState(false);
+  const [stats, setStats] = useState<FrameStats | null>(null);
+  const [phase, setPhase] = useState("Settling");
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isFrozenRef = useRef(false);
+  const frameTimesRef = useRef<number[]>([]);
+
+  // Generated a frame late so the page paints before the work starts.
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      const requested = Number(
+        new URLSearchParams(window.location.search).get("nodes")
+      );
+      const generated = generateBubble(
+        requested > 1 ? Math.floor(requested) : DEFAULT_NODE_COUNT
+      );
+      setBubble(generated);
+      setNodes(generated.nodes);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  useEffect(() => {
+    isFrozenRef.current = isFrozen;
+  }, [isFrozen]);
+
+  const { simulationRef, focusNode } = useCanvasNetworkGraph({
+    bubbleId: null,
+    submitted: bubble !== null,
+    nodes,
+    links: bubble?.links ?? [],
+    groups: bubble?.groups ?? [],
+    canvasRef,
+    setNodes,
+    setIsFrozen,
+    isFrozenRef,
+  });
+
+  // ── Frame timing ─────────────────────────────────────────────
+
+  useEffect(() => {
+    let frame = 0;
+    let last = performance.now();
+    const loop = (now: number) => {
+      const times = frameTimesRef.current;
+      times.push(now - last);
+      if (times.length > FRAME_WINDOW) times.shift();
+      last = now;
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    const report = window.setInterval(() => {
+      setStats(summarize(frameTimesRef.current));
+      const simulation = simulationRef.current;
+      if (simulation && simulation.alpha() < simulation.alphaMin()) {
+        setPhase((p) => (p === "Settling" ? "Idle" : p));
+      }
+    }, 500);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.clearInterval(report);
+    };
+  }, [simulationRef]);
+
+  const handleReheat = useCallback(() => {
+    frameTimesRef.current = [];
+    setPhase("Settling");
+    simulationRef.current?.alpha(1).restart();
+  }, [simulationRef]);
+
+  const handleTour = useCallback(() => {
+    if (!bubble) return;
+    frameTimesRef.current = [];
+    setPhase("Touring");
+    const random = d3.randomLcg(7);
+    for (let stop = 0; stop < TOUR_STOPS; stop++) {
+      const node =
+        bubble.nodes[Math.floor(random() * bubble.nodes.length)];
+      window.setTimeout(() => focusNode(node.id), stop * 1000);
+    }
+    window.setTimeout(() => setPhase("Idle"), TOUR_STOPS * 1000);
+  }, [bubble, focusNode]);
+
+  // ── Render ───────────────────────────────────────────────────
+
+  return (
+    <div className="flex flex-col h-screen p-8 bg-sky-50">
+      <div className="mb-4 shrink-0">
+        <h1 className="text-3xl font-bold mb-2 text-sky-900">
+          Renderer benchmark
+        </h1>
+        <p className="text-sm text-sky-400">
+          Pan, zoom and drag to test interaction • Add ?nodes=N to the URL
+          to change the size
+        </p>
+      </div>
+      <div className="flex-1 relative border-2 border-sky-200 rounded-xl overflow-hidden bg-sky-100/60 min-h-0">
+        <div className="absolute top-3 right-3 z-20 w-56 flex flex-col gap-2 p-3 rounded-xl bg-white/90 shadow-lg border border-sky-200 text-sm text-sky-800">
+          <dl className="grid grid-cols-2 gap-x-2 gap-y-1 tabular-nums">
+            <dt>People</dt>
+            <dd className="text-right">{bubble?.nodes.length ?? "…"}</dd>
+            <dt>Links</dt>
+            <dd className="text-right">{bubble?.links.length ?? "…"}</dd>
+            <dt>Phase</dt>
+            <dd className="text-right">{phase}</dd>
+            <dt>Frame rate</dt>
+            <dd className="text-right">
+              {stats ? `${stats.fps.toFixed(0)} fps` : "…"}
+            </dd>
+            <dt>95th pct</dt>
+            <dd className="text-right">
+              {stats ? `${stats.p95.toFixed(1)} ms` : "…"}
+            </dd>
+            <dt>Worst</dt>
+            <dd className="text-right">
+              {stats ? `${stats.worst.toFixed(1)} ms` : "…"}
+            </dd>
+          </dl>
+          <button
+            type="button"
+            onClick={handleReheat}
+            className="px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors"
+          >
+            Reheat layout
+          </button>
+          <button
+            type="button"
+            onClick={handleTour}
+            disabled={!bubble}
+            className="px-4 py-2 bg-sky-100 hover:bg-sky-200 disabled:opacity-40 text-sky-800 font-medium rounded-lg transition-colors"
+          >
+            Zoom tour
+          </button>
+        </div>
+        <canvas
+          ref={canvasRef}
+          style={{ display: "block", width: "100%", height: "100%" }}
+        />
+      </div>
+    </div>
+  );
+}
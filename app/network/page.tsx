@@ -1,76 +1,339 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import dynamic from "next/dynamic";
-import type { NodeData, LinkData, BubbleGroup } from "@/types/network";
+import type {
+  NodeData,
+  LinkData,
+  BubbleGroup,
+  BubbleSnapshot,
+  BubbleSummary,
+  NodeProfile,
+  LinkAttributes,
+  LayoutKind,
+  NodeMove,
+} from "@/types/network";
 import {
   createNode,
-  loadBubbleFromStorage,
-  saveBubbleToStorage,
+  toSavedBubble,
+  type LoadedBubble,
 } from "@/lib/network-utils";
+import {
+  listBubbles,
+  getActiveBubbleId,
+  setActiveBubbleId,
+  readBubbleFromStorage,
+  listSnapshots,
+  loadSnapshot,
+  createBubble,
+  duplicateBubble,
+  renameBubble,
+  deleteBubble,
+  importBubble,
+  exportBubbleFile,
+  migrateLegacyBubble,
+} from "@/lib/bubble-library";
+import { initStorage } from "@/lib/storage";
+import { formatSchemaError } from "@/lib/bubble-schema";
+import { downloadFile, toFileStem } from "@/lib/download";
+import {
+  exportBubbleAs,
+  importBubbleFiles,
+  type ExportFormat,
+} from "@/lib/interop";
+import { serializeGraphSvg, renderSvgToPng } from "@/lib/graph-export";
+import { encodeShareFragment, buildShareUrl } from "@/lib/share";
+import {
+  searchNodes,
+  highlightedNodeIds,
+  NO_FILTER,
+  type GraphFilter,
+} from "@/lib/graph-search";
+import {
+  analyzeNetwork,
+  metricNodeStyles,
+  type ColourBy,
+  type MetricKey,
+} from "@/lib/graph-analytics";
+import {
+  suggestGroups,
+  mergeSuggestions,
+  suggestionToGroup,
+  type GroupSuggestion,
+} from "@/lib/group-suggestions";
+import { findShortestPaths, type PathSearchResult } from "@/lib/path-finder";
 import { useFullscreen } from "@/hooks/use-fullscreen";
+import { useMediaQuery } from "@/hooks/use-media-query";
 import { useNetworkGraph } from "@/hooks/use-network-graph";
+import { useCanvasNetworkGraph } from "@/hooks/use-canvas-network-graph";
+import { CANVAS_NODE_THRESHOLD } from "@/lib/graph-scene";
+import { applyPins, freezeNodes } from "@/lib/layouts";
+import { useBubbleHistory } from "@/hooks/use-bubble-history";
+import { useBubbleSync } from "@/hooks/use-bubble-sync";
+import {
+  linkKey,
+  positionChanges,
+  type HistoryCommand,
+} from "@/lib/history";
+import {
+  addConnectionCommand,
+  addLinkCommand,
+  removeLinkCommand,
+  updateLinkCommand,
+  moveNodeCommand,
+  moveNodesCommand,
+  linkNodesToCommand,
+  renameNodeCommand,
+  updateProfileCommand,
+  deleteNodesCommand,
+  findNewlyOrphanedNodeIds,
+  addGroupCommand,
+  addGroupsCommand,
+  renameGroupCommand,
+  updateGroupCommand,
+  deleteGroupCommand,
+  addToGroupCommand,
+  addNodesToGroupCommand,
+  removeFromGroupCommand,
+  removeNodesFromGroupCommand,
+  setNodesPinnedCommand,
+  restoreSnapshotCommand,
+  type GroupSettings,
+} from "@/lib/bubble-commands";
+import { nextGroupColor, nextGroupColors } from "@/lib/groups";
 import { NameEntryForm } from "@/components/network/NameEntryForm";
 import { GraphToolbar } from "@/components/network/GraphToolbar";
 import { LinkModeBanner } from "@/components/network/LinkModeBanner";
+import { StorageBanner } from "@/components/network/StorageBanner";
 import { GroupModeBanner } from "@/components/network/GroupModeBanner";
+import { GroupPanel } from "@/components/network/GroupPanel";
+import { GroupLegend } from "@/components/network/GroupLegend";
+import { BubbleSwitcher } from "@/components/network/BubbleSwitcher";
+import { SharePanel } from "@/components/network/SharePanel";
+import { ProfilePanel } from "@/components/network/ProfilePanel";
+import { NodeTooltip } from "@/components/network/NodeTooltip";
+import { GraphSearch } from "@/components/network/GraphSearch";
+import { Minimap } from "@/components/network/Minimap";
+import { PeopleListPanel } from "@/components/network/PeopleListPanel";
+import { VersionHistoryPanel } from "@/components/network/VersionHistoryPanel";
+import { AnalyticsPanel } from "@/components/network/AnalyticsPanel";
+import { GroupSuggestionsPanel } from "@/components/network/GroupSuggestionsPanel";
+import { PathModeBanner } from "@/components/network/PathModeBanner";
+import { PathPanel } from "@/components/network/PathPanel";
+import { SelectionBar } from "@/components/network/SelectionBar";
 
 const NodePopup = dynamic(
   () => import("@/components/network/NodePopup"),
   { ssr: false }
 );
 
+const LinkPopup = dynamic(
+  () => import("@/components/network/LinkPopup"),
+  { ssr: false }
+);
+
 export default function NetworkPage() {
+  const [bubbleId, setBubbleId] = useState<string | null>(null);
+  const [bubbleTitle, setBubbleTitle] = useState("");
+  const [bubbles, setBubbles] = useState<BubbleSummary[]>([]);
+  const [importErrors, setImportErrors] = useState<string[] | null>(null);
+  const [openErrors, setOpenErrors] = useState<string[] | null>(null);
   const [name, setName] = useState("");
-  const [submitted, setSubmitted] = useState(false);
   const [nodes, setNodes] = useState<NodeData[]>([]);
   const [links, setLinks] = useState<LinkData[]>([]);
   const [groups, setGroups] = useState<BubbleGroup[]>([]);
+  const [layout, setLayout] = useState<LayoutKind>("force");
+  // The owner is the user node, so renaming that node, or undoing it,
+  // renames the bubble's owner too; `name` only backs the start form.
+  const ownerName = nodes.find((n) => n.type === "user")?.name ?? name;
+  const [groupForces, setGroupForces] = useState(false);
 
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [popupPosition, setPopupPosition] = useState<{
     x: number;
     y: number;
   } | null>(null);
+  /** Whether the node popup was opened by a long press, as a bottom sheet. */
+  const [popupAsSheet, setPopupAsSheet] = useState(false);
+  // Narrow screens have no room beside a node, so the popup docks below.
+  const isCompact = useMediaQuery("(max-width: 639px)");
   const [newConnectionName, setNewConnectionName] = useState("");
   const [isFrozen, setIsFrozen] = useState(false);
   const [linkFromNodeId, setLinkFromNodeId] = useState<string | null>(null);
   const [newGroupName, setNewGroupName] = useState("");
   const [showAddGroupForm, setShowAddGroupForm] = useState(false);
   const [addToGroupId, setAddToGroupId] = useState<string | null>(null);
+  const [selectedLink, setSelectedLink] = useState<{
+    link: LinkData;
+    position: { x: number; y: number };
+  } | null>(null);
+  const [showGroupPanel, setShowGroupPanel] = useState(false);
+  const [exportScale, setExportScale] = useState(2);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [profileNodeId, setProfileNodeId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [graphFilter, setGraphFilter] = useState<GraphFilter>(NO_FILTER);
+  const [showAnalyticsPanel, setShowAnalyticsPanel] = useState(false);
+  const [showPeopleList, setShowPeopleList] = useState(false);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [snapshots, setSnapshots] = useState<BubbleSnapshot[]>([]);
+  const [showGroupLegend, setShowGroupLegend] = useState(false);
+  // Groups whose outlines are switched off in the legend, for this visit.
+  const [hiddenGroupIds, setHiddenGroupIds] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [sizeBy, setSizeBy] = useState<MetricKey | null>(null);
+  const [colourBy, setColourBy] = useState<ColourBy | null>(null);
+  const [groupSuggestions, setGroupSuggestions] = useState<
+    GroupSuggestion[] | null
+  >(null);
+  const [isPathMode, setIsPathMode] = useState(false);
+  const [pathFromNodeId, setPathFromNodeId] = useState<string | null>(null);
+  const [pathResult, setPathResult] = useState<{
+    result: PathSearchResult;
+    selectedIndex: number;
+  } | null>(null);
+  const [hoveredNode, setHoveredNode] = useState<{
+    id: string;
+    position: { x: number; y: number };
+  } | null>(null);
+  /** People picked with Shift-click or the lasso, for bulk actions. */
+  const [bulkSelection, setBulkSelection] = useState<Set<string>>(
+    () => new Set()
+  );
+  /** Whether the next node clicked gets linked to the whole selection. */
+  const [isLinkingSelection, setIsLinkingSelection] = useState(false);
+
+  // Anyone deleted since being selected drops out of the selection.
+  const selectedIds = useMemo(() => {
+    const existing = new Set(nodes.map((n) => n.id));
+    return new Set([...bulkSelection].filter((id) => existing.has(id)));
+  }, [bulkSelection, nodes]);
+
+  // Pins are saved with the people, so they come back with the bubble.
+  const pinnedKey = nodes
+    .filter((n) => n.pinned)
+    .map((n) => n.id)
+    .join(",");
+  const pinnedNodeIds = useMemo(
+    () => new Set(pinnedKey ? pinnedKey.split(",") : []),
+    [pinnedKey]
+  );
 
   const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const graphContainerRef = useRef<HTMLDivElement>(null);
   const nextIdRef = useRef(0);
   const nextGroupIdRef = useRef(0);
   const isFrozenRef = useRef(false);
   const linkFromNodeIdRef = useRef<string | null>(null);
   const addToGroupIdRef = useRef<string | null>(null);
+  const isPathModeRef = useRef(false);
+  const pathFromNodeIdRef = useRef<string | null>(null);
+  /** Who has keyboard focus in the graph, for the shortcuts below. */
+  const focusedNodeIdRef = useRef<string | null>(null);
+  const bubbleRef = useRef({ nodes, links, groups });
+  /** Writes the open bubble's pending save; set once syncing is set up. */
+  const flushSaveRef = useRef<() => void>(() => {});
+
+  const submitted = bubbleId !== null;
 
   const { isFullscreen, toggleFullscreen } = useFullscreen(graphContainerRef);
+  const {
+    execute,
+    undo,
+    redo,
+    clearHistory,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useBubbleHistory({ bubbleId, setNodes, setLinks, setGroups });
 
   // ── Persistence ──────────────────────────────────────────────
 
-  /* eslint-disable */
-  // localStorage isn't available during SSR, so we must load in an effect.
-  useEffect(() => {
-    const saved = loadBubbleFromStorage();
-    if (saved) {
+  const resetEditingState = useCallback(() => {
+    setSelectedNodeId(null);
+    setPopupPosition(null);
+    setNewConnectionName("");
+    setLinkFromNodeId(null);
+    setAddToGroupId(null);
+    setSelectedLink(null);
+    setShowAddGroupForm(false);
+    setShowGroupPanel(false);
+    setShareUrl(null);
+    setProfileNodeId(null);
+    setHoveredNode(null);
+    setSearchQuery("");
+    setGraphFilter(NO_FILTER);
+    setShowAnalyticsPanel(false);
+    setShowPeopleList(false);
+    setShowVersionHistory(false);
+    setShowGroupLegend(false);
+    setHiddenGroupIds(new Set());
+    setGroupSuggestions(null);
+    setIsPathMode(false);
+    setPathFromNodeId(null);
+    setPathResult(null);
+    setBulkSelection(new Set());
+    setIsLinkingSelection(false);
+  }, []);
+
+  const refreshBubbles = useCallback(() => {
+    setBubbles(listBubbles());
+  }, []);
+
+  const openBubble = useCallback(
+    (id: string) => {
+      const result = readBubbleFromStorage(id);
+      const summary = listBubbles().find((b) => b.id === id);
+      if (!result.ok) {
+        setOpenErrors(result.errors.map(formatSchemaError));
+        return;
+      }
+      if (!summary) return;
+      const saved = result.value;
+      setOpenErrors(null);
+      resetEditingState();
+      setBubbleId(id);
+      setBubbleTitle(summary.title);
       setName(saved.name);
       setNodes(saved.nodes);
       setLinks(saved.links);
       setGroups(saved.groups);
-      setSubmitted(true);
+      setLayout(saved.layout);
+      setIsFrozen(saved.frozen);
       nextIdRef.current = saved.nextConnId;
       nextGroupIdRef.current = saved.nextGroupId;
-    }
-  }, []);
-  /* eslint-enable */
+      setActiveBubbleId(id);
+    },
+    [resetEditingState]
+  );
 
+  const closeBubble = useCallback(() => {
+    resetEditingState();
+    setBubbleId(null);
+    setBubbleTitle("");
+    setNodes([]);
+    setLinks([]);
+    setGroups([]);
+    setLayout("force");
+    setIsFrozen(false);
+    setActiveBubbleId(null);
+    refreshBubbles();
+  }, [resetEditingState, refreshBubbles]);
+
+  /* eslint-disable */
+  // Browser storage isn't available during SSR, so we must load in an effect.
   useEffect(() => {
-    if (!submitted || !name.trim() || nodes.length === 0) return;
-    saveBubbleToStorage(name, nodes, links, groups);
-  }, [submitted, name, nodes, links, groups]);
+    initStorage().then(() => {
+      migrateLegacyBubble();
+      const activeId = getActiveBubbleId();
+      if (activeId) openBubble(activeId);
+      refreshBubbles();
+    });
+  }, []);
+  /* eslint-enable */
 
   // ── Keep refs in sync for D3 event handlers ──────────────────
 
@@ -83,6 +346,15 @@ export default function NetworkPage() {
   useEffect(() => {
     addToGroupIdRef.current = addToGroupId;
   }, [addToGroupId]);
+  useEffect(() => {
+    isPathModeRef.current = isPathMode;
+  }, [isPathMode]);
+  useEffect(() => {
+    pathFromNodeIdRef.current = pathFromNodeId;
+  }, [pathFromNodeId]);
+  useEffect(() => {
+    bubbleRef.current = { nodes, links, groups };
+  }, [nodes, links, groups]);
 
   // ── Callbacks ────────────────────────────────────────────────
 
@@ -91,102 +363,578 @@ export default function NetworkPage() {
       const trimmed = connectionName.trim();
       if (!trimmed) return;
       const newId = `conn-${nextIdRef.current++}`;
-      setNodes((prev) => [...prev, createNode(newId, trimmed, "connection")]);
-      setLinks((prev) => [...prev, { source: fromNodeId, target: newId }]);
+      execute(
+        addConnectionCommand(
+          fromNodeId,
+          createNode(newId, trimmed, "connection")
+        )
+      );
       setNewConnectionName("");
       setSelectedNodeId(null);
       setPopupPosition(null);
     },
-    []
+    [execute]
   );
 
   const addLinkBetweenNodes = useCallback(
     (sourceId: string, targetId: string) => {
       if (sourceId === targetId) return;
-      setLinks((prev) => {
-        const exists = prev.some(
-          (l) =>
-            (l.source === sourceId && l.target === targetId) ||
-            (l.source === targetId && l.target === sourceId)
-        );
-        if (exists) return prev;
-        return [...prev, { source: sourceId, target: targetId }];
-      });
       setLinkFromNodeId(null);
+      execute(addLinkCommand(bubbleRef.current, sourceId, targetId));
     },
-    []
+    [execute]
   );
 
-  const addNodeToGroup = useCallback((groupId: string, nodeId: string) => {
-    setGroups((prev) =>
-      prev.map((g) =>
-        g.id === groupId && !g.memberNodeIds.includes(nodeId)
-          ? { ...g, memberNodeIds: [...g.memberNodeIds, nodeId] }
-          : g
-      )
-    );
-  }, []);
+  const addNodeToGroup = useCallback(
+    (groupId: string, nodeId: string) => {
+      execute(addToGroupCommand(bubbleRef.current, groupId, nodeId));
+    },
+    [execute]
+  );
 
   const removeNodeFromGroup = useCallback(
     (groupId: string, nodeId: string) => {
-      setGroups((prev) =>
-        prev.map((g) =>
-          g.id === groupId
-            ? {
-                ...g,
-                memberNodeIds: g.memberNodeIds.filter((id) => id !== nodeId),
-              }
-            : g
-        )
+      execute(removeFromGroupCommand(bubbleRef.current, groupId, nodeId));
+    },
+    [execute]
+  );
+
+  const handleNodeMove = useCallback(
+    (
+      nodeId: string,
+      from: { x: number; y: number },
+      to: { x: number; y: number }
+    ) => {
+      execute(moveNodeCommand(bubbleRef.current, nodeId, from, to));
+    },
+    [execute]
+  );
+
+  const renameNode = useCallback(
+    (nodeId: string, newName: string) => {
+      execute(renameNodeCommand(bubbleRef.current, nodeId, newName));
+    },
+    [execute]
+  );
+
+  const updateProfile = useCallback(
+    (nodeId: string, profile: NodeProfile) => {
+      execute(updateProfileCommand(bubbleRef.current, nodeId, profile));
+      setProfileNodeId(null);
+    },
+    [execute]
+  );
+
+  const deleteNode = useCallback(
+    (nodeId: string, dropOrphans: boolean) => {
+      execute(
+        deleteNodesCommand(bubbleRef.current, [nodeId], { dropOrphans })
       );
+      setSelectedNodeId(null);
+      setPopupPosition(null);
+      setNewConnectionName("");
+      setLinkFromNodeId(null);
+    },
+    [execute]
+  );
+
+  const handleLinkClick = useCallback(
+    (link: LinkData, screenX: number, screenY: number) => {
+      setSelectedNodeId(null);
+      setPopupPosition(null);
+      setSelectedLink({ link, position: { x: screenX, y: screenY } });
     },
     []
   );
 
+  const removeLink = useCallback(
+    (link: LinkData) => {
+      execute(removeLinkCommand(bubbleRef.current, link));
+      setSelectedLink(null);
+    },
+    [execute]
+  );
+
+  const updateLink = useCallback(
+    (link: LinkData, attributes: LinkAttributes) => {
+      execute(updateLinkCommand(bubbleRef.current, link, attributes));
+      setSelectedLink(null);
+    },
+    [execute]
+  );
+
+  const renameGroup = useCallback(
+    (groupId: string, newName: string) => {
+      execute(renameGroupCommand(bubbleRef.current, groupId, newName));
+    },
+    [execute]
+  );
+
+  const updateGroup = useCallback(
+    (groupId: string, settings: GroupSettings) => {
+      execute(updateGroupCommand(bubbleRef.current, groupId, settings));
+    },
+    [execute]
+  );
+
+  const toggleGroupHidden = useCallback((groupId: string) => {
+    setHiddenGroupIds((current) => {
+      const next = new Set(current);
+      if (!next.delete(groupId)) next.add(groupId);
+      return next;
+    });
+  }, []);
+
+  const deleteGroup = useCallback(
+    (groupId: string) => {
+      execute(deleteGroupCommand(bubbleRef.current, groupId));
+      setAddToGroupId((current) => (current === groupId ? null : current));
+      setGraphFilter((current) =>
+        current.groupId === groupId ? { ...current, groupId: null } : current
+      );
+    },
+    [execute]
+  );
+
   const handleNodeClick = useCallback(
     (nodeId: string, screenX: number, screenY: number) => {
+      if (isLinkingSelection) {
+        execute(
+          linkNodesToCommand(bubbleRef.current, [...selectedIds], nodeId)
+        );
+        setIsLinkingSelection(false);
+        return;
+      }
+      setSelectedLink(null);
       setPopupPosition({ x: screenX, y: screenY });
+      setPopupAsSheet(false);
       setSelectedNodeId(nodeId);
     },
+    [isLinkingSelection, selectedIds, execute]
+  );
+
+  const handleNodeLongPress = useCallback(
+    (nodeId: string, screenX: number, screenY: number) => {
+      setSelectedLink(null);
+      setHoveredNode(null);
+      setPopupPosition({ x: screenX, y: screenY });
+      setPopupAsSheet(true);
+      setSelectedNodeId(nodeId);
+    },
+    []
+  );
+
+  const handleNodeHover = useCallback(
+    (nodeId: string | null, screenX: number, screenY: number) => {
+      setHoveredNode(
+        nodeId ? { id: nodeId, position: { x: screenX, y: screenY } } : null
+      );
+    },
+    []
+  );
+
+  const handleNodeFocus = useCallback((nodeId: string | null) => {
+    focusedNodeIdRef.current = nodeId;
+  }, []);
+
+  // ── Bulk selection ───────────────────────────────────────────
+
+  const toggleNodeSelection = useCallback((nodeId: string) => {
+    setSelectedNodeId(null);
+    setPopupPosition(null);
+    setBulkSelection((current) => {
+      const next = new Set(current);
+      if (!next.delete(nodeId)) next.add(nodeId);
+      return next;
+    });
+  }, []);
+
+  const handleLassoSelect = useCallback((nodeIds: string[]) => {
+    setSelectedNodeId(null);
+    setPopupPosition(null);
+    setBulkSelection((current) => new Set([...current, ...nodeIds]));
+  }, []);
+
+  const handleNodesMove = useCallback(
+    (moves: NodeMove[]) => {
+      execute(moveNodesCommand(bubbleRef.current, moves));
+    },
+    [execute]
+  );
+
+  const addSelectionToGroup = useCallback(
+    (groupId: string) => {
+      execute(
+        addNodesToGroupCommand(bubbleRef.current, groupId, [...selectedIds])
+      );
+    },
+    [selectedIds, execute]
+  );
+
+  const removeSelectionFromGroup = useCallback(
+    (groupId: string) => {
+      execute(
+        removeNodesFromGroupCommand(bubbleRef.current, groupId, [
+          ...selectedIds,
+        ])
+      );
+    },
+    [selectedIds, execute]
+  );
+
+  const deleteSelection = useCallback(
+    (dropOrphans: boolean) => {
+      execute(
+        deleteNodesCommand(bubbleRef.current, [...selectedIds], {
+          dropOrphans,
+        })
+      );
+      setBulkSelection(new Set());
+      setIsLinkingSelection(false);
+    },
+    [selectedIds, execute]
+  );
+
+  const setSelectionPinned = useCallback(
+    (pinned: boolean) => {
+      execute(
+        setNodesPinnedCommand(bubbleRef.current, [...selectedIds], pinned)
+      );
+    },
+    [selectedIds, execute]
+  );
+
+  // ── Bubble library ───────────────────────────────────────────
+
+  const handleRenameBubble = useCallback(
+    (id: string, title: string) => {
+      renameBubble(id, title);
+      if (id === bubbleId && title.trim()) setBubbleTitle(title.trim());
+      refreshBubbles();
+    },
+    [bubbleId, refreshBubbles]
+  );
+
+  // Library actions read the stored copy, which may be a debounce behind.
+  const handleDuplicateBubble = useCallback(
+    (id: string) => {
+      flushSaveRef.current();
+      duplicateBubble(id);
+      refreshBubbles();
+    },
+    [refreshBubbles]
+  );
+
+  const handleDeleteBubble = useCallback(
+    (id: string) => {
+      deleteBubble(id);
+      if (id === bubbleId) {
+        closeBubble();
+      } else {
+        refreshBubbles();
+      }
+    },
+    [bubbleId, closeBubble, refreshBubbles]
+  );
+
+  const handleExportBubble = useCallback(
+    (id: string, format: ExportFormat) => {
+      flushSaveRef.current();
+      const file = exportBubbleFile(id);
+      if (!file) return;
+      exportBubbleAs(format, file).forEach((f) =>
+        downloadFile(f.filename, f.content, f.mimeType)
+      );
+    },
     []
   );
 
+  const handleImportFiles = useCallback(
+    async (files: File[]) => {
+      const result = importBubbleFiles(
+        await Promise.all(
+          files.map(async (f) => ({ name: f.name, text: await f.text() }))
+        )
+      );
+      if (!result.ok) {
+        setImportErrors(result.errors.map(formatSchemaError));
+        return;
+      }
+      setImportErrors(null);
+      const summary = importBubble(result.value.title, result.value.bubble);
+      openBubble(summary.id);
+      refreshBubbles();
+    },
+    [openBubble, refreshBubbles]
+  );
+
   const clearSelection = useCallback(() => {
     setSelectedNodeId(null);
     setPopupPosition(null);
     setNewConnectionName("");
     setLinkFromNodeId(null);
     setAddToGroupId(null);
+    setSelectedLink(null);
+    setBulkSelection(new Set());
+    setIsLinkingSelection(false);
+  }, []);
+
+  // ── Path finding ────────────────────────────────────────────
+
+  const startPathMode = useCallback((fromNodeId: string | null) => {
+    setIsPathMode(true);
+    setPathFromNodeId(fromNodeId);
+    setPathResult(null);
+    setLinkFromNodeId(null);
+    setAddToGroupId(null);
+    setSelectedNodeId(null);
+    setPopupPosition(null);
+    setNewConnectionName("");
+    setSelectedLink(null);
+  }, []);
+
+  const cancelPathMode = useCallback(() => {
+    setIsPathMode(false);
+    setPathFromNodeId(null);
   }, []);
 
+  const pickPathNode = useCallback((nodeId: string) => {
+    const fromNodeId = pathFromNodeIdRef.current;
+    if (!fromNodeId || fromNodeId === nodeId) {
+      setPathFromNodeId(nodeId);
+      return;
+    }
+    setIsPathMode(false);
+    setPathFromNodeId(null);
+    setPathResult({
+      result: findShortestPaths(bubbleRef.current, fromNodeId, nodeId),
+      selectedIndex: 0,
+    });
+    setShowGroupPanel(false);
+    setShowAnalyticsPanel(false);
+    setShowPeopleList(false);
+    setShowVersionHistory(false);
+    setShowGroupLegend(false);
+    setProfileNodeId(null);
+    setGroupSuggestions(null);
+  }, []);
+
+  // ── Search and filters ───────────────────────────────────────
+
+  const searchResults = useMemo(
+    () => searchNodes(nodes, searchQuery),
+    [nodes, searchQuery]
+  );
+  const highlighted = useMemo(
+    () =>
+      highlightedNodeIds({ nodes, links, groups }, searchQuery, graphFilter),
+    [nodes, links, groups, searchQuery, graphFilter]
+  );
+
+  // ── Analytics ────────────────────────────────────────────────
+
+  // Only computed while something shows it; betweenness is O(nodes × links),
+  // so big bubbles get estimates instead (see EXACT_ANALYTICS_LIMIT).
+  const wantsAnalytics =
+    showAnalyticsPanel || sizeBy !== null || colourBy !== null;
+  const nodeIdsKey = nodes.map((n) => n.id).join(",");
+  const analytics = useMemo(
+    () => (wantsAnalytics ? analyzeNetwork(nodes, links) : null),
+    // Positions don't affect the metrics, so node identity changes from
+    // layout flushes shouldn't recompute them.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [wantsAnalytics, nodeIdsKey, links]
+  );
+  const nodeStyles = useMemo(
+    () =>
+      analytics && (sizeBy || colourBy)
+        ? metricNodeStyles(analytics, sizeBy, colourBy)
+        : null,
+    [analytics, sizeBy, colourBy]
+  );
+
+  // ── Path highlight ───────────────────────────────────────────
+
+  // Dropped once an edit or undo removes someone on the path.
+  const selectedPath =
+    pathResult?.result.paths[pathResult.selectedIndex]?.nodeIds ?? null;
+  const highlightedPath =
+    selectedPath && selectedPath.every((id) => nodes.some((n) => n.id === id))
+      ? selectedPath
+      : null;
+
   // ── D3 graph simulation ──────────────────────────────────────
 
-  const { simulationRef } = useNetworkGraph({
-    submitted,
-    name,
+  // Large bubbles are drawn on a canvas instead; whichever hook isn't in
+  // use sits idle.
+  const renderer = nodes.length > CANVAS_NODE_THRESHOLD ? "canvas" : "svg";
+  const graphOptions = {
+    bubbleId,
     nodes,
     links,
     groups,
-    svgRef,
     setNodes,
     setIsFrozen,
     onNodeClick: handleNodeClick,
+    onNodeLongPress: handleNodeLongPress,
+    onNodeMove: handleNodeMove,
+    onNodesMove: handleNodesMove,
+    onToggleNodeSelection: toggleNodeSelection,
+    onLassoSelect: handleLassoSelect,
+    onLinkClick: handleLinkClick,
+    onNodeHover: handleNodeHover,
+    onNodeFocus: handleNodeFocus,
     addLinkBetweenNodes,
     addNodeToGroup,
+    pickPathNode,
     isFrozenRef,
+    highlightedNodeIds: highlighted,
+    nodeStyles,
+    hiddenGroupIds,
+    previewGroups: groupSuggestions,
+    highlightedPath,
+    selectedNodeIds: selectedIds,
+    pinnedNodeIds,
+    layout,
+    groupForces,
     linkFromNodeIdRef,
     addToGroupIdRef,
+    isPathModeRef,
+  };
+  const svgGraph = useNetworkGraph({
+    ...graphOptions,
+    submitted: submitted && renderer === "svg",
+    svgRef,
+  });
+  const canvasGraph = useCanvasNetworkGraph({
+    ...graphOptions,
+    submitted: submitted && renderer === "canvas",
+    canvasRef,
   });
+  const {
+    simulationRef,
+    syncNodePositions,
+    focusNode,
+    zoomToNodes,
+    panTo,
+    getViewport,
+    subscribeToView,
+  } = renderer === "canvas" ? canvasGraph : svgGraph;
+
+  // ── Navigation ───────────────────────────────────────────────
+
+  // What "zoom to selection" frames: the open node, else everyone
+  // selected, else a traced path, else whoever a search or filter left lit.
+  const selectionNodeIds = selectedNodeId
+    ? [selectedNodeId]
+    : selectedIds.size > 0
+      ? [...selectedIds]
+      : (highlightedPath ?? (highlighted ? [...highlighted] : []));
+  const userNodeId = nodes.find((n) => n.type === "user")?.id ?? null;
+
+  // ── Undo / redo ──────────────────────────────────────────────
+
+  const syncAfterHistory = useCallback(
+    (command: HistoryCommand | null) => {
+      if (!command) return;
+      const moved = positionChanges(command);
+      if (moved.length > 0) syncNodePositions(moved);
+      setSelectedNodeId(null);
+      setPopupPosition(null);
+      setSelectedLink(null);
+    },
+    [syncNodePositions]
+  );
+
+  const handleUndo = useCallback(() => {
+    syncAfterHistory(undo());
+  }, [undo, syncAfterHistory]);
+
+  const handleRedo = useCallback(() => {
+    syncAfterHistory(redo());
+  }, [redo, syncAfterHistory]);
+
+  useEffect(() => {
+    if (!submitted) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable]")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [submitted, handleUndo, handleRedo]);
+
+  // ── Keyboard shortcuts ───────────────────────────────────────
+
+  // Single keys act on whoever has keyboard focus in the graph, else on
+  // the person whose popup is open: L links them to someone, P finds a
+  // path from them. G cycles through groups to add people to and Escape
+  // backs out of any mode.
+  useEffect(() => {
+    if (!submitted) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable]")) {
+        return;
+      }
+      const nodeId = focusedNodeIdRef.current ?? selectedNodeId;
+      switch (e.key) {
+        case "Escape":
+          clearSelection();
+          cancelPathMode();
+          break;
+        case "l":
+        case "L":
+          if (!nodeId) return;
+          clearSelection();
+          setLinkFromNodeId(nodeId);
+          break;
+        case "p":
+        case "P":
+          startPathMode(nodeId);
+          break;
+        case "g":
+        case "G": {
+          const { groups } = bubbleRef.current;
+          if (groups.length === 0) return;
+          setLinkFromNodeId(null);
+          setAddToGroupId((current) => {
+            const next = groups.findIndex((g) => g.id === current) + 1;
+            return next < groups.length ? groups[next].id : null;
+          });
+          break;
+        }
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [
+    submitted,
+    selectedNodeId,
+    clearSelection,
+    cancelPathMode,
+    startPathMode,
+  ]);
 
   // ── Freeze / unfreeze ────────────────────────────────────────
 
   const handleFreeze = useCallback(() => {
     const sim = simulationRef.current;
     if (sim) {
-      sim.nodes().forEach((n) => {
-        n.fx = n.x ?? undefined;
-        n.fy = n.y ?? undefined;
-      });
+      freezeNodes(sim.nodes());
       setIsFrozen(true);
     }
   }, [simulationRef]);
@@ -194,13 +942,194 @@ export default function NetworkPage() {
   const handleUnfreeze = useCallback(() => {
     const sim = simulationRef.current;
     if (sim) {
-      sim.nodes().forEach((n) => {
-        n.fx = null;
-        n.fy = null;
-      });
+      // Pinned people stay put.
+      applyPins(sim, pinnedNodeIds, false);
       setIsFrozen(false);
     }
-  }, [simulationRef]);
+  }, [simulationRef, pinnedNodeIds]);
+
+  // ── Cross-tab sync ───────────────────────────────────────────
+
+  const handleRemoteChange = useCallback(
+    (saved: LoadedBubble | null) => {
+      if (!saved) {
+        closeBubble();
+        return;
+      }
+      const current = new Map(bubbleRef.current.nodes.map((n) => [n.id, n]));
+      const moved = saved.nodes.flatMap((n) => {
+        const before = current.get(n.id);
+        if (!before || n.x == null || n.y == null) return [];
+        return n.x !== before.x || n.y !== before.y
+          ? [{ id: n.id, x: n.x, y: n.y }]
+          : [];
+      });
+      setName(saved.name);
+      setNodes(saved.nodes);
+      setLinks(saved.links);
+      setGroups(saved.groups);
+      setLayout(saved.layout);
+      // Undoing this tab's earlier steps on top of the other tab's save
+      // could leave the bubble unopenable.
+      clearHistory();
+      nextIdRef.current = Math.max(nextIdRef.current, saved.nextConnId);
+      nextGroupIdRef.current = Math.max(
+        nextGroupIdRef.current,
+        saved.nextGroupId
+      );
+      if (moved.length > 0) syncNodePositions(moved);
+      if (saved.frozen && !isFrozenRef.current) handleFreeze();
+      if (!saved.frozen && isFrozenRef.current) handleUnfreeze();
+    },
+    [
+      closeBubble,
+      syncNodePositions,
+      handleFreeze,
+      handleUnfreeze,
+      clearHistory,
+    ]
+  );
+
+  const handleLibraryChange = useCallback(() => {
+    const list = listBubbles();
+    setBubbles(list);
+    const summary = list.find((b) => b.id === bubbleId);
+    if (summary) setBubbleTitle(summary.title);
+  }, [bubbleId]);
+
+  const {
+    storageError,
+    dismissStorageError,
+    hasConflict,
+    keepMine,
+    takeTheirs,
+    flush,
+  } = useBubbleSync({
+    bubbleId,
+    name: ownerName,
+    nodes,
+    links,
+    groups,
+    layout,
+    frozen: isFrozen,
+    onRemoteChange: handleRemoteChange,
+    onLibraryChange: handleLibraryChange,
+  });
+  const storageBanner = (
+    <StorageBanner
+      error={storageError}
+      onDismissError={dismissStorageError}
+      hasConflict={hasConflict}
+      onKeepMine={keepMine}
+      onTakeTheirs={takeTheirs}
+      openErrors={openErrors}
+      onDismissOpenErrors={() => setOpenErrors(null)}
+    />
+  );
+
+  useEffect(() => {
+    flushSaveRef.current = flush;
+  }, [flush]);
+
+  // ── Version history ──────────────────────────────────────────
+
+  // Saving keeps the snapshots, so the pending save goes first.
+  const toggleVersionHistory = useCallback(() => {
+    if (!showVersionHistory && bubbleId) {
+      flush();
+      setSnapshots(listSnapshots(bubbleId));
+    }
+    setShowVersionHistory((show) => !show);
+    setShowPeopleList(false);
+    setShowGroupLegend(false);
+    setShowGroupPanel(false);
+    setShowAnalyticsPanel(false);
+    setProfileNodeId(null);
+    setGroupSuggestions(null);
+    setPathResult(null);
+  }, [showVersionHistory, bubbleId, flush]);
+
+  // Undoable like any other edit, owner's name included; the layout and
+  // freeze come back too, though undo leaves those as restored.
+  const restoreSnapshot = useCallback(
+    (snapshotId: string) => {
+      if (!bubbleId) return;
+      const snapshot = snapshots.find((s) => s.id === snapshotId);
+      const saved = loadSnapshot(bubbleId, snapshotId);
+      if (!snapshot || !saved) return;
+      flush();
+      execute(
+        restoreSnapshotCommand(bubbleRef.current, saved, snapshot.savedAt)
+      );
+      setLayout(saved.layout);
+      nextIdRef.current = Math.max(nextIdRef.current, saved.nextConnId);
+      nextGroupIdRef.current = Math.max(
+        nextGroupIdRef.current,
+        saved.nextGroupId
+      );
+      syncNodePositions(
+        saved.nodes.flatMap((n) =>
+          n.x != null && n.y != null ? [{ id: n.id, x: n.x, y: n.y }] : []
+        )
+      );
+      if (saved.frozen && !isFrozenRef.current) handleFreeze();
+      if (!saved.frozen && isFrozenRef.current) handleUnfreeze();
+      setSelectedNodeId(null);
+      setPopupPosition(null);
+      setSelectedLink(null);
+      setBulkSelection(new Set());
+    },
+    [
+      bubbleId,
+      snapshots,
+      flush,
+      execute,
+      syncNodePositions,
+      handleFreeze,
+      handleUnfreeze,
+    ]
+  );
+
+  // ── Image export ─────────────────────────────────────────────
+
+  const handleExportSvg = useCallback(() => {
+    if (!svgRef.current) return;
+    const graph = serializeGraphSvg(svgRef.current);
+    if (!graph) return;
+    downloadFile(
+      `${toFileStem(bubbleTitle)}.svg`,
+      graph.markup,
+      "image/svg+xml"
+    );
+  }, [bubbleTitle]);
+
+  const { exportPng: exportCanvasPng } = canvasGraph;
+  const handleExportPng = useCallback(async () => {
+    let png: Blob | null;
+    if (renderer === "canvas") {
+      png = await exportCanvasPng(exportScale);
+    } else {
+      const graph = svgRef.current && serializeGraphSvg(svgRef.current);
+      png = graph ? await renderSvgToPng(graph, exportScale) : null;
+    }
+    if (!png) return;
+    downloadFile(
+      `${toFileStem(bubbleTitle)}@${exportScale}x.png`,
+      png,
+      "image/png"
+    );
+  }, [bubbleTitle, exportScale, renderer, exportCanvasPng]);
+
+  // ── Sharing ──────────────────────────────────────────────────
+
+  const handleShare = useCallback(async () => {
+    flush();
+    const fragment = await encodeShareFragment(
+      bubbleTitle,
+      toSavedBubble(ownerName, nodes, links, groups, layout, isFrozen)
+    );
+    setShareUrl(buildShareUrl(window.location.origin, fragment));
+  }, [bubbleTitle, ownerName, nodes, links, groups, layout, isFrozen, flush]);
 
   // ── Group creation ───────────────────────────────────────────
 
@@ -210,54 +1139,176 @@ export default function NetworkPage() {
       const trimmed = newGroupName.trim();
       if (!trimmed) return;
       const newId = `group-${nextGroupIdRef.current++}`;
-      setGroups((prev) => [
-        ...prev,
-        { id: newId, name: trimmed, memberNodeIds: [] },
-      ]);
+      execute(
+        addGroupCommand({
+          id: newId,
+          name: trimmed,
+          memberNodeIds: [],
+          color: nextGroupColor(bubbleRef.current.groups),
+        })
+      );
       setNewGroupName("");
       setShowAddGroupForm(false);
       setAddToGroupId(newId);
     },
-    [newGroupName]
+    [newGroupName, execute]
+  );
+
+  // ── Group suggestions ───────────────────────────────────────
+
+  const handleSuggestGroups = useCallback(() => {
+    setGroupSuggestions(suggestGroups(bubbleRef.current));
+    setShowGroupPanel(false);
+    setShowAnalyticsPanel(false);
+    setShowPeopleList(false);
+    setShowVersionHistory(false);
+    setShowGroupLegend(false);
+    setProfileNodeId(null);
+    setPathResult(null);
+  }, []);
+
+  const renameSuggestion = useCallback((id: string, name: string) => {
+    setGroupSuggestions((current) =>
+      current?.map((s) => (s.id === id ? { ...s, name } : s)) ?? null
+    );
+  }, []);
+
+  const rejectSuggestion = useCallback((id: string) => {
+    setGroupSuggestions(
+      (current) => current?.filter((s) => s.id !== id) ?? null
+    );
+  }, []);
+
+  const mergeSuggestionGroup = useCallback((ids: string[]) => {
+    setGroupSuggestions((current) => {
+      if (!current) return current;
+      const chosen = current.filter((s) => ids.includes(s.id));
+      if (chosen.length < 2) return current;
+      const [target, ...others] = chosen;
+      const merged = mergeSuggestions(target, others);
+      return current
+        .filter((s) => !others.includes(s))
+        .map((s) => (s.id === target.id ? merged : s));
+    });
+  }, []);
+
+  const acceptSuggestions = useCallback(
+    (ids: string[]) => {
+      // People deleted since the suggestions were made are left out.
+      const nodeIds = new Set(bubbleRef.current.nodes.map((n) => n.id));
+      const accepted = (groupSuggestions ?? [])
+        .filter((s) => ids.includes(s.id))
+        .map((s) => ({
+          ...s,
+          memberNodeIds: s.memberNodeIds.filter((id) => nodeIds.has(id)),
+        }))
+        .filter((s) => s.memberNodeIds.length > 0);
+      const colors = nextGroupColors(
+        bubbleRef.current.groups,
+        accepted.length
+      );
+      execute(
+        addGroupsCommand(
+          accepted.map((s, i) =>
+            suggestionToGroup(
+              s,
+              `group-${nextGroupIdRef.current++}`,
+              colors[i]
+            )
+          )
+        )
+      );
+      const remaining = (groupSuggestions ?? []).filter(
+        (s) => !ids.includes(s.id)
+      );
+      setGroupSuggestions(remaining.length > 0 ? remaining : null);
+    },
+    [groupSuggestions, execute]
   );
 
   // ── Initial submit ──────────────────────────────────────────
 
   const handleSubmit = useCallback(() => {
-    setSubmitted(true);
-    setNodes([createNode("user", name, "user")]);
-    setLinks([]);
-    nextIdRef.current = 0;
-  }, [name]);
+    const summary = createBubble(
+      bubbleTitle.trim() || `${name.trim()}'s bubble`,
+      name
+    );
+    openBubble(summary.id);
+    refreshBubbles();
+  }, [bubbleTitle, name, openBubble, refreshBubbles]);
 
   // ── Render ───────────────────────────────────────────────────
 
   if (!submitted) {
     return (
-      <NameEntryForm
-        name={name}
-        onNameChange={setName}
-        onSubmit={handleSubmit}
-      />
+      <>
+        {storageBanner}
+        <NameEntryForm
+          name={name}
+          onNameChange={setName}
+          title={bubbleTitle}
+          onTitleChange={setBubbleTitle}
+          onSubmit={handleSubmit}
+          bubbles={bubbles}
+          onOpenBubble={openBubble}
+          onImportFiles={handleImportFiles}
+          importErrors={importErrors}
+          onDismissImportErrors={() => setImportErrors(null)}
+        />
+      </>
     );
   }
 
   const selectedNode = selectedNodeId
     ? nodes.find((n) => n.id === selectedNodeId)
     : null;
+  const profileNode = profileNodeId
+    ? nodes.find((n) => n.id === profileNodeId)
+    : null;
+  const selectedLinkData = selectedLink
+    ? links.find((l) => linkKey(l) === linkKey(selectedLink.link))
+    : null;
+  const deletableSelection = nodes
+    .filter((n) => selectedIds.has(n.id) && n.type !== "user")
+    .map((n) => n.id);
+  const hoveredNodeData =
+    hoveredNode && hoveredNode.id !== selectedNodeId
+      ? nodes.find((n) => n.id === hoveredNode.id)
+      : null;
 
   return (
     <div className="flex flex-col h-screen p-8 bg-sky-50">
+      {storageBanner}
       <div className="mb-6 shrink-0">
-        <h1 className="text-3xl font-bold mb-2 text-sky-900">
-          {name}&apos;s Network Bubble
-        </h1>
+        <div className="flex items-start justify-between gap-4">
+          <h1 className="text-3xl font-bold mb-2 text-sky-900">
+            {ownerName}&apos;s Network Bubble
+          </h1>
+          <BubbleSwitcher
+            currentBubbleId={bubbleId}
+            currentTitle={bubbleTitle}
+            bubbles={bubbles}
+            onOpenMenu={refreshBubbles}
+            onOpenBubble={openBubble}
+            onNewBubble={closeBubble}
+            onRenameBubble={handleRenameBubble}
+            onDuplicateBubble={handleDuplicateBubble}
+            onDeleteBubble={handleDeleteBubble}
+            onExportBubble={handleExportBubble}
+            onImportFiles={handleImportFiles}
+            importErrors={importErrors}
+            onDismissImportErrors={() => setImportErrors(null)}
+          />
+        </div>
         <p className="text-sky-600 mb-2">
           Your connections and relationships visualized
         </p>
         <p className="text-sm text-sky-400 mb-4">
           Drag nodes to rearrange • Scroll to zoom • Click and drag to pan •
-          Click a bubble to add connections to it
+          Click a bubble to edit it • Click a line to edit or remove it •
+          Shift-click or Shift-drag to select several • Tab into the graph and
+          use arrow keys • L links, G adds to a group, P finds a path, Esc
+          cancels
         </p>
       </div>
       <div
@@ -265,28 +1316,208 @@ export default function NetworkPage() {
         className="flex-1 relative border-2 border-sky-200 rounded-xl overflow-hidden bg-sky-100/60 min-h-0"
       >
         <GraphToolbar
+          canUndo={canUndo}
+          canRedo={canRedo}
+          undoLabel={undoLabel}
+          redoLabel={redoLabel}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
           isFullscreen={isFullscreen}
           onToggleFullscreen={toggleFullscreen}
           isFrozen={isFrozen}
           onFreeze={handleFreeze}
           onUnfreeze={handleUnfreeze}
+          layout={layout}
+          onLayoutChange={setLayout}
+          groupForces={groupForces}
+          canUseGroupForces={groups.length > 0}
+          onToggleGroupForces={() => setGroupForces((on) => !on)}
+          onZoomToFit={() => zoomToNodes()}
+          canZoomToSelection={selectionNodeIds.length > 0}
+          onZoomToSelection={() => zoomToNodes(selectionNodeIds)}
+          onCenterOnMe={userNodeId ? () => focusNode(userNodeId) : null}
           showAddGroupForm={showAddGroupForm}
           onToggleGroupForm={setShowAddGroupForm}
           newGroupName={newGroupName}
           onGroupNameChange={setNewGroupName}
           onAddGroup={handleAddGroup}
+          showGroupPanel={showGroupPanel}
+          onToggleGroupPanel={() => {
+            setShowGroupPanel((show) => !show);
+            setProfileNodeId(null);
+            setShowAnalyticsPanel(false);
+            setShowPeopleList(false);
+            setShowVersionHistory(false);
+            setShowGroupLegend(false);
+            setGroupSuggestions(null);
+            setPathResult(null);
+          }}
+          onSuggestGroups={handleSuggestGroups}
+          showAnalyticsPanel={showAnalyticsPanel}
+          onToggleAnalyticsPanel={() => {
+            setShowAnalyticsPanel((show) => !show);
+            setShowGroupPanel(false);
+            setShowPeopleList(false);
+            setShowVersionHistory(false);
+            setShowGroupLegend(false);
+            setProfileNodeId(null);
+            setGroupSuggestions(null);
+            setPathResult(null);
+          }}
+          showGroupLegend={showGroupLegend}
+          onToggleGroupLegend={() => {
+            setShowGroupLegend((show) => !show);
+            setShowGroupPanel(false);
+            setShowAnalyticsPanel(false);
+            setShowPeopleList(false);
+            setShowVersionHistory(false);
+            setProfileNodeId(null);
+            setGroupSuggestions(null);
+            setPathResult(null);
+          }}
+          showPeopleList={showPeopleList}
+          onTogglePeopleList={() => {
+            setShowPeopleList((show) => !show);
+            setShowVersionHistory(false);
+            setShowGroupLegend(false);
+            setShowGroupPanel(false);
+            setShowAnalyticsPanel(false);
+            setProfileNodeId(null);
+            setGroupSuggestions(null);
+            setPathResult(null);
+          }}
+          showVersionHistory={showVersionHistory}
+          onToggleVersionHistory={toggleVersionHistory}
+          onFindPath={() => startPathMode(null)}
+          exportScale={exportScale}
+          onExportScaleChange={setExportScale}
+          canExportSvg={renderer === "svg"}
+          onExportSvg={handleExportSvg}
+          onExportPng={handleExportPng}
+          onShare={handleShare}
         />
-        <svg
-          ref={svgRef}
-          width="100%"
-          height="100%"
-          style={{ display: "block" }}
-          onClick={clearSelection}
+        <GraphSearch
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          results={searchResults}
+          onSelectResult={focusNode}
+          groups={groups}
+          filter={graphFilter}
+          onFilterChange={setGraphFilter}
+          highlightedCount={highlighted ? highlighted.size : null}
+          totalCount={nodes.length}
+        />
+        {shareUrl && (
+          <SharePanel url={shareUrl} onClose={() => setShareUrl(null)} />
+        )}
+        {showGroupPanel && (
+          <GroupPanel
+            groups={groups}
+            onRename={renameGroup}
+            onUpdate={updateGroup}
+            onDelete={deleteGroup}
+            onAddMembers={(groupId) => {
+              setAddToGroupId(groupId);
+              setShowGroupPanel(false);
+            }}
+            onClose={() => setShowGroupPanel(false)}
+          />
+        )}
+        {groupSuggestions && (
+          <GroupSuggestionsPanel
+            suggestions={groupSuggestions}
+            nodes={nodes}
+            onRename={renameSuggestion}
+            onAccept={acceptSuggestions}
+            onReject={rejectSuggestion}
+            onMerge={mergeSuggestionGroup}
+            onClose={() => setGroupSuggestions(null)}
+          />
+        )}
+        {showAnalyticsPanel && analytics && (
+          <AnalyticsPanel
+            analytics={analytics}
+            nodes={nodes}
+            sizeBy={sizeBy}
+            colourBy={colourBy}
+            onSizeByChange={setSizeBy}
+            onColourByChange={setColourBy}
+            onSelectNode={focusNode}
+            onClose={() => setShowAnalyticsPanel(false)}
+          />
+        )}
+        {showGroupLegend && (
+          <GroupLegend
+            groups={groups}
+            hiddenGroupIds={hiddenGroupIds}
+            onToggleGroup={toggleGroupHidden}
+            onShowAll={() => setHiddenGroupIds(new Set())}
+            onClose={() => setShowGroupLegend(false)}
+          />
+        )}
+        {showPeopleList && (
+          <PeopleListPanel
+            bubble={{ nodes, links, groups }}
+            onShowInGraph={focusNode}
+            onEditProfile={(nodeId) => {
+              setProfileNodeId(nodeId);
+              setShowPeopleList(false);
+            }}
+            onClose={() => setShowPeopleList(false)}
+          />
+        )}
+        {showVersionHistory && (
+          <VersionHistoryPanel
+            snapshots={snapshots}
+            onRestore={restoreSnapshot}
+            onClose={() => setShowVersionHistory(false)}
+          />
+        )}
+        {pathResult && (
+          <PathPanel
+            result={pathResult.result}
+            selectedIndex={pathResult.selectedIndex}
+            nodes={nodes}
+            onSelectPath={(selectedIndex) =>
+              setPathResult({ ...pathResult, selectedIndex })
+            }
+            onClose={() => setPathResult(null)}
+          />
+        )}
+        {profileNode && (
+          <ProfilePanel
+            key={profileNode.id}
+            node={profileNode}
+            onSave={(profile) => updateProfile(profileNode.id, profile)}
+            onClose={() => setProfileNodeId(null)}
+          />
+        )}
+        <Minimap
+          getViewport={getViewport}
+          subscribeToView={subscribeToView}
+          onPan={panTo}
         />
+        {renderer === "canvas" ? (
+          <canvas
+            ref={canvasRef}
+            style={{ display: "block", width: "100%", height: "100%" }}
+            onClick={clearSelection}
+          />
+        ) : (
+          <svg
+            ref={svgRef}
+            width="100%"
+            height="100%"
+            style={{ display: "block" }}
+            onClick={clearSelection}
+          />
+        )}
         {selectedNode && popupPosition && (
           <NodePopup
+            key={selectedNode.id}
             node={selectedNode}
             position={popupPosition}
+            variant={popupAsSheet || isCompact ? "sheet" : "popover"}
             newConnectionName={newConnectionName}
             onConnectionNameChange={setNewConnectionName}
             onAddConnection={(e) => {
@@ -301,12 +1532,44 @@ export default function NetworkPage() {
             onRemoveFromGroup={(groupId) =>
               removeNodeFromGroup(groupId, selectedNodeId!)
             }
+            orphanCount={
+              findNewlyOrphanedNodeIds({ nodes, links, groups }, [
+                selectedNode.id,
+              ]).length
+            }
+            onRename={(newName) => renameNode(selectedNode.id, newName)}
+            onEditProfile={() => {
+              setProfileNodeId(selectedNode.id);
+              setShowGroupPanel(false);
+              setShowAnalyticsPanel(false);
+              setShowPeopleList(false);
+              setShowVersionHistory(false);
+              setShowGroupLegend(false);
+              setGroupSuggestions(null);
+              setPathResult(null);
+              setSelectedNodeId(null);
+              setPopupPosition(null);
+              setNewConnectionName("");
+            }}
+            onDelete={(dropOrphans) =>
+              deleteNode(selectedNode.id, dropOrphans)
+            }
             onConnectToNode={() => {
               setLinkFromNodeId(selectedNodeId);
               setSelectedNodeId(null);
               setPopupPosition(null);
               setNewConnectionName("");
             }}
+            onFindPath={() => startPathMode(selectedNode.id)}
+            onTogglePinned={() =>
+              execute(
+                setNodesPinnedCommand(
+                  bubbleRef.current,
+                  [selectedNode.id],
+                  !selectedNode.pinned
+                )
+              )
+            }
             onClose={() => {
               setSelectedNodeId(null);
               setPopupPosition(null);
@@ -314,6 +1577,30 @@ export default function NetworkPage() {
             }}
           />
         )}
+        {hoveredNodeData && hoveredNode && (
+          <NodeTooltip
+            node={hoveredNodeData}
+            position={hoveredNode.position}
+          />
+        )}
+        {selectedLink && selectedLinkData && (
+          <LinkPopup
+            key={linkKey(selectedLinkData)}
+            link={selectedLinkData}
+            sourceName={
+              nodes.find((n) => n.id === selectedLinkData.source)?.name ??
+              selectedLinkData.source
+            }
+            targetName={
+              nodes.find((n) => n.id === selectedLinkData.target)?.name ??
+              selectedLinkData.target
+            }
+            position={selectedLink.position}
+            onSave={(attributes) => updateLink(selectedLinkData, attributes)}
+            onRemove={() => removeLink(selectedLinkData)}
+            onClose={() => setSelectedLink(null)}
+          />
+        )}
         {linkFromNodeId && (
           <LinkModeBanner
             nodeName={
@@ -322,6 +1609,43 @@ export default function NetworkPage() {
             onCancel={() => setLinkFromNodeId(null)}
           />
         )}
+        {isPathMode && (
+          <PathModeBanner
+            fromName={
+              pathFromNodeId
+                ? nodes.find((n) => n.id === pathFromNodeId)?.name ?? null
+                : null
+            }
+            onCancel={cancelPathMode}
+          />
+        )}
+        {selectedIds.size > 0 &&
+          !linkFromNodeId &&
+          !isPathMode &&
+          !addToGroupId && (
+            <SelectionBar
+              count={selectedIds.size}
+              deletableCount={deletableSelection.length}
+              groups={groups}
+              onAddToGroup={addSelectionToGroup}
+              onRemoveFromGroup={removeSelectionFromGroup}
+              isLinking={isLinkingSelection}
+              onToggleLinking={() => setIsLinkingSelection((on) => !on)}
+              allPinned={[...selectedIds].every((id) => pinnedNodeIds.has(id))}
+              onSetPinned={setSelectionPinned}
+              orphanCount={
+                findNewlyOrphanedNodeIds(
+                  { nodes, links, groups },
+                  deletableSelection
+                ).length
+              }
+              onDelete={deleteSelection}
+              onClear={() => {
+                setBulkSelection(new Set());
+                setIsLinkingSelection(false);
+              }}
+            />
+          )}
         {addToGroupId && (
           <GroupModeBanner
             groupName={
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { NodeData, LinkData, BubbleGroup } from "@/types/network";
+import { formatSchemaError } from "@/lib/bubble-schema";
+import { importBubble, setActiveBubbleId } from "@/lib/bubble-library";
+import { decodeShareFragment } from "@/lib/share";
+import { initStorage } from "@/lib/storage";
+import type { ImportedBubble } from "@/lib/interop";
+import { useFullscreen } from "@/hooks/use-fullscreen";
+import { useNetworkGraph } from "@/hooks/use-network-graph";
+import { useCanvasNetworkGraph } from "@/hooks/use-canvas-network-graph";
+import { CANVAS_NODE_THRESHOLD } from "@/lib/graph-scene";
+
+const NO_LINKS: LinkData[] = [];
+const NO_GROUPS: BubbleGroup[] = [];
+
+export default function SharedBubblePage() {
+  const router = useRouter();
+  const [shared, setShared] = useState<ImportedBubble | null>(null);
+  const [errors, setErrors] = useState<string[] | null>(null);
+  const [nodes, setNodes] = useState<NodeData[]>([]);
+  const [isFrozen, setIsFrozen] = useState(false);
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const graphContainerRef = useRef<HTMLDivElement>(null);
+  const isFrozenRef = useRef(false);
+
+  const { isFullscreen, toggleFullscreen } = useFullscreen(graphContainerRef);
+
+  // ── Decode the bubble from the URL fragment ──────────────────
+
+  useEffect(() => {
+    const load = async () => {
+      const hash = window.location.hash;
+      if (!hash) {
+        setErrors(["(link): has no bubble in it"]);
+        return;
+      }
+      const result = await decodeShareFragment(hash);
+      if (!result.ok) {
+        setShared(null);
+        setErrors(result.errors.map(formatSchemaError));
+        return;
+      }
+      setErrors(null);
+      setShared(result.value);
+      setNodes(result.value.bubble.nodes);
+      setIsFrozen(result.value.bubble.frozen ?? false);
+    };
+    load();
+    window.addEventListener("hashchange", load);
+    return () => window.removeEventListener("hashchange", load);
+  }, []);
+
+  useEffect(() => {
+    isFrozenRef.current = isFrozen;
+  }, [isFrozen]);
+
+  // ── D3 graph simulation (no editing callbacks) ──────────────
+
+  const pinnedKey = nodes
+    .filter((n) => n.pinned)
+    .map((n) => n.id)
+    .join(",");
+  const pinnedNodeIds = useMemo(
+    () => new Set(pinnedKey ? pinnedKey.split(",") : []),
+    [pinnedKey]
+  );
+
+  const renderer = nodes.length > CANVAS_NODE_THRESHOLD ? "canvas" : "svg";
+  const graphOptions = {
+    bubbleId: null,
+    nodes,
+    links: shared?.bubble.links ?? NO_LINKS,
+    groups: shared?.bubble.groups ?? NO_GROUPS,
+    layout: shared?.bubble.layout,
+    setNodes,
+    setIsFrozen,
+    isFrozenRef,
+    pinnedNodeIds,
+  };
+  useNetworkGraph({
+    ...graphOptions,
+    submitted: shared !== null && renderer === "svg",
+    svgRef,
+  });
+  useCanvasNetworkGraph({
+    ...graphOptions,
+    submitted: shared !== null && renderer === "canvas",
+    canvasRef,
+  });
+
+  const handleCopyToLibrary = useCallback(async () => {
+    if (!shared) return;
+    await initStorage();
+    const summary = importBubble(shared.title, shared.bubble);
+    setActiveBubbleId(summary.id);
+    router.push("/network");
+  }, [shared, router]);
+
+  // ── Render ───────────────────────────────────────────────────
+
+  if (errors) {
+    return (
+      <div className="flex flex-col min-h-screen items-center justify-center p-8 bg-sky-50">
+        <div className="max-w-md w-full text-center">
+          <h1 className="text-3xl font-bold mb-4 text-sky-900">
+            This bubble link doesn&apos;t work
+          </h1>
+          <ul className="mb-6 text-xs font-mono text-rose-700 space-y-0.5">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+          <Link
+            href="/network"
+            className="inline-block px-6 py-3 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-lg transition-colors"
+          >
+            Go to my bubbles
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-sky-50 text-sky-500">
+        Opening shared bubble…
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen p-8 bg-sky-50">
+      <div className="mb-6 shrink-0 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 text-sky-900">
+            {shared.title}
+          </h1>
+          <p className="text-sky-600">
+            {shared.bubble.name}&apos;s network bubble • shared read-only
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleCopyToLibrary}
+          className="px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          Copy into my bubbles
+        </button>
+      </div>
+      <div
+        ref={graphContainerRef}
+        className="flex-1 relative border-2 border-sky-200 rounded-xl overflow-hidden bg-sky-100/60 min-h-0"
+      >
+        <div className="absolute top-3 right-3 z-20 p-2 rounded-xl bg-white/90 shadow-lg border border-sky-200">
+          <button
+            type="button"
+            onClick={toggleFullscreen}
+            className="px-4 py-2 bg-sky-800 hover:bg-sky-900 text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+          >
+            {isFullscreen ? "Exit full screen" : "Full screen"}
+          </button>
+        </div>
+        {renderer === "canvas" ? (
+          <canvas
+            ref={canvasRef}
+            style={{ display: "block", width: "100%", height: "100%" }}
+          />
+        ) : (
+          <svg
+            ref={svgRef}
+            width="100%"
+            height="100%"
+            style={{ display: "block" }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import * as d3 from "d3";
+import type { NodeData } from "@/types/network";
+import {
+  EXACT_ANALYTICS_LIMIT,
+  METRIC_LABELS,
+  type ColourBy,
+  type MetricKey,
+  type NetworkAnalytics,
+} from "@/lib/graph-analytics";
+import { linkKey } from "@/lib/history";
+
+interface AnalyticsPanelProps {
+  analytics: NetworkAnalytics;
+  nodes: NodeData[];
+  sizeBy: MetricKey | null;
+  colourBy: ColourBy | null;
+  onSizeByChange: (metric: MetricKey | null) => void;
+  onColourByChange: (metric: ColourBy | null) => void;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+type SortKey = "name" | MetricKey | "community";
+
+const METRICS: MetricKey[] = ["degree", "betweenness", "closeness"];
+
+const selectClassName =
+  "flex-1 min-w-0 px-2 py-1.5 border border-sky-200 dark:border-sky-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white dark:bg-sky-900 dark:text-white text-xs text-sky-900";
+
+function formatMetric(metric: MetricKey, value: number): string {
+  return metric === "degree" ? String(value) : value.toFixed(2);
+}
+
+export function AnalyticsPanel({
+  analytics,
+  nodes,
+  sizeBy,
+  colourBy,
+  onSizeByChange,
+  onColourByChange,
+  onSelectNode,
+  onClose,
+}: AnalyticsPanelProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("betweenness");
+  const [descending, setDescending] = useState(true);
+
+  const nameOf = (id: string) => nodes.find((n) => n.id === id)?.name ?? id;
+  const rows = nodes
+    .map((n) => ({ node: n, metrics: analytics.metrics.get(n.id)! }))
+    .sort((a, b) => {
+      const byName = a.node.name.localeCompare(b.node.name);
+      const order =
+        sortKey === "name" ? byName : a.metrics[sortKey] - b.metrics[sortKey];
+      return (descending ? -order : order) || byName;
+    });
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending((d) => !d);
+    } else {
+      setSortKey(key);
+      setDescending(key !== "name" && key !== "community");
+    }
+  };
+
+  const header = (key: SortKey, label: string, className = "") => (
+    <th
+      key={key}
+      scope="col"
+      aria-sort={
+        sortKey === key ? (descending ? "descending" : "ascending") : "none"
+      }
+      className={`py-1 font-medium ${className}`}
+    >
+      <button
+        type="button"
+        onClick={() => sortBy(key)}
+        className="hover:text-sky-900 dark:hover:text-white"
+      >
+        {label}
+        {sortKey === key && (descending ? " ▾" : " ▴")}
+      </button>
+    </th>
+  );
+
+  return (
+    <div
+      className="absolute top-3 left-3 z-20 w-96 max-h-[calc(100%-1.5rem)] overflow-y-auto p-4 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-sky-200 dark:border-sky-700 space-y-3"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-sky-900 dark:text-white">
+          Network analytics
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close analytics panel"
+          className="px-2 py-1 text-sm text-sky-500 hover:bg-sky-100 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-3 gap-2 text-center">
+        {[
+          ["People", nodes.length],
+          ["Clusters", analytics.components.length],
+          ["Communities", analytics.communities.length],
+        ].map(([label, value]) => (
+          <div
+            key={label}
+            className="p-2 rounded-lg bg-sky-50 dark:bg-sky-900/40"
+          >
+            <dt className="text-xs text-sky-500">{label}</dt>
+            <dd className="text-lg font-semibold text-sky-900 dark:text-white">
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      {analytics.communities.length > 1 && (
+        <p className="text-xs text-sky-500">
+          Modularity {analytics.modularity.toFixed(2)} — higher means the
+          communities are more clearly separated.
+        </p>
+      )}
+      {analytics.approximate && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          With more than {EXACT_ANALYTICS_LIMIT} people, betweenness and
+          closeness are estimates from a sample of the network.
+        </p>
+      )}
+
+      <div className="flex gap-1">
+        <select
+          value={sizeBy ?? ""}
+          onChange={(e) =>
+            onSizeByChange((e.target.value || null) as MetricKey | null)
+          }
+          aria-label="Size nodes by"
+          className={selectClassName}
+        >
+          <option value="">Default size</option>
+          {METRICS.map((m) => (
+            <option key={m} value={m}>
+              Size by {METRIC_LABELS[m].toLowerCase()}
+            </option>
+          ))}
+        </select>
+        <select
+          value={colourBy ?? ""}
+          onChange={(e) =>
+            onColourByChange((e.target.value || null) as ColourBy | null)
+          }
+          aria-label="Colour nodes by"
+          className={selectClassName}
+        >
+          <option value="">Default colour</option>
+          <option value="community">Colour by community</option>
+          {METRICS.map((m) => (
+            <option key={m} value={m}>
+              Colour by {METRIC_LABELS[m].toLowerCase()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <table className="w-full text-xs text-sky-800 dark:text-sky-200">
+        <thead className="text-left text-sky-500">
+          <tr>
+            {header("name", "Name")}
+            {METRICS.map((m) => header(m, METRIC_LABELS[m], "text-right"))}
+            {header("community", "Comm.", "text-right")}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ node, metrics }) => (
+            <tr
+              key={node.id}
+              className="border-t border-sky-100 dark:border-sky-800"
+            >
+              <td className="py-1 max-w-28 truncate">
+                <button
+                  type="button"
+                  onClick={() => onSelectNode(node.id)}
+                  className="hover:underline"
+                  title={
+                    metrics.isArticulationPoint
+                      ? "Connects parts of your network that would otherwise be cut off"
+                      : undefined
+                  }
+                >
+                  {node.name}
+                  {metrics.isArticulationPoint && " ★"}
+                </button>
+              </td>
+              {METRICS.map((m) => (
+                <td key={m} className="py-1 text-right tabular-nums">
+                  {formatMetric(m, metrics[m])}
+                </td>
+              ))}
+              <td className="py-1 text-right">
+                <span
+                  className="inline-block w-2.5 h-2.5 rounded-full mr-1 align-middle"
+                  style={{
+                    background: d3.schemeTableau10[metrics.community % 10],
+                  }}
+                />
+                {metrics.community + 1}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <section>
+        <h3 className="text-xs font-semibold text-sky-700 dark:text-sky-300 mb-1">
+          Connectors ★
+        </h3>
+        {analytics.articulationPoints.length === 0 ? (
+          <p className="text-xs text-sky-400">
+            Nobody is the only link between parts of your network.
+          </p>
+        ) : (
+          <p className="text-xs text-sky-600 dark:text-sky-300">
+            {analytics.articulationPoints.map(nameOf).join(", ")} — removing
+            any of them would cut others off.
+          </p>
+        )}
+      </section>
+      <section>
+        <h3 className="text-xs font-semibold text-sky-700 dark:text-sky-300 mb-1">
+          Bridges
+        </h3>
+        {analytics.bridges.length === 0 ? (
+          <p className="text-xs text-sky-400">
+            Every connection has a way around it.
+          </p>
+        ) : (
+          <ul className="text-xs text-sky-600 dark:text-sky-300 space-y-0.5">
+            {analytics.bridges.map((l) => (
+              <li key={linkKey(l)}>
+                {nameOf(l.source)} — {nameOf(l.target)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useRef } from "react";
+
+interface BubbleImportButtonProps {
+  onImportFiles: (files: File[]) => void;
+  errors: string[] | null;
+  onDismissErrors: () => void;
+  className?: string;
+}
+
+export function BubbleImportButton({
+  onImportFiles,
+  errors,
+  onDismissErrors,
+  className,
+}: BubbleImportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.graphml,.gexf,.csv,.xml"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          if (files.length > 0) onImportFiles(files);
+          e.target.value = "";
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className={
+          className ??
+          "w-full px-4 py-2 text-sm text-sky-600 hover:bg-sky-100 border border-sky-200 rounded-lg transition-colors font-medium"
+        }
+      >
+        Import bubble from file
+      </button>
+      <p className="mt-1 text-xs text-sky-400">
+        JSON, GraphML, GEXF, or a nodes.csv + edges.csv pair
+      </p>
+      {errors && errors.length > 0 && (
+        <div className="mt-2 p-3 rounded-lg bg-rose-50 border border-rose-200 text-xs text-rose-700">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium">That file couldn&apos;t be imported:</p>
+            <button
+              type="button"
+              onClick={onDismissErrors}
+              aria-label="Dismiss import errors"
+              className="px-1 hover:bg-rose-100 rounded"
+            >
+              ✕
+            </button>
+          </div>
+          <ul className="mt-1 space-y-0.5 font-mono max-h-32 overflow-y-auto">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
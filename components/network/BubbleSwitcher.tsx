@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import type { BubbleSummary } from "@/types/network";
+import { BubbleImportButton } from "@/components/network/BubbleImportButton";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/interop";
+
+interface BubbleSwitcherProps {
+  currentBubbleId: string | null;
+  currentTitle: string;
+  bubbles: BubbleSummary[];
+  onOpenMenu: () => void;
+  onOpenBubble: (bubbleId: string) => void;
+  onNewBubble: () => void;
+  onRenameBubble: (bubbleId: string, title: string) => void;
+  onDuplicateBubble: (bubbleId: string) => void;
+  onDeleteBubble: (bubbleId: string) => void;
+  onExportBubble: (bubbleId: string, format: ExportFormat) => void;
+  onImportFiles: (files: File[]) => void;
+  importErrors: string[] | null;
+  onDismissImportErrors: () => void;
+}
+
+function formatUpdatedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export function BubbleSwitcher({
+  currentBubbleId,
+  currentTitle,
+  bubbles,
+  onOpenMenu,
+  onOpenBubble,
+  onNewBubble,
+  onRenameBubble,
+  onDuplicateBubble,
+  onDeleteBubble,
+  onExportBubble,
+  onImportFiles,
+  importErrors,
+  onDismissImportErrors,
+}: BubbleSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const close = () => {
+    setIsOpen(false);
+    setEditingId(null);
+    setConfirmDeleteId(null);
+    setExportingId(null);
+  };
+
+  return (
+    <div className="relative shrink-0">
+      <button
+        type="button"
+        onClick={() => {
+          if (!isOpen) onOpenMenu();
+          setIsOpen(!isOpen);
+        }}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-sky-100 border border-sky-200 rounded-lg shadow-sm transition-colors text-sm text-sky-900"
+      >
+        <span className="font-medium truncate max-w-48">{currentTitle}</span>
+        <span className="text-sky-400">{isOpen ? "▴" : "▾"}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 z-40 w-80 max-h-96 overflow-y-auto p-2 bg-white rounded-xl border border-sky-200 shadow-lg">
+          <ul className="space-y-1">
+            {bubbles.map((b) => (
+              <li
+                key={b.id}
+                className={`p-2 rounded-lg ${
+                  b.id === currentBubbleId ? "bg-sky-50" : ""
+                }`}
+              >
+                {editingId === b.id ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      onRenameBubble(b.id, editTitle);
+                      setEditingId(null);
+                    }}
+                    className="flex gap-1"
+                  >
+                    <input
+                      type="text"
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      aria-label={`New name for ${b.title}`}
+                      className="flex-1 min-w-0 px-2 py-1 border border-sky-200 rounded focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white text-sky-900 text-sm"
+                      autoFocus
+                    />
+                    <button
+                      type="submit"
+                      className="px-2 py-1 text-xs bg-sky-500 hover:bg-sky-600 text-white rounded transition-colors"
+                    >
+                      Save
+                    </button>
+                  </form>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (b.id !== currentBubbleId) onOpenBubble(b.id);
+                      close();
+                    }}
+                    className="w-full text-left"
+                  >
+                    <span className="block text-sm font-medium text-sky-900 truncate">
+                      {b.title}
+                    </span>
+                    <span className="block text-xs text-sky-400">
+                      {b.nodeCount} {b.nodeCount === 1 ? "bubble" : "bubbles"}{" "}
+                      • edited {formatUpdatedAt(b.updatedAt)}
+                    </span>
+                  </button>
+                )}
+                {confirmDeleteId === b.id ? (
+                  <div className="mt-1 flex items-center justify-between gap-2 text-xs text-rose-700">
+                    <span>Delete this bubble for good?</span>
+                    <div className="flex gap-1 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          onDeleteBubble(b.id);
+                          setConfirmDeleteId(null);
+                        }}
+                        className="px-2 py-1 bg-rose-500 hover:bg-rose-600 text-white rounded"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="px-2 py-1 hover:bg-rose-50 rounded"
+                      >
+                        Keep
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  editingId !== b.id && (
+                    <div className="mt-1 flex gap-1">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(b.id);
+                          setEditTitle(b.title);
+                        }}
+                        className="px-2 py-0.5 text-xs text-sky-600 hover:bg-sky-100 rounded"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDuplicateBubble(b.id)}
+                        className="px-2 py-0.5 text-xs text-sky-600 hover:bg-sky-100 rounded"
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setExportingId(exportingId === b.id ? null : b.id)
+                        }
+                        aria-expanded={exportingId === b.id}
+                        className="px-2 py-0.5 text-xs text-sky-600 hover:bg-sky-100 rounded"
+                      >
+                        Export
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmDeleteId(b.id)}
+                        className="px-2 py-0.5 text-xs text-rose-600 hover:bg-rose-50 rounded"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )
+                )}
+                {exportingId === b.id && (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {EXPORT_FORMATS.map((format) => (
+                      <button
+                        key={format.id}
+                        type="button"
+                        onClick={() => {
+                          onExportBubble(b.id, format.id);
+                          setExportingId(null);
+                        }}
+                        className="px-2 py-0.5 text-xs bg-sky-100 text-sky-700 hover:bg-sky-200 rounded"
+                      >
+                        {format.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => {
+              close();
+              onNewBubble();
+            }}
+            className="mt-2 w-full px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm"
+          >
+            New bubble
+          </button>
+          <div className="mt-2">
+            <BubbleImportButton
+              onImportFiles={onImportFiles}
+              errors={importErrors}
+              onDismissErrors={onDismissImportErrors}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import type { BubbleGroup } from "@/types/network";
+import type { GraphFilter, SearchMatch } from "@/lib/graph-search";
+import { groupPath, groupTree } from "@/lib/groups";
+
+interface GraphSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  results: SearchMatch[];
+  onSelectResult: (nodeId: string) => void;
+  groups: BubbleGroup[];
+  filter: GraphFilter;
+  onFilterChange: (filter: GraphFilter) => void;
+  /** How many nodes are highlighted, or null when nothing is dimmed. */
+  highlightedCount: number | null;
+  totalCount: number;
+}
+
+const HOP_OPTIONS = [1, 2, 3];
+
+const FIELD_LABELS: Record<SearchMatch["field"], string> = {
+  name: "",
+  tag: "Tag",
+  organisation: "Organisation",
+  role: "Role",
+  notes: "Notes",
+};
+
+const selectClassName =
+  "flex-1 min-w-0 px-2 py-1.5 border border-sky-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white text-xs text-sky-900";
+
+export function GraphSearch({
+  query,
+  onQueryChange,
+  results,
+  onSelectResult,
+  groups,
+  filter,
+  onFilterChange,
+  highlightedCount,
+  totalCount,
+}: GraphSearchProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const active = Math.min(activeIndex, Math.max(results.length - 1, 0));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((active + 1) % results.length);
+    } else if (e.key === "ArrowUp" && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((active - 1 + results.length) % results.length);
+    } else if (e.key === "Enter" && results[active]) {
+      e.preventDefault();
+      onSelectResult(results[active].node.id);
+    } else if (e.key === "Escape") {
+      onQueryChange("");
+    }
+  };
+
+  return (
+    <div
+      className="absolute bottom-3 left-3 z-20 w-72 flex flex-col gap-2 p-2 rounded-xl bg-white/90 shadow-lg border border-sky-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {results.length > 0 && (
+        <ul
+          role="listbox"
+          aria-label="Search results"
+          className="max-h-56 overflow-y-auto"
+        >
+          {results.map((result, i) => (
+            <li
+              key={result.node.id}
+              role="option"
+              aria-selected={i === active}
+            >
+              <button
+                type="button"
+                onClick={() => onSelectResult(result.node.id)}
+                onMouseEnter={() => setActiveIndex(i)}
+                className={`w-full text-left px-2 py-1.5 rounded-lg text-sm transition-colors ${
+                  i === active ? "bg-sky-100" : "hover:bg-sky-50"
+                }`}
+              >
+                <span className="block font-medium text-sky-900 truncate">
+                  {result.node.name}
+                </span>
+                {result.field !== "name" && (
+                  <span className="block text-xs text-sky-500 truncate">
+                    {FIELD_LABELS[result.field]}: {result.excerpt}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          onQueryChange(e.target.value);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Search names, tags, notes…"
+        aria-label="Search the bubble"
+        className="w-full px-3 py-2 border border-sky-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white text-sm text-sky-900 placeholder:text-sky-300"
+      />
+      <div className="flex gap-1">
+        <select
+          value={filter.groupId ?? ""}
+          onChange={(e) =>
+            onFilterChange({ ...filter, groupId: e.target.value || null })
+          }
+          aria-label="Filter by group"
+          className={selectClassName}
+        >
+          <option value="">All groups</option>
+          {groupTree(groups).map(({ group }) => (
+            <option key={group.id} value={group.id}>
+              Only {groupPath(group, groups)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.maxHops ?? ""}
+          onChange={(e) =>
+            onFilterChange({
+              ...filter,
+              maxHops: e.target.value ? Number(e.target.value) : null,
+            })
+          }
+          aria-label="Filter by distance"
+          className={selectClassName}
+        >
+          <option value="">Any distance</option>
+          {HOP_OPTIONS.map((hops) => (
+            <option key={hops} value={hops}>
+              Within {hops} {hops === 1 ? "hop" : "hops"} of me
+            </option>
+          ))}
+        </select>
+      </div>
+      {highlightedCount !== null && (
+        <p className="px-1 text-xs text-sky-500">
+          {highlightedCount} of {totalCount} shown
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,96 +1,361 @@
 "use client";
 
+import { useState } from "react";
+import type { LayoutKind } from "@/types/network";
+import { EXPORT_SCALES } from "@/lib/graph-export";
+import { LAYOUT_KINDS, LAYOUT_LABELS } from "@/lib/layouts";
+
 interface GraphToolbarProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
   isFullscreen: boolean;
   onToggleFullscreen: () => void;
   isFrozen: boolean;
   onFreeze: () => void;
   onUnfreeze: () => void;
+  layout: LayoutKind;
+  onLayoutChange: (layout: LayoutKind) => void;
+  /** Whether groups are pulled together and kept out of each other. */
+  groupForces: boolean;
+  canUseGroupForces: boolean;
+  onToggleGroupForces: () => void;
+  onZoomToFit: () => void;
+  canZoomToSelection: boolean;
+  onZoomToSelection: () => void;
+  /** Null when the bubble has no one marked as the user. */
+  onCenterOnMe: (() => void) | null;
   showAddGroupForm: boolean;
   onToggleGroupForm: (show: boolean) => void;
   newGroupName: string;
   onGroupNameChange: (name: string) => void;
   onAddGroup: (e: React.FormEvent) => void;
+  showGroupPanel: boolean;
+  onToggleGroupPanel: () => void;
+  onSuggestGroups: () => void;
+  showAnalyticsPanel: boolean;
+  onToggleAnalyticsPanel: () => void;
+  showGroupLegend: boolean;
+  onToggleGroupLegend: () => void;
+  showPeopleList: boolean;
+  onTogglePeopleList: () => void;
+  showVersionHistory: boolean;
+  onToggleVersionHistory: () => void;
+  onFindPath: () => void;
+  exportScale: number;
+  onExportScaleChange: (scale: number) => void;
+  /** False when the bubble is drawn on a canvas, which has no SVG. */
+  canExportSvg: boolean;
+  onExportSvg: () => void;
+  onExportPng: () => void;
+  onShare: () => void;
 }
 
 export function GraphToolbar({
+  canUndo,
+  canRedo,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
   isFullscreen,
   onToggleFullscreen,
   isFrozen,
   onFreeze,
   onUnfreeze,
+  layout,
+  onLayoutChange,
+  groupForces,
+  canUseGroupForces,
+  onToggleGroupForces,
+  onZoomToFit,
+  canZoomToSelection,
+  onZoomToSelection,
+  onCenterOnMe,
   showAddGroupForm,
   onToggleGroupForm,
   newGroupName,
   onGroupNameChange,
   onAddGroup,
+  showGroupPanel,
+  onToggleGroupPanel,
+  onSuggestGroups,
+  showAnalyticsPanel,
+  onToggleAnalyticsPanel,
+  showGroupLegend,
+  onToggleGroupLegend,
+  showPeopleList,
+  onTogglePeopleList,
+  showVersionHistory,
+  onToggleVersionHistory,
+  onFindPath,
+  exportScale,
+  onExportScaleChange,
+  canExportSvg,
+  onExportSvg,
+  onExportPng,
+  onShare,
 }: GraphToolbarProps) {
+  // Narrow screens show only undo and redo until the menu is opened.
+  const [menuOpen, setMenuOpen] = useState(false);
+
   return (
     <div
-      className="absolute top-3 right-3 z-20 flex flex-col gap-2 p-2 rounded-xl bg-white/90 shadow-lg border border-sky-200"
+      className="absolute top-3 right-3 z-20 flex flex-col gap-2 p-2 max-h-[calc(100%-1.5rem)] overflow-y-auto rounded-xl bg-white/90 shadow-lg border border-sky-200"
       onClick={(e) => e.stopPropagation()}
     >
-      <button
-        type="button"
-        onClick={onToggleFullscreen}
-        className="px-4 py-2 bg-sky-800 hover:bg-sky-900 text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
-      >
-        {isFullscreen ? "Exit full screen" : "Full screen"}
-      </button>
-      <button
-        type="button"
-        onClick={onFreeze}
-        disabled={isFrozen}
-        className="px-4 py-2 bg-sky-500 hover:bg-sky-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
-      >
-        Freeze layout
-      </button>
-      <button
-        type="button"
-        onClick={onUnfreeze}
-        disabled={!isFrozen}
-        className="px-4 py-2 bg-sky-500 hover:bg-sky-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+      <div className="flex gap-1">
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={!canUndo}
+          title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+          className="flex-1 px-3 py-2 bg-sky-100 hover:bg-sky-200 disabled:opacity-40 disabled:cursor-not-allowed text-sky-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          ↶ Undo
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={!canRedo}
+          title={
+            redoLabel
+              ? `Redo: ${redoLabel} (Ctrl+Shift+Z)`
+              : "Redo (Ctrl+Shift+Z)"
+          }
+          className="flex-1 px-3 py-2 bg-sky-100 hover:bg-sky-200 disabled:opacity-40 disabled:cursor-not-allowed text-sky-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          Redo ↷
+        </button>
+        <button
+          type="button"
+          onClick={() => setMenuOpen((open) => !open)}
+          aria-expanded={menuOpen}
+          aria-controls="graph-toolbar-menu"
+          aria-label={menuOpen ? "Close menu" : "Open menu"}
+          className="sm:hidden px-3 py-2 bg-sky-800 hover:bg-sky-900 text-white font-medium rounded-lg transition-colors text-sm"
+        >
+          {menuOpen ? "✕" : "☰"}
+        </button>
+      </div>
+      <div
+        id="graph-toolbar-menu"
+        className={`${menuOpen ? "flex" : "hidden"} sm:flex flex-col gap-2`}
       >
-        Unfreeze layout
-      </button>
-      {showAddGroupForm ? (
-        <form onSubmit={onAddGroup} className="flex flex-col gap-2">
-          <input
-            type="text"
-            value={newGroupName}
-            onChange={(e) => onGroupNameChange(e.target.value)}
-            placeholder="Group name (e.g. Family, Work)"
-            className="px-3 py-2 border border-sky-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white text-sky-900 placeholder:text-sky-300 text-sm w-40"
-            autoFocus
-          />
+        <button
+          type="button"
+          onClick={onToggleFullscreen}
+          className="px-4 py-2 bg-sky-800 hover:bg-sky-900 text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          {isFullscreen ? "Exit full screen" : "Full screen"}
+        </button>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={onZoomToFit}
+            title="Zoom to fit everyone"
+            className="flex-1 px-2 py-2 bg-sky-100 hover:bg-sky-200 text-sky-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+          >
+            Fit
+          </button>
+          <button
+            type="button"
+            onClick={onZoomToSelection}
+            disabled={!canZoomToSelection}
+            title="Zoom to the selected person, path or search results"
+            className="flex-1 px-2 py-2 bg-sky-100 hover:bg-sky-200 disabled:opacity-40 disabled:cursor-not-allowed text-sky-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+          >
+            Selection
+          </button>
+          <button
+            type="button"
+            onClick={() => onCenterOnMe?.()}
+            disabled={!onCenterOnMe}
+            title="Center on me"
+            className="flex-1 px-2 py-2 bg-sky-100 hover:bg-sky-200 disabled:opacity-40 disabled:cursor-not-allowed text-sky-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+          >
+            Me
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onFreeze}
+          disabled={isFrozen}
+          className="px-4 py-2 bg-sky-500 hover:bg-sky-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          Freeze layout
+        </button>
+        <button
+          type="button"
+          onClick={onUnfreeze}
+          disabled={!isFrozen}
+          className="px-4 py-2 bg-sky-500 hover:bg-sky-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          Unfreeze layout
+        </button>
+        <select
+          value={layout}
+          onChange={(e) => onLayoutChange(e.target.value as LayoutKind)}
+          aria-label="Layout"
+          className="px-2 py-2 border border-sky-200 rounded-lg bg-white text-sky-800 text-sm"
+        >
+          {LAYOUT_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {LAYOUT_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={onToggleGroupForces}
+          disabled={!canUseGroupForces}
+          aria-pressed={groupForces}
+          title="Pull each group together and keep other people out of it"
+          className={`px-4 py-2 ${
+            groupForces
+              ? "bg-violet-500 hover:bg-violet-600 text-white"
+              : "bg-violet-100 hover:bg-violet-200 text-violet-800"
+          } disabled:opacity-40 disabled:cursor-not-allowed font-medium rounded-lg transition-colors text-sm whitespace-nowrap`}
+        >
+          {groupForces ? "Groups kept apart" : "Keep groups apart"}
+        </button>
+        {showAddGroupForm ? (
+          <form onSubmit={onAddGroup} className="flex flex-col gap-2">
+            <input
+              type="text"
+              value={newGroupName}
+              onChange={(e) => onGroupNameChange(e.target.value)}
+              placeholder="Group name (e.g. Family, Work)"
+              className="px-3 py-2 border border-sky-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white text-sky-900 placeholder:text-sky-300 text-sm w-40"
+              autoFocus
+            />
+            <div className="flex gap-1">
+              <button
+                type="submit"
+                className="flex-1 px-3 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm"
+              >
+                Add
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  onToggleGroupForm(false);
+                  onGroupNameChange("");
+                }}
+                className="px-3 py-2 text-sm text-sky-600 hover:bg-sky-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => onToggleGroupForm(true)}
+            className="px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+          >
+            Add group
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onToggleGroupPanel}
+          className="px-4 py-2 bg-violet-500 hover:bg-violet-600 text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          {showGroupPanel ? "Hide groups" : "Manage groups"}
+        </button>
+        <button
+          type="button"
+          onClick={onSuggestGroups}
+          className="px-4 py-2 bg-violet-100 hover:bg-violet-200 text-violet-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          Suggest groups
+        </button>
+        <button
+          type="button"
+          onClick={onToggleGroupLegend}
+          aria-pressed={showGroupLegend}
+          className="px-4 py-2 bg-violet-100 hover:bg-violet-200 text-violet-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          {showGroupLegend ? "Hide legend" : "Group legend"}
+        </button>
+        <button
+          type="button"
+          onClick={onToggleAnalyticsPanel}
+          className="px-4 py-2 bg-violet-500 hover:bg-violet-600 text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          {showAnalyticsPanel ? "Hide analytics" : "Analytics"}
+        </button>
+        <button
+          type="button"
+          onClick={onTogglePeopleList}
+          aria-pressed={showPeopleList}
+          className="px-4 py-2 bg-sky-100 hover:bg-sky-200 text-sky-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          {showPeopleList ? "Hide people list" : "People list"}
+        </button>
+        <button
+          type="button"
+          onClick={onToggleVersionHistory}
+          aria-pressed={showVersionHistory}
+          className="px-4 py-2 bg-sky-100 hover:bg-sky-200 text-sky-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          {showVersionHistory ? "Hide versions" : "Version history"}
+        </button>
+        <button
+          type="button"
+          onClick={onFindPath}
+          className="px-4 py-2 bg-violet-100 hover:bg-violet-200 text-violet-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+        >
+          Find path
+        </button>
+        <div className="flex flex-col gap-1 pt-2 border-t border-sky-100">
+          <button
+            type="button"
+            onClick={onShare}
+            className="px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+          >
+            Share link
+          </button>
+          <button
+            type="button"
+            onClick={onExportSvg}
+            disabled={!canExportSvg}
+            title={
+              canExportSvg
+                ? undefined
+                : "Large bubbles are drawn on a canvas; export a PNG instead"
+            }
+            className="px-4 py-2 bg-sky-100 hover:bg-sky-200 disabled:opacity-40 disabled:cursor-not-allowed text-sky-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
+          >
+            Export SVG
+          </button>
           <div className="flex gap-1">
-            <button
-              type="submit"
-              className="flex-1 px-3 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm"
-            >
-              Add
-            </button>
             <button
               type="button"
-              onClick={() => {
-                onToggleGroupForm(false);
-                onGroupNameChange("");
-              }}
-              className="px-3 py-2 text-sm text-sky-600 hover:bg-sky-100 rounded-lg transition-colors"
+              onClick={onExportPng}
+              className="flex-1 px-3 py-2 bg-sky-100 hover:bg-sky-200 text-sky-800 font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
             >
-              Cancel
+              Export PNG
             </button>
+            <select
+              value={exportScale}
+              onChange={(e) => onExportScaleChange(Number(e.target.value))}
+              aria-label="PNG scale"
+              className="px-1 border border-sky-200 rounded-lg bg-white text-sky-800 text-sm"
+            >
+              {EXPORT_SCALES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {scale}×
+                </option>
+              ))}
+            </select>
           </div>
-        </form>
-      ) : (
-        <button
-          type="button"
-          onClick={() => onToggleGroupForm(true)}
-          className="px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm whitespace-nowrap"
-        >
-          Add group
-        </button>
-      )}
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,119 @@
+"use client";
+
+import type { BubbleGroup } from "@/types/network";
+import {
+  groupColor,
+  groupDash,
+  groupFill,
+  groupMemberIds,
+  groupTree,
+  isGroupHidden,
+} from "@/lib/groups";
+
+interface GroupLegendProps {
+  groups: BubbleGroup[];
+  hiddenGroupIds: Set<string>;
+  onToggleGroup: (groupId: string) => void;
+  onShowAll: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Which outline is which group, with sub-groups indented under their
+ * parents. Unticking a group hides its outline along with its sub-groups'.
+ */
+export function GroupLegend({
+  groups,
+  hiddenGroupIds,
+  onToggleGroup,
+  onShowAll,
+  onClose,
+}: GroupLegendProps) {
+  return (
+    <div
+      role="region"
+      aria-labelledby="group-legend-heading"
+      className="absolute top-3 left-3 z-20 w-64 max-h-[calc(100%-1.5rem)] overflow-y-auto p-4 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-sky-200 dark:border-sky-700"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2
+          id="group-legend-heading"
+          className="font-semibold text-sky-900 dark:text-white"
+        >
+          Group legend
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close group legend"
+          className="px-2 py-1 text-sm text-sky-500 hover:bg-sky-100 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+      {groups.length === 0 ? (
+        <p className="text-xs text-sky-400">No groups yet.</p>
+      ) : (
+        <>
+          <ul className="space-y-1 text-sm">
+            {groupTree(groups).map(({ group, depth }) => {
+              const hiddenByParent =
+                !hiddenGroupIds.has(group.id) &&
+                isGroupHidden(group, groups, hiddenGroupIds);
+              return (
+                <li key={group.id} style={{ paddingLeft: depth * 16 }}>
+                  <label
+                    className={`flex items-center gap-2 cursor-pointer ${
+                      hiddenByParent ? "opacity-50" : ""
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!hiddenGroupIds.has(group.id)}
+                      onChange={() => onToggleGroup(group.id)}
+                      className="accent-violet-500"
+                    />
+                    <svg
+                      width="20"
+                      height="14"
+                      aria-hidden="true"
+                      className="shrink-0"
+                    >
+                      <rect
+                        x="1"
+                        y="1"
+                        width="18"
+                        height="12"
+                        rx="6"
+                        fill={groupFill(group)}
+                        stroke={groupColor(group)}
+                        strokeWidth="2"
+                        strokeDasharray={groupDash(group) ?? undefined}
+                      />
+                    </svg>
+                    <span className="truncate text-sky-900 dark:text-sky-100">
+                      {group.name}
+                    </span>
+                    <span className="ml-auto text-xs text-sky-400">
+                      {groupMemberIds(group, groups).length}
+                    </span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+          {hiddenGroupIds.size > 0 && (
+            <button
+              type="button"
+              onClick={onShowAll}
+              className="mt-3 px-2 py-1 text-xs bg-violet-100 hover:bg-violet-200 text-violet-800 rounded transition-colors"
+            >
+              Show all
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import type { BubbleGroup, GroupOutline } from "@/types/network";
+import type { GroupSettings } from "@/lib/bubble-commands";
+import {
+  GROUP_OUTLINES,
+  GROUP_OUTLINE_LABELS,
+  GROUP_PALETTE,
+  groupColor,
+  groupPath,
+  groupTree,
+  possibleParents,
+} from "@/lib/groups";
+
+interface GroupPanelProps {
+  groups: BubbleGroup[];
+  onRename: (groupId: string, name: string) => void;
+  /** Changes a group's colour, outline or parent group. */
+  onUpdate: (groupId: string, settings: GroupSettings) => void;
+  onDelete: (groupId: string) => void;
+  onAddMembers: (groupId: string) => void;
+  onClose: () => void;
+}
+
+export function GroupPanel({
+  groups,
+  onRename,
+  onUpdate,
+  onDelete,
+  onAddMembers,
+  onClose,
+}: GroupPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [stylingId, setStylingId] = useState<string | null>(null);
+
+  return (
+    <div
+      className="absolute top-3 left-3 z-20 w-72 max-h-[calc(100%-1.5rem)] overflow-y-auto p-4 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-sky-200 dark:border-sky-700"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-sky-900 dark:text-white">Groups</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close groups panel"
+          className="px-2 py-1 text-sm text-sky-500 hover:bg-sky-100 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+      {groups.length === 0 && (
+        <p className="text-xs text-sky-400">
+          No groups yet. Use &ldquo;Add group&rdquo; to create one.
+        </p>
+      )}
+      <ul className="space-y-2">
+        {groupTree(groups).map(({ group: g, depth }) => (
+          <li
+            key={g.id}
+            className="p-2 rounded-lg border border-sky-100 dark:border-sky-800"
+            style={{ marginLeft: depth * 12 }}
+          >
+            {editingId === g.id ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  onRename(g.id, editName);
+                  setEditingId(null);
+                }}
+                className="flex gap-1"
+              >
+                <input
+                  type="text"
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  aria-label={`New name for ${g.name}`}
+                  className="flex-1 min-w-0 px-2 py-1 border border-sky-200 rounded focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white text-sky-900 text-sm"
+                  autoFocus
+                />
+                <button
+                  type="submit"
+                  className="px-2 py-1 text-xs bg-sky-500 hover:bg-sky-600 text-white rounded transition-colors"
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="px-2 py-1 text-xs text-sky-600 hover:bg-sky-100 rounded transition-colors"
+                >
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1.5 text-sm text-sky-900 dark:text-sky-100 min-w-0">
+                  <span
+                    aria-hidden="true"
+                    className="w-3 h-3 shrink-0 rounded-full"
+                    style={{ backgroundColor: groupColor(g) }}
+                  />
+                  <span className="truncate">{g.name}</span>
+                  <span className="text-xs text-sky-400">
+                    ({g.memberNodeIds.length})
+                  </span>
+                </span>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => onAddMembers(g.id)}
+                    className="px-2 py-1 text-xs bg-violet-100 text-violet-700 rounded hover:bg-violet-200"
+                  >
+                    + Members
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setStylingId((current) =>
+                        current === g.id ? null : g.id
+                      )
+                    }
+                    aria-expanded={stylingId === g.id}
+                    className="px-2 py-1 text-xs text-sky-600 hover:bg-sky-100 rounded"
+                  >
+                    Style
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingId(g.id);
+                      setEditName(g.name);
+                      setConfirmDeleteId(null);
+                    }}
+                    className="px-2 py-1 text-xs text-sky-600 hover:bg-sky-100 rounded"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmDeleteId(g.id)}
+                    className="px-2 py-1 text-xs text-rose-600 hover:bg-rose-50 rounded"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            )}
+            {stylingId === g.id && (
+              <div className="mt-2 space-y-2 text-xs text-sky-700 dark:text-sky-200">
+                <div
+                  role="radiogroup"
+                  aria-label={`Colour for ${g.name}`}
+                  className="flex flex-wrap items-center gap-1"
+                >
+                  {GROUP_PALETTE.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      role="radio"
+                      aria-checked={groupColor(g) === color}
+                      aria-label={color}
+                      onClick={() => onUpdate(g.id, { color })}
+                      className={`w-5 h-5 rounded-full border-2 ${
+                        groupColor(g) === color
+                          ? "border-sky-900 dark:border-white"
+                          : "border-transparent"
+                      }`}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                  {/* Applied once the picker is left, so dragging around
+                      it doesn't fill the undo history. */}
+                  <input
+                    key={groupColor(g)}
+                    type="color"
+                    defaultValue={groupColor(g)}
+                    onBlur={(e) => onUpdate(g.id, { color: e.target.value })}
+                    aria-label={`Custom colour for ${g.name}`}
+                    className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <label className="flex items-center gap-1">
+                    Outline
+                    <select
+                      value={g.outline ?? "dashed"}
+                      onChange={(e) =>
+                        onUpdate(g.id, {
+                          outline: e.target.value as GroupOutline,
+                        })
+                      }
+                      className="px-1 py-0.5 border border-sky-200 rounded bg-white text-sky-800"
+                    >
+                      {GROUP_OUTLINES.map((outline) => (
+                        <option key={outline} value={outline}>
+                          {GROUP_OUTLINE_LABELS[outline]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1 min-w-0">
+                    Inside
+                    <select
+                      value={g.parentId ?? ""}
+                      onChange={(e) =>
+                        onUpdate(g.id, { parentId: e.target.value || null })
+                      }
+                      className="min-w-0 px-1 py-0.5 border border-sky-200 rounded bg-white text-sky-800"
+                    >
+                      <option value="">No group</option>
+                      {possibleParents(g, groups).map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {groupPath(p, groups)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </div>
+            )}
+            {confirmDeleteId === g.id && (
+              <div className="mt-2 flex items-center justify-between gap-2 text-xs text-rose-700">
+                <span>
+                  Delete this group? Its members
+                  {groups.some((c) => c.parentId === g.id) &&
+                    " and sub-groups"}{" "}
+                  stay.
+                </span>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onDelete(g.id);
+                      setConfirmDeleteId(null);
+                    }}
+                    className="px-2 py-1 bg-rose-500 hover:bg-rose-600 text-white rounded"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmDeleteId(null)}
+                    className="px-2 py-1 hover:bg-rose-50 rounded"
+                  >
+                    Keep
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
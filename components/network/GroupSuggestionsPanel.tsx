@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import * as d3 from "d3";
+import type { NodeData } from "@/types/network";
+import type { GroupSuggestion } from "@/lib/group-suggestions";
+
+interface GroupSuggestionsPanelProps {
+  suggestions: GroupSuggestion[];
+  nodes: NodeData[];
+  onRename: (suggestionId: string, name: string) => void;
+  onAccept: (suggestionIds: string[]) => void;
+  onReject: (suggestionId: string) => void;
+  onMerge: (suggestionIds: string[]) => void;
+  onClose: () => void;
+}
+
+const MAX_LISTED_MEMBERS = 6;
+
+export function GroupSuggestionsPanel({
+  suggestions,
+  nodes,
+  onRename,
+  onAccept,
+  onReject,
+  onMerge,
+  onClose,
+}: GroupSuggestionsPanelProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selected = selectedIds.filter((id) =>
+    suggestions.some((s) => s.id === id)
+  );
+
+  const nameOf = (id: string) => nodes.find((n) => n.id === id)?.name ?? id;
+  const toggleSelected = (id: string) =>
+    setSelectedIds((ids) =>
+      ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]
+    );
+
+  return (
+    <div
+      className="absolute top-3 left-3 z-20 w-80 max-h-[calc(100%-1.5rem)] overflow-y-auto p-4 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-sky-200 dark:border-sky-700"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-sky-900 dark:text-white">
+          Suggested groups
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close suggestions"
+          className="px-2 py-1 text-sm text-sky-500 hover:bg-sky-100 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+      {suggestions.length === 0 ? (
+        <p className="text-xs text-sky-400">
+          No clear clusters to suggest. Connect more of your people to each
+          other and try again.
+        </p>
+      ) : (
+        <>
+          <p className="mb-3 text-xs text-sky-500">
+            Based on who is connected to whom. Outlined on the graph with
+            dashed lines until you accept them.
+          </p>
+          <ul className="space-y-2">
+            {suggestions.map((s, i) => (
+              <li
+                key={s.id}
+                className="p-2 rounded-lg border border-sky-100 dark:border-sky-800"
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(s.id)}
+                    onChange={() => toggleSelected(s.id)}
+                    aria-label={`Select ${s.name} for merging`}
+                    className="accent-violet-500"
+                  />
+                  <span
+                    className="w-3 h-3 shrink-0 rounded-full"
+                    style={{ background: d3.schemeTableau10[i % 10] }}
+                  />
+                  <input
+                    type="text"
+                    value={s.name}
+                    onChange={(e) => onRename(s.id, e.target.value)}
+                    aria-label="Group name"
+                    className="flex-1 min-w-0 px-2 py-1 border border-sky-200 dark:border-sky-600 rounded focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white dark:bg-sky-900 dark:text-white text-sm text-sky-900"
+                  />
+                </div>
+                <p className="mt-1 text-xs text-sky-500">
+                  {s.memberNodeIds
+                    .slice(0, MAX_LISTED_MEMBERS)
+                    .map(nameOf)
+                    .join(", ")}
+                  {s.memberNodeIds.length > MAX_LISTED_MEMBERS &&
+                    ` and ${s.memberNodeIds.length - MAX_LISTED_MEMBERS} more`}
+                </p>
+                <div className="mt-2 flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => onAccept([s.id])}
+                    className="flex-1 px-2 py-1 text-xs bg-violet-500 hover:bg-violet-600 text-white font-medium rounded transition-colors"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onReject(s.id)}
+                    className="flex-1 px-2 py-1 text-xs text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-900/30 rounded transition-colors"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex gap-1">
+            <button
+              type="button"
+              onClick={() => {
+                onMerge(selected);
+                setSelectedIds([]);
+              }}
+              disabled={selected.length < 2}
+              className="flex-1 px-3 py-2 text-sm bg-sky-100 hover:bg-sky-200 disabled:opacity-40 disabled:cursor-not-allowed text-sky-800 font-medium rounded-lg transition-colors"
+            >
+              Merge selected
+            </button>
+            <button
+              type="button"
+              onClick={() => onAccept(suggestions.map((s) => s.id))}
+              className="flex-1 px-3 py-2 text-sm bg-violet-500 hover:bg-violet-600 text-white font-medium rounded-lg transition-colors"
+            >
+              Accept all
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
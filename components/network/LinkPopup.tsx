@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  LinkData,
+  LinkAttributes,
+  LinkDirection,
+  RelationshipType,
+} from "@/types/network";
+import {
+  RELATIONSHIP_TYPES,
+  RELATIONSHIP_STYLES,
+  MIN_STRENGTH,
+  MAX_STRENGTH,
+  DEFAULT_STRENGTH,
+} from "@/lib/relationships";
+
+interface LinkPopupProps {
+  link: LinkData;
+  sourceName: string;
+  targetName: string;
+  position: { x: number; y: number };
+  onSave: (attributes: LinkAttributes) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+const STRENGTH_LABELS: Record<number, string> = {
+  1: "Acquaintance",
+  2: "Casual",
+  3: "Friendly",
+  4: "Close",
+  5: "Very close",
+};
+
+const fieldClassName =
+  "w-full px-2 py-1.5 border border-sky-200 dark:border-sky-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white dark:bg-sky-900 dark:text-white text-sm text-sky-900";
+
+export default function LinkPopup({
+  link,
+  sourceName,
+  targetName,
+  position,
+  onSave,
+  onRemove,
+  onClose,
+}: LinkPopupProps) {
+  const [type, setType] = useState<RelationshipType | "">(link.type ?? "");
+  const [customType, setCustomType] = useState(link.customType ?? "");
+  const [strength, setStrength] = useState(link.strength ?? DEFAULT_STRENGTH);
+  const [direction, setDirection] = useState<LinkDirection | "">(
+    link.direction ?? ""
+  );
+  const [label, setLabel] = useState(link.label ?? "");
+
+  return (
+    <form
+      className="absolute z-30 w-72 p-4 bg-white/95 dark:bg-sky-950/95 rounded-xl border border-sky-200 dark:border-sky-700 shadow-lg backdrop-blur-sm space-y-3"
+      style={{
+        left: position.x + 12,
+        top: position.y,
+        transform: "translateY(-50%)",
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave({
+          type: type || undefined,
+          customType,
+          // An untouched slider keeps the link at the default closeness
+          // without writing it out.
+          strength:
+            link.strength == null && strength === DEFAULT_STRENGTH
+              ? undefined
+              : strength,
+          direction: direction || undefined,
+          label,
+        });
+      }}
+    >
+      <p className="text-sm text-sky-800 dark:text-sky-200">
+        <strong>{sourceName}</strong> ↔ <strong>{targetName}</strong>
+      </p>
+      <label className="block">
+        <span className="block text-xs font-medium text-sky-700 dark:text-sky-300 mb-1">
+          Relationship
+        </span>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as RelationshipType | "")}
+          className={fieldClassName}
+        >
+          <option value="">Unspecified</option>
+          {RELATIONSHIP_TYPES.map((t) => (
+            <option key={t} value={t}>
+              {RELATIONSHIP_STYLES[t].label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {type === "custom" && (
+        <input
+          type="text"
+          value={customType}
+          onChange={(e) => setCustomType(e.target.value)}
+          placeholder="e.g. Coach, Neighbour"
+          aria-label="Custom relationship"
+          className={fieldClassName}
+        />
+      )}
+      <label className="block">
+        <span className="flex justify-between text-xs font-medium text-sky-700 dark:text-sky-300 mb-1">
+          <span>Closeness</span>
+          <span className="text-sky-500">{STRENGTH_LABELS[strength]}</span>
+        </span>
+        <input
+          type="range"
+          min={MIN_STRENGTH}
+          max={MAX_STRENGTH}
+          step={1}
+          value={strength}
+          onChange={(e) => setStrength(Number(e.target.value))}
+          className="w-full accent-sky-500"
+        />
+      </label>
+      <label className="block">
+        <span className="block text-xs font-medium text-sky-700 dark:text-sky-300 mb-1">
+          Direction
+        </span>
+        <select
+          value={direction}
+          onChange={(e) => setDirection(e.target.value as LinkDirection | "")}
+          className={fieldClassName}
+        >
+          <option value="">None</option>
+          <option value="forward">
+            {sourceName} → {targetName}
+          </option>
+          <option value="backward">
+            {targetName} → {sourceName}
+          </option>
+        </select>
+      </label>
+      <label className="block">
+        <span className="block text-xs font-medium text-sky-700 dark:text-sky-300 mb-1">
+          Label
+        </span>
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="e.g. Introduced me to Sam"
+          className={fieldClassName}
+        />
+      </label>
+      <button
+        type="submit"
+        className="w-full px-4 py-2 text-sm bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors"
+      >
+        Save
+      </button>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="w-full px-4 py-2 text-sm bg-rose-500 hover:bg-rose-600 text-white font-medium rounded-lg transition-colors"
+      >
+        Remove connection
+      </button>
+      <button
+        type="button"
+        onClick={onClose}
+        className="w-full px-4 py-2 text-sm text-sky-500 dark:text-sky-400 hover:bg-sky-50 dark:hover:bg-sky-800/30 rounded-lg transition-colors"
+      >
+        Cancel
+      </button>
+    </form>
+  );
+}
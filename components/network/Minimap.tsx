@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import * as d3 from "d3";
+import type { GraphViewport, Node } from "@/types/network";
+import { nodeFill } from "@/lib/graph-scene";
+
+const WIDTH = 200;
+const HEIGHT = 140;
+const PADDING = 8;
+
+/** Maps scene coordinates onto the minimap: `minimap = scene * k + d`. */
+interface Projection {
+  k: number;
+  dx: number;
+  dy: number;
+}
+
+interface MinimapProps {
+  getViewport: () => GraphViewport | null;
+  subscribeToView: (listener: () => void) => () => void;
+  /** Centres the view on a scene point, keeping the zoom. */
+  onPan: (x: number, y: number) => void;
+}
+
+/**
+ * The whole bubble in miniature with the part on screen outlined. Click or
+ * drag on it to move the view.
+ */
+export function Minimap({
+  getViewport,
+  subscribeToView,
+  onPan,
+}: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const projectionRef = useRef<Projection | null>(null);
+  const isDraggingRef = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = WIDTH * pixelRatio;
+    canvas.height = HEIGHT * pixelRatio;
+
+    let frame = 0;
+    const draw = () => {
+      frame = 0;
+      ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+      const view = getViewport();
+      if (!view) return;
+      const [x0, y0] = view.transform.invert([0, 0]);
+      const [x1, y1] = view.transform.invert([view.width, view.height]);
+      const placed = view.nodes.filter((n) => n.x != null && n.y != null);
+
+      // The bounds take in the view too, so the outline never falls off
+      // the edge. They hold still mid-drag, or the map would slide about
+      // under the pointer.
+      if (!isDraggingRef.current || !projectionRef.current) {
+        const minX = d3.min([x0, ...placed.map((n) => n.x! - n.radius)])!;
+        const minY = d3.min([y0, ...placed.map((n) => n.y! - n.radius)])!;
+        const maxX = d3.max([x1, ...placed.map((n) => n.x! + n.radius)])!;
+        const maxY = d3.max([y1, ...placed.map((n) => n.y! + n.radius)])!;
+        const k = Math.min(
+          (WIDTH - PADDING * 2) / (maxX - minX || 1),
+          (HEIGHT - PADDING * 2) / (maxY - minY || 1)
+        );
+        projectionRef.current = {
+          k,
+          dx: (WIDTH - k * (minX + maxX)) / 2,
+          dy: (HEIGHT - k * (minY + maxY)) / 2,
+        };
+      }
+      const { k, dx, dy } = projectionRef.current;
+      ctx.setTransform(
+        pixelRatio * k,
+        0,
+        0,
+        pixelRatio * k,
+        pixelRatio * dx,
+        pixelRatio * dy
+      );
+
+      ctx.beginPath();
+      view.links.forEach((l) => {
+        const source = l.source as Node;
+        const target = l.target as Node;
+        if (source.x == null || target.x == null) return;
+        ctx.moveTo(source.x, source.y!);
+        ctx.lineTo(target.x, target.y!);
+      });
+      ctx.strokeStyle = "#bae6fd";
+      ctx.lineWidth = 1 / k;
+      ctx.stroke();
+
+      placed.forEach((n) => {
+        ctx.beginPath();
+        ctx.arc(n.x!, n.y!, Math.max(n.radius, 1.5 / k), 0, 2 * Math.PI);
+        ctx.fillStyle = nodeFill(n);
+        ctx.fill();
+      });
+
+      ctx.fillStyle = "rgba(14, 165, 233, 0.12)";
+      ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+      ctx.strokeStyle = "#0369a1";
+      ctx.lineWidth = 1.5 / k;
+      ctx.strokeRect(x0, y0, x1 - x0, y1 - y0);
+    };
+    const requestDraw = () => {
+      if (!frame) frame = requestAnimationFrame(draw);
+    };
+
+    draw();
+    const unsubscribe = subscribeToView(requestDraw);
+    return () => {
+      unsubscribe();
+      cancelAnimationFrame(frame);
+    };
+  }, [getViewport, subscribeToView]);
+
+  const panToPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const projection = projectionRef.current;
+    if (!projection) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPan(
+      (e.clientX - rect.left - projection.dx) / projection.k,
+      (e.clientY - rect.top - projection.dy) / projection.k
+    );
+  };
+
+  return (
+    <div
+      className="absolute bottom-3 right-3 z-20 p-1 rounded-xl bg-white/90 shadow-lg border border-sky-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <canvas
+        ref={canvasRef}
+        role="img"
+        aria-label="Overview of the whole bubble"
+        title="Click or drag to move the view"
+        style={{ width: WIDTH, height: HEIGHT, display: "block" }}
+        className="cursor-pointer touch-none rounded-lg"
+        onPointerDown={(e) => {
+          isDraggingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          panToPointer(e);
+        }}
+        onPointerMove={(e) => {
+          if (isDraggingRef.current) panToPointer(e);
+        }}
+        onPointerUp={() => {
+          isDraggingRef.current = false;
+        }}
+        onPointerCancel={() => {
+          isDraggingRef.current = false;
+        }}
+      />
+    </div>
+  );
+}
@@ -1,15 +1,32 @@
 "use client";
 
+import type { BubbleSummary } from "@/types/network";
+import { BubbleImportButton } from "@/components/network/BubbleImportButton";
+
 interface NameEntryFormProps {
   name: string;
   onNameChange: (name: string) => void;
+  title: string;
+  onTitleChange: (title: string) => void;
   onSubmit: () => void;
+  bubbles: BubbleSummary[];
+  onOpenBubble: (bubbleId: string) => void;
+  onImportFiles: (files: File[]) => void;
+  importErrors: string[] | null;
+  onDismissImportErrors: () => void;
 }
 
 export function NameEntryForm({
   name,
   onNameChange,
+  title,
+  onTitleChange,
   onSubmit,
+  bubbles,
+  onOpenBubble,
+  onImportFiles,
+  importErrors,
+  onDismissImportErrors,
 }: NameEntryFormProps) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -34,6 +51,13 @@ export function NameEntryForm({
             className="w-full px-4 py-3 text-lg border-2 border-sky-200 rounded-lg focus:outline-none focus:border-sky-400 bg-white text-sky-900 placeholder:text-sky-300"
             autoFocus
           />
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => onTitleChange(e.target.value)}
+            placeholder="Bubble name (e.g. Work, Family)"
+            className="w-full px-4 py-3 border-2 border-sky-200 rounded-lg focus:outline-none focus:border-sky-400 bg-white text-sky-900 placeholder:text-sky-300"
+          />
           <button
             type="submit"
             className="w-full px-6 py-3 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-lg transition-colors"
@@ -41,6 +65,36 @@ export function NameEntryForm({
             Create My Bubble
           </button>
         </form>
+        <div className="mt-4">
+          <BubbleImportButton
+            onImportFiles={onImportFiles}
+            errors={importErrors}
+            onDismissErrors={onDismissImportErrors}
+          />
+        </div>
+        {bubbles.length > 0 && (
+          <div className="mt-10">
+            <p className="text-sm font-medium text-sky-700 mb-2">
+              Or open one of your bubbles
+            </p>
+            <ul className="space-y-2">
+              {bubbles.map((b) => (
+                <li key={b.id}>
+                  <button
+                    type="button"
+                    onClick={() => onOpenBubble(b.id)}
+                    className="w-full flex items-center justify-between px-4 py-2 bg-white hover:bg-sky-100 border border-sky-200 rounded-lg transition-colors text-left"
+                  >
+                    <span className="text-sky-900 truncate">{b.title}</span>
+                    <span className="text-xs text-sky-400 shrink-0 ml-2">
+                      {b.nodeCount} {b.nodeCount === 1 ? "bubble" : "bubbles"}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
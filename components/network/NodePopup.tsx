@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import type { NodeData, BubbleGroup } from "@/types/network";
 
 interface NodePopupProps {
@@ -11,8 +12,19 @@ interface NodePopupProps {
   groups: BubbleGroup[];
   onAddToGroup: (groupId: string) => void;
   onRemoveFromGroup: (groupId: string) => void;
+  orphanCount: number;
+  onRename: (name: string) => void;
+  onEditProfile: () => void;
+  onTogglePinned: () => void;
+  onDelete: (dropOrphans: boolean) => void;
   onConnectToNode: () => void;
+  onFindPath: () => void;
   onClose: () => void;
+  /**
+   * "sheet" docks the popup to the bottom of the screen, for phones and
+   * long presses, ignoring `position`. Defaults to "popover".
+   */
+  variant?: "popover" | "sheet";
 }
 
 export default function NodePopup({
@@ -24,9 +36,20 @@ export default function NodePopup({
   groups,
   onAddToGroup,
   onRemoveFromGroup,
+  orphanCount,
+  onRename,
+  onEditProfile,
+  onTogglePinned,
+  onDelete,
   onConnectToNode,
+  onFindPath,
   onClose,
+  variant = "popover",
 }: NodePopupProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState(node.name);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
   const memberGroups = groups.filter((g) =>
     g.memberNodeIds.includes(node.id)
   );
@@ -34,16 +57,82 @@ export default function NodePopup({
     (g) => !g.memberNodeIds.includes(node.id)
   );
 
+  const isSheet = variant === "sheet";
+
   return (
     <div
-      className="absolute z-30 w-72 p-4 bg-white/95 dark:bg-sky-950/95 rounded-xl border border-sky-200 dark:border-sky-700 shadow-lg backdrop-blur-sm"
-      style={{
-        left: position.x + node.radius + 12,
-        top: position.y,
-        transform: "translateY(-50%)",
-      }}
+      role={isSheet ? "dialog" : undefined}
+      aria-label={isSheet ? node.name : undefined}
+      className={
+        isSheet
+          ? "fixed inset-x-0 bottom-0 z-40 max-h-[70vh] overflow-y-auto p-4 pb-[max(1rem,env(safe-area-inset-bottom))] bg-white/95 dark:bg-sky-950/95 rounded-t-2xl border-t border-sky-200 dark:border-sky-700 shadow-2xl backdrop-blur-sm"
+          : "absolute z-30 w-72 p-4 bg-white/95 dark:bg-sky-950/95 rounded-xl border border-sky-200 dark:border-sky-700 shadow-lg backdrop-blur-sm"
+      }
+      style={
+        isSheet
+          ? undefined
+          : {
+              left: position.x + node.radius + 12,
+              top: position.y,
+              transform: "translateY(-50%)",
+            }
+      }
       onClick={(e) => e.stopPropagation()}
     >
+      {isSheet && (
+        <div
+          aria-hidden
+          className="mx-auto -mt-1 mb-3 h-1.5 w-10 rounded-full bg-sky-200 dark:bg-sky-700"
+        />
+      )}
+      {isRenaming ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onRename(renameValue);
+            setIsRenaming(false);
+          }}
+          className="flex gap-2 mb-3 pb-3 border-b border-sky-100 dark:border-sky-700"
+        >
+          <input
+            type="text"
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            aria-label="New name"
+            className="flex-1 min-w-0 px-3 py-2 border border-sky-200 dark:border-sky-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-400 dark:bg-sky-900 dark:text-white text-sm text-sky-900"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="px-3 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm shrink-0"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsRenaming(false);
+              setRenameValue(node.name);
+            }}
+            className="px-2 py-2 text-sm text-sky-600 hover:bg-sky-100 rounded-lg transition-colors shrink-0"
+          >
+            ✕
+          </button>
+        </form>
+      ) : (
+        <div className="flex items-center justify-between gap-2 mb-3 pb-3 border-b border-sky-100 dark:border-sky-700">
+          <span className="font-semibold text-sky-900 dark:text-white truncate">
+            {node.name}
+          </span>
+          <button
+            type="button"
+            onClick={() => setIsRenaming(true)}
+            className="px-2 py-1 text-xs text-sky-600 dark:text-sky-400 hover:bg-sky-50 dark:hover:bg-sky-900/30 rounded transition-colors shrink-0"
+          >
+            Rename
+          </button>
+        </div>
+      )}
       <form onSubmit={onAddConnection} className="space-y-3">
         <label
           htmlFor="new-connection"
@@ -102,6 +191,13 @@ export default function NodePopup({
           )}
         </div>
       </div>
+      <button
+        type="button"
+        onClick={onEditProfile}
+        className="mt-2 w-full px-4 py-2 text-sm text-sky-600 dark:text-sky-400 hover:bg-sky-50 dark:hover:bg-sky-900/30 rounded-lg transition-colors font-medium"
+      >
+        {node.profile ? "Edit profile" : "Add profile details"}
+      </button>
       <button
         type="button"
         onClick={onConnectToNode}
@@ -109,6 +205,74 @@ export default function NodePopup({
       >
         Connect to another node
       </button>
+      <button
+        type="button"
+        onClick={onFindPath}
+        className="mt-2 w-full px-4 py-2 text-sm text-sky-600 dark:text-sky-400 hover:bg-sky-50 dark:hover:bg-sky-900/30 rounded-lg transition-colors font-medium"
+      >
+        Find a path from here
+      </button>
+      <button
+        type="button"
+        onClick={onTogglePinned}
+        aria-pressed={node.pinned ?? false}
+        className="mt-2 w-full px-4 py-2 text-sm text-sky-600 dark:text-sky-400 hover:bg-sky-50 dark:hover:bg-sky-900/30 rounded-lg transition-colors font-medium"
+      >
+        {node.pinned ? "Unpin" : "Pin in place"}
+      </button>
+      {node.type !== "user" &&
+        (confirmDelete ? (
+          <div className="mt-2 p-3 rounded-lg bg-rose-50 dark:bg-rose-900/30 border border-rose-200 dark:border-rose-800 space-y-2">
+            <p className="text-xs text-rose-700 dark:text-rose-300">
+              Delete <strong>{node.name}</strong> and its connections?
+              {orphanCount > 0 &&
+                ` ${orphanCount} other ${
+                  orphanCount === 1 ? "bubble" : "bubbles"
+                } will no longer be connected to you.`}
+            </p>
+            {orphanCount > 0 ? (
+              <div className="flex flex-col gap-1">
+                <button
+                  type="button"
+                  onClick={() => onDelete(false)}
+                  className="px-3 py-1.5 text-xs bg-rose-500 hover:bg-rose-600 text-white font-medium rounded transition-colors"
+                >
+                  Delete, keep the others
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(true)}
+                  className="px-3 py-1.5 text-xs bg-rose-700 hover:bg-rose-800 text-white font-medium rounded transition-colors"
+                >
+                  Delete them too
+                </button>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onDelete(false)}
+                className="w-full px-3 py-1.5 text-xs bg-rose-500 hover:bg-rose-600 text-white font-medium rounded transition-colors"
+              >
+                Delete
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setConfirmDelete(false)}
+              className="w-full px-3 py-1 text-xs text-rose-600 dark:text-rose-300 hover:bg-rose-100 dark:hover:bg-rose-900/40 rounded transition-colors"
+            >
+              Keep {node.name}
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setConfirmDelete(true)}
+            className="mt-2 w-full px-4 py-2 text-sm text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-900/30 rounded-lg transition-colors font-medium"
+          >
+            Delete {node.name}
+          </button>
+        ))}
       <button
         type="button"
         onClick={onClose}
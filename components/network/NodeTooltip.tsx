@@ -0,0 +1,67 @@
+"use client";
+
+import type { NodeData } from "@/types/network";
+
+interface NodeTooltipProps {
+  node: NodeData;
+  position: { x: number; y: number };
+}
+
+function formatDateMet(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    dateStyle: "medium",
+  });
+}
+
+export function NodeTooltip({ node, position }: NodeTooltipProps) {
+  const profile = node.profile;
+  if (!profile) return null;
+  const headline = [profile.role, profile.organisation]
+    .filter(Boolean)
+    .join(" at ");
+  const met = [
+    profile.howWeMet,
+    profile.dateMet && formatDateMet(profile.dateMet),
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <div
+      role="tooltip"
+      className="absolute z-20 w-60 p-3 bg-sky-950/90 text-sky-50 rounded-lg shadow-lg pointer-events-none text-xs space-y-1"
+      style={{
+        left: position.x + node.radius + 12,
+        top: position.y,
+        transform: "translateY(-50%)",
+      }}
+    >
+      <p className="font-semibold text-sm">{node.name}</p>
+      {headline && <p>{headline}</p>}
+      {met && <p className="text-sky-300">Met: {met}</p>}
+      {(profile.email || profile.phone) && (
+        <p className="text-sky-300">
+          {[profile.email, profile.phone].filter(Boolean).join(" • ")}
+        </p>
+      )}
+      {profile.tags && profile.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 pt-1">
+          {profile.tags.map((tag) => (
+            <span
+              key={tag}
+              className="px-1.5 py-0.5 bg-sky-800 text-sky-100 rounded"
+            >
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+      {profile.notes && (
+        <p className="pt-1 text-sky-200 line-clamp-3 whitespace-pre-line">
+          {profile.notes}
+        </p>
+      )}
+    </div>
+  );
+}
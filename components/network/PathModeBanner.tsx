@@ -0,0 +1,30 @@
+"use client";
+
+interface PathModeBannerProps {
+  /** Name of the first person picked, or null until one is. */
+  fromName: string | null;
+  onCancel: () => void;
+}
+
+export function PathModeBanner({ fromName, onCancel }: PathModeBannerProps) {
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 px-4 py-2 bg-amber-100 dark:bg-amber-900/40 border border-amber-300 dark:border-amber-700 rounded-lg shadow flex items-center gap-3">
+      <span className="text-sm text-amber-800 dark:text-amber-200">
+        {fromName ? (
+          <>
+            Click a node to find a path from <strong>{fromName}</strong>
+          </>
+        ) : (
+          "Click the first person on the path"
+        )}
+      </span>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="px-3 py-1 text-sm bg-amber-200 dark:bg-amber-800 hover:bg-amber-300 dark:hover:bg-amber-700 rounded transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
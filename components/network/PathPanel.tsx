@@ -0,0 +1,77 @@
+"use client";
+
+import type { NodeData } from "@/types/network";
+import type { PathSearchResult } from "@/lib/path-finder";
+
+interface PathPanelProps {
+  result: PathSearchResult;
+  selectedIndex: number;
+  nodes: NodeData[];
+  onSelectPath: (index: number) => void;
+  onClose: () => void;
+}
+
+export function PathPanel({
+  result,
+  selectedIndex,
+  nodes,
+  onSelectPath,
+  onClose,
+}: PathPanelProps) {
+  const nameOf = (id: string) => nodes.find((n) => n.id === id)?.name ?? id;
+  const steps = result.paths[0] ? result.paths[0].nodeIds.length - 1 : 0;
+
+  return (
+    <div
+      className="absolute top-3 left-3 z-20 w-80 max-h-[calc(100%-1.5rem)] overflow-y-auto p-4 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-sky-200 dark:border-sky-700"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-sky-900 dark:text-white">
+          {nameOf(result.fromId)} to {nameOf(result.toId)}
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close path"
+          className="px-2 py-1 text-sm text-sky-500 hover:bg-sky-100 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+      {result.paths.length === 0 ? (
+        <p className="text-xs text-sky-400">
+          No path — these two aren&apos;t connected through anyone in your
+          bubble.
+        </p>
+      ) : (
+        <>
+          <p className="mb-3 text-xs text-sky-500">
+            {steps} {steps === 1 ? "step" : "steps"}
+            {result.paths.length > 1 &&
+              `, ${result.paths.length} equally good routes`}
+            {result.weighted && ". Closer relationships are preferred."}
+          </p>
+          <ul className="space-y-1">
+            {result.paths.map((path, i) => (
+              <li key={path.nodeIds.join(",")}>
+                <button
+                  type="button"
+                  onClick={() => onSelectPath(i)}
+                  aria-pressed={i === selectedIndex}
+                  className={`w-full text-left px-2 py-1.5 rounded-lg text-sm text-sky-900 dark:text-sky-100 transition-colors ${
+                    i === selectedIndex
+                      ? "bg-amber-100 dark:bg-amber-900/40"
+                      : "hover:bg-sky-50 dark:hover:bg-sky-900/40"
+                  }`}
+                >
+                  {path.nodeIds.map(nameOf).join(" → ")}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
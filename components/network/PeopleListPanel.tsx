@@ -0,0 +1,184 @@
+"use client";
+
+import type { BubbleData } from "@/types/network";
+import { groupPath, groupTree } from "@/lib/groups";
+
+interface PeopleListPanelProps {
+  bubble: BubbleData;
+  /** Pans the graph to someone. */
+  onShowInGraph: (nodeId: string) => void;
+  onEditProfile: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+function entryId(nodeId: string): string {
+  return `people-list-${nodeId}`;
+}
+
+/** Moves focus to someone's entry, e.g. from a link in another entry. */
+function focusEntry(nodeId: string) {
+  document.getElementById(entryId(nodeId))?.focus();
+}
+
+/**
+ * The bubble as plain lists: everyone with who they're connected to and
+ * their groups, then each group's members. An alternative to the graph for
+ * screen readers and anyone who would rather read than look.
+ */
+export function PeopleListPanel({
+  bubble,
+  onShowInGraph,
+  onEditProfile,
+  onClose,
+}: PeopleListPanelProps) {
+  const { nodes, links, groups } = bubble;
+  const names = new Map(nodes.map((n) => [n.id, n.name]));
+  const byName = (a: string, b: string) =>
+    (names.get(a) ?? "").localeCompare(names.get(b) ?? "");
+  const people = [...nodes].sort(
+    (a, b) =>
+      Number(b.type === "user") - Number(a.type === "user") ||
+      a.name.localeCompare(b.name)
+  );
+  const connections = (nodeId: string) =>
+    links
+      .filter((l) => l.source === nodeId || l.target === nodeId)
+      .map((l) => (l.source === nodeId ? l.target : l.source))
+      .sort(byName);
+
+  return (
+    <div
+      role="region"
+      aria-labelledby="people-list-heading"
+      className="absolute top-3 left-3 z-20 w-96 max-h-[calc(100%-1.5rem)] overflow-y-auto p-4 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-sky-200 dark:border-sky-700 space-y-4"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h2
+          id="people-list-heading"
+          className="font-semibold text-sky-900 dark:text-white"
+        >
+          People ({nodes.length})
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close people list"
+          className="px-2 py-1 text-sm text-sky-500 hover:bg-sky-100 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {people.map((n) => {
+          const connected = connections(n.id);
+          const memberOf = groups.filter((g) =>
+            g.memberNodeIds.includes(n.id)
+          );
+          return (
+            <li
+              key={n.id}
+              className="p-2 rounded-lg border border-sky-100 dark:border-sky-800 text-sm"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <h3
+                  id={entryId(n.id)}
+                  tabIndex={-1}
+                  className="font-medium text-sky-900 dark:text-sky-100 focus:outline-none focus:ring-2 focus:ring-sky-400 rounded"
+                >
+                  {n.name}
+                  {n.type === "user" && (
+                    <span className="ml-1 text-xs text-sky-400">(you)</span>
+                  )}
+                </h3>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => onShowInGraph(n.id)}
+                    aria-label={`Show ${n.name} in the graph`}
+                    className="px-2 py-1 text-xs bg-sky-100 hover:bg-sky-200 text-sky-800 rounded transition-colors"
+                  >
+                    Show
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onEditProfile(n.id)}
+                    aria-label={`Edit ${n.name}'s profile`}
+                    className="px-2 py-1 text-xs bg-sky-100 hover:bg-sky-200 text-sky-800 rounded transition-colors"
+                  >
+                    Profile
+                  </button>
+                </div>
+              </div>
+              <p className="mt-1 text-sky-600 dark:text-sky-300">
+                {connected.length === 0 ? (
+                  "No connections"
+                ) : (
+                  <>
+                    Connected to{" "}
+                    {connected.map((id, i) => (
+                      <span key={id}>
+                        {i > 0 && ", "}
+                        <button
+                          type="button"
+                          onClick={() => focusEntry(id)}
+                          className="underline decoration-sky-300 hover:text-sky-900"
+                        >
+                          {names.get(id) ?? id}
+                        </button>
+                      </span>
+                    ))}
+                  </>
+                )}
+              </p>
+              {memberOf.length > 0 && (
+                <p className="text-xs text-sky-400">
+                  In {memberOf.map((g) => groupPath(g, groups)).join(", ")}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {groups.length > 0 && (
+        <section aria-labelledby="people-list-groups-heading">
+          <h2
+            id="people-list-groups-heading"
+            className="font-semibold text-sky-900 dark:text-white mb-2"
+          >
+            Groups ({groups.length})
+          </h2>
+          <ul className="space-y-2 text-sm">
+            {groupTree(groups).map(({ group: g }) => (
+              <li
+                key={g.id}
+                className="p-2 rounded-lg border border-violet-100 dark:border-violet-800"
+              >
+                <h3 className="font-medium text-violet-900 dark:text-violet-100">
+                  {groupPath(g, groups)}
+                </h3>
+                {g.memberNodeIds.length === 0 ? (
+                  <p className="text-xs text-sky-400">No members</p>
+                ) : (
+                  <ul className="mt-1 flex flex-wrap gap-x-2 text-sky-600 dark:text-sky-300">
+                    {[...g.memberNodeIds].sort(byName).map((id) => (
+                      <li key={id}>
+                        <button
+                          type="button"
+                          onClick={() => focusEntry(id)}
+                          className="underline decoration-sky-300 hover:text-sky-900"
+                        >
+                          {names.get(id) ?? id}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import type { NodeData, NodeProfile } from "@/types/network";
+
+interface ProfilePanelProps {
+  node: NodeData;
+  onSave: (profile: NodeProfile) => void;
+  onClose: () => void;
+}
+
+const TEXT_FIELDS: {
+  field: "organisation" | "role" | "email" | "phone" | "howWeMet";
+  label: string;
+  type: string;
+  placeholder: string;
+}[] = [
+  {
+    field: "organisation",
+    label: "Organisation",
+    type: "text",
+    placeholder: "Acme Inc.",
+  },
+  { field: "role", label: "Role", type: "text", placeholder: "Designer" },
+  {
+    field: "email",
+    label: "Email",
+    type: "email",
+    placeholder: "name@example.com",
+  },
+  { field: "phone", label: "Phone", type: "tel", placeholder: "+1 555 0100" },
+  {
+    field: "howWeMet",
+    label: "How we met",
+    type: "text",
+    placeholder: "University, a conference…",
+  },
+];
+
+const inputClassName =
+  "w-full px-3 py-2 border border-sky-200 dark:border-sky-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white dark:bg-sky-900 dark:text-white text-sm text-sky-900 placeholder:text-sky-300";
+
+export function ProfilePanel({ node, onSave, onClose }: ProfilePanelProps) {
+  const [profile, setProfile] = useState<NodeProfile>(node.profile ?? {});
+  const [tagsText, setTagsText] = useState(
+    (node.profile?.tags ?? []).join(", ")
+  );
+
+  const update = (field: keyof NodeProfile, value: string) =>
+    setProfile((prev) => ({ ...prev, [field]: value }));
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave({ ...profile, tags: tagsText.split(",") });
+      }}
+      className="absolute top-3 left-3 z-30 w-80 max-h-[calc(100%-1.5rem)] overflow-y-auto p-4 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-sky-200 dark:border-sky-700 space-y-3"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-sky-900 dark:text-white truncate">
+          {node.name}
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close profile"
+          className="px-2 py-1 text-sm text-sky-500 hover:bg-sky-100 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+      {TEXT_FIELDS.map(({ field, label, type, placeholder }) => (
+        <label key={field} className="block">
+          <span className="block text-xs font-medium text-sky-700 dark:text-sky-300 mb-1">
+            {label}
+          </span>
+          <input
+            type={type}
+            value={profile[field] ?? ""}
+            onChange={(e) => update(field, e.target.value)}
+            placeholder={placeholder}
+            className={inputClassName}
+          />
+        </label>
+      ))}
+      <label className="block">
+        <span className="block text-xs font-medium text-sky-700 dark:text-sky-300 mb-1">
+          Date met
+        </span>
+        <input
+          type="date"
+          value={profile.dateMet ?? ""}
+          onChange={(e) => update("dateMet", e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block">
+        <span className="block text-xs font-medium text-sky-700 dark:text-sky-300 mb-1">
+          Tags
+        </span>
+        <input
+          type="text"
+          value={tagsText}
+          onChange={(e) => setTagsText(e.target.value)}
+          placeholder="climbing, investor, neighbour"
+          className={inputClassName}
+        />
+        <span className="block text-xs text-sky-400 mt-1">
+          Separate tags with commas
+        </span>
+      </label>
+      <label className="block">
+        <span className="block text-xs font-medium text-sky-700 dark:text-sky-300 mb-1">
+          Notes
+        </span>
+        <textarea
+          value={profile.notes ?? ""}
+          onChange={(e) => update("notes", e.target.value)}
+          rows={4}
+          className={inputClassName}
+        />
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="flex-1 px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm"
+        >
+          Save profile
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 text-sm text-sky-600 hover:bg-sky-100 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
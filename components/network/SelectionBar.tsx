@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import type { BubbleGroup } from "@/types/network";
+import { groupPath, groupTree } from "@/lib/groups";
+
+interface SelectionBarProps {
+  count: number;
+  /** How many of them can be deleted; the user's own node can't. */
+  deletableCount: number;
+  groups: BubbleGroup[];
+  onAddToGroup: (groupId: string) => void;
+  onRemoveFromGroup: (groupId: string) => void;
+  /** Whether the next node clicked gets linked to everyone selected. */
+  isLinking: boolean;
+  onToggleLinking: () => void;
+  allPinned: boolean;
+  onSetPinned: (pinned: boolean) => void;
+  /** People deleting the selection would cut off from the user. */
+  orphanCount: number;
+  onDelete: (dropOrphans: boolean) => void;
+  onClear: () => void;
+}
+
+/** Actions on several people at once, shown while some are selected. */
+export function SelectionBar({
+  count,
+  deletableCount,
+  groups,
+  onAddToGroup,
+  onRemoveFromGroup,
+  isLinking,
+  onToggleLinking,
+  allPinned,
+  onSetPinned,
+  orphanCount,
+  onDelete,
+  onClear,
+}: SelectionBarProps) {
+  const [groupId, setGroupId] = useState(groups[0]?.id ?? "");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  // Falls back to the first group if the chosen one is deleted.
+  const chosenGroupId = groups.some((g) => g.id === groupId)
+    ? groupId
+    : (groups[0]?.id ?? "");
+
+  return (
+    <div
+      role="toolbar"
+      aria-label={`${count} selected`}
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 max-w-[calc(100%-2rem)] p-2 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-violet-200 dark:border-violet-800 text-sm"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {isLinking ? (
+        <div className="flex items-center gap-3 px-2">
+          <span className="text-violet-800 dark:text-violet-200">
+            Click someone to connect the <strong>{count}</strong> selected to
+          </span>
+          <button
+            type="button"
+            onClick={onToggleLinking}
+            className="px-3 py-1 bg-violet-100 hover:bg-violet-200 text-violet-800 rounded transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : confirmDelete ? (
+        <div className="flex flex-wrap items-center gap-2 px-2">
+          <span className="text-rose-700 dark:text-rose-300">
+            Delete {deletableCount} and their connections?
+            {orphanCount > 0 &&
+              ` ${orphanCount} other ${
+                orphanCount === 1 ? "bubble" : "bubbles"
+              } will no longer be connected to you.`}
+          </span>
+          <button
+            type="button"
+            onClick={() => onDelete(false)}
+            className="px-3 py-1 bg-rose-500 hover:bg-rose-600 text-white font-medium rounded transition-colors"
+          >
+            {orphanCount > 0 ? "Delete, keep the others" : "Delete"}
+          </button>
+          {orphanCount > 0 && (
+            <button
+              type="button"
+              onClick={() => onDelete(true)}
+              className="px-3 py-1 bg-rose-700 hover:bg-rose-800 text-white font-medium rounded transition-colors"
+            >
+              Delete them too
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setConfirmDelete(false)}
+            className="px-3 py-1 text-rose-600 dark:text-rose-300 hover:bg-rose-100 dark:hover:bg-rose-900/40 rounded transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="px-2 font-medium text-violet-900 dark:text-violet-100">
+            {count} selected
+          </span>
+          {groups.length > 0 && (
+            <div className="flex gap-1">
+              <select
+                value={chosenGroupId}
+                onChange={(e) => setGroupId(e.target.value)}
+                aria-label="Group"
+                className="px-2 py-1 border border-violet-200 rounded bg-white text-violet-800"
+              >
+                {groupTree(groups).map(({ group }) => (
+                  <option key={group.id} value={group.id}>
+                    {groupPath(group, groups)}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onAddToGroup(chosenGroupId)}
+                className="px-2 py-1 bg-violet-500 hover:bg-violet-600 text-white rounded transition-colors"
+              >
+                Add to group
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemoveFromGroup(chosenGroupId)}
+                className="px-2 py-1 bg-violet-100 hover:bg-violet-200 text-violet-800 rounded transition-colors"
+              >
+                Remove
+              </button>
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={onToggleLinking}
+            className="px-2 py-1 bg-sky-100 hover:bg-sky-200 text-sky-800 rounded transition-colors"
+          >
+            Connect to…
+          </button>
+          <button
+            type="button"
+            onClick={() => onSetPinned(!allPinned)}
+            aria-pressed={allPinned}
+            className="px-2 py-1 bg-sky-100 hover:bg-sky-200 text-sky-800 rounded transition-colors"
+          >
+            {allPinned ? "Unpin" : "Pin"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirmDelete(true)}
+            disabled={deletableCount === 0}
+            className="px-2 py-1 bg-rose-100 hover:bg-rose-200 disabled:opacity-40 disabled:cursor-not-allowed text-rose-700 rounded transition-colors"
+          >
+            Delete
+          </button>
+          <button
+            type="button"
+            onClick={onClear}
+            aria-label="Clear selection"
+            className="px-2 py-1 text-sky-500 hover:bg-sky-100 rounded transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+
+// Links much longer than this get truncated by some chat apps and browsers.
+const LONG_URL_LENGTH = 8000;
+
+interface SharePanelProps {
+  url: string;
+  onClose: () => void;
+}
+
+export function SharePanel({ url, onClose }: SharePanelProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute top-3 left-1/2 -translate-x-1/2 z-30 w-[28rem] max-w-[calc(100%-1.5rem)] p-4 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-sky-200 dark:border-sky-700"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="font-semibold text-sky-900 dark:text-white">
+          Share a read-only link
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close share panel"
+          className="px-2 py-1 text-sm text-sky-500 hover:bg-sky-100 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="text-xs text-sky-500 mb-2">
+        The whole bubble is packed into the link itself; nothing is uploaded.
+        Anyone with the link can view it. Profiles, such as contact details
+        and notes, are left out.
+      </p>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          readOnly
+          value={url}
+          onFocus={(e) => e.target.select()}
+          aria-label="Share link"
+          className="flex-1 min-w-0 px-3 py-2 border border-sky-200 rounded-lg bg-sky-50 text-sky-900 text-xs font-mono"
+        />
+        <button
+          type="button"
+          onClick={copy}
+          className="px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-medium rounded-lg transition-colors text-sm shrink-0"
+        >
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      {url.length > LONG_URL_LENGTH && (
+        <p className="mt-2 text-xs text-amber-600">
+          This link is very long ({url.length.toLocaleString()} characters)
+          and may not survive every messaging app. Exporting a file is more
+          reliable for large bubbles.
+        </p>
+      )}
+    </div>
+  );
+}
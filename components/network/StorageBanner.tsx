@@ -0,0 +1,96 @@
+"use client";
+
+import type { StorageError } from "@/lib/storage";
+
+interface StorageBannerProps {
+  error: StorageError | null;
+  onDismissError: () => void;
+  /** Another tab saved this bubble while this one had unsaved edits. */
+  hasConflict: boolean;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  /** Why the bubble the user tried to open couldn't be loaded. */
+  openErrors: string[] | null;
+  onDismissOpenErrors: () => void;
+}
+
+/** Says when edits aren't being saved or a bubble won't open, and why. */
+export function StorageBanner({
+  error,
+  onDismissError,
+  hasConflict,
+  onKeepMine,
+  onTakeTheirs,
+  openErrors,
+  onDismissOpenErrors,
+}: StorageBannerProps) {
+  if (hasConflict) {
+    return (
+      <div
+        role="alert"
+        className="fixed top-4 left-1/2 -translate-x-1/2 z-50 max-w-[calc(100%-2rem)] px-4 py-3 bg-amber-50 border border-amber-300 rounded-lg shadow-lg flex flex-wrap items-center gap-3 text-sm"
+      >
+        <span className="text-amber-900">
+          This bubble was changed in another tab. Your latest edits here
+          haven&apos;t been saved.
+        </span>
+        <button
+          type="button"
+          onClick={onTakeTheirs}
+          className="px-3 py-1 bg-amber-500 hover:bg-amber-600 text-white font-medium rounded transition-colors"
+        >
+          Load their changes
+        </button>
+        <button
+          type="button"
+          onClick={onKeepMine}
+          className="px-3 py-1 bg-amber-100 hover:bg-amber-200 text-amber-900 rounded transition-colors"
+        >
+          Keep mine
+        </button>
+      </div>
+    );
+  }
+  if (openErrors) {
+    return (
+      <div
+        role="alert"
+        className="fixed top-4 left-1/2 -translate-x-1/2 z-50 max-w-[calc(100%-2rem)] px-4 py-3 bg-rose-50 border border-rose-300 rounded-lg shadow-lg text-sm"
+      >
+        <div className="flex items-start justify-between gap-3">
+          <p className="text-rose-800">This bubble couldn&apos;t be loaded:</p>
+          <button
+            type="button"
+            onClick={onDismissOpenErrors}
+            aria-label="Dismiss"
+            className="px-2 py-1 text-rose-500 hover:bg-rose-100 rounded transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+        <ul className="mt-1 space-y-0.5 text-xs text-rose-700 font-mono max-h-32 overflow-y-auto">
+          {openErrors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+  if (!error) return null;
+  return (
+    <div
+      role="alert"
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-50 max-w-[calc(100%-2rem)] px-4 py-3 bg-rose-50 border border-rose-300 rounded-lg shadow-lg flex items-center gap-3 text-sm"
+    >
+      <span className="text-rose-800">{error.message}</span>
+      <button
+        type="button"
+        onClick={onDismissError}
+        aria-label="Dismiss"
+        className="px-2 py-1 text-rose-500 hover:bg-rose-100 rounded transition-colors"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
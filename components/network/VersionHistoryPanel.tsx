@@ -0,0 +1,85 @@
+"use client";
+
+import type { BubbleSnapshot } from "@/types/network";
+
+interface VersionHistoryPanelProps {
+  /** Newest first. */
+  snapshots: BubbleSnapshot[];
+  onRestore: (snapshotId: string) => void;
+  onClose: () => void;
+}
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+/**
+ * Earlier versions of the bubble, kept automatically while it's edited.
+ * Restoring one is a single undoable step.
+ */
+export function VersionHistoryPanel({
+  snapshots,
+  onRestore,
+  onClose,
+}: VersionHistoryPanelProps) {
+  return (
+    <div
+      role="region"
+      aria-labelledby="version-history-heading"
+      className="absolute top-3 left-3 z-20 w-72 max-h-[calc(100%-1.5rem)] overflow-y-auto p-4 rounded-xl bg-white/95 dark:bg-sky-950/95 shadow-lg border border-sky-200 dark:border-sky-700"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2
+          id="version-history-heading"
+          className="font-semibold text-sky-900 dark:text-white"
+        >
+          Version history
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close version history"
+          className="px-2 py-1 text-sm text-sky-500 hover:bg-sky-100 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-sky-400">
+          No earlier versions yet. One is kept every ten minutes or so while
+          you edit.
+        </p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {snapshots.map((s) => (
+            <li
+              key={s.id}
+              className="flex items-center justify-between gap-2 p-2 rounded-lg bg-sky-50 dark:bg-sky-900/40"
+            >
+              <div className="min-w-0">
+                <time
+                  dateTime={new Date(s.savedAt).toISOString()}
+                  className="block text-sky-900 dark:text-sky-100"
+                >
+                  {new Date(s.savedAt).toLocaleString()}
+                </time>
+                <span className="text-xs text-sky-500">
+                  {plural(s.nodeCount, "bubble", "bubbles")} ·{" "}
+                  {plural(s.linkCount, "connection", "connections")}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => onRestore(s.id)}
+                className="shrink-0 px-2 py-1 text-xs bg-violet-100 hover:bg-violet-200 text-violet-800 rounded transition-colors"
+              >
+                Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import { act, cleanup, renderHook } from "@testing-library/react";
+import { useState } from "react";
+import type { BubbleGroup, LinkData, NodeData } from "@/types/network";
+import { loadHistoryFromStorage } from "@/lib/history";
+import { useBubbleHistory } from "@/hooks/use-bubble-history";
+
+const me: NodeData = { id: "me", name: "Me", type: "user", radius: 40 };
+const sam: NodeData = { id: "1", name: "Sam", type: "connection", radius: 20 };
+
+function useBubble() {
+  const [nodes, setNodes] = useState<NodeData[]>([me]);
+  const [links, setLinks] = useState<LinkData[]>([]);
+  const [groups, setGroups] = useState<BubbleGroup[]>([]);
+  const history = useBubbleHistory({
+    bubbleId: "bubble",
+    setNodes,
+    setLinks,
+    setGroups,
+  });
+  return { nodes, links, groups, setNodes, setLinks, history };
+}
+
+describe("useBubbleHistory", () => {
+  afterEach(cleanup);
+
+  it("forgets its steps when another tab's save replaces the bubble", () => {
+    const { result } = renderHook(useBubble);
+    act(() =>
+      result.current.history.execute({
+        label: "Add Sam",
+        ops: [
+          { type: "addNodes", nodes: [sam] },
+          { type: "addLinks", links: [{ source: "me", target: "1" }] },
+        ],
+      })
+    );
+    expect(result.current.history.canUndo).toBe(true);
+
+    // Another tab removed Sam; this tab takes its save.
+    act(() => {
+      result.current.setNodes([me]);
+      result.current.setLinks([]);
+      result.current.history.clearHistory();
+    });
+
+    expect(result.current.history.canUndo).toBe(false);
+    expect(result.current.history.canRedo).toBe(false);
+    let undone = null;
+    act(() => {
+      undone = result.current.history.undo();
+    });
+    expect(undone).toBeNull();
+    expect(result.current.nodes).toEqual([me]);
+    expect(loadHistoryFromStorage("bubble")).toEqual({
+      past: [],
+      future: [],
+    });
+  });
+});
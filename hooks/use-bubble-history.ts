@@ -0,0 +1,125 @@
+"use client";
+
+import {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import type { NodeData, LinkData, BubbleGroup } from "@/types/network";
+import {
+  EMPTY_HISTORY,
+  applyNodeOps,
+  applyLinkOps,
+  applyGroupOps,
+  invertCommand,
+  pushCommand,
+  loadHistoryFromStorage,
+  saveHistoryToStorage,
+  type HistoryCommand,
+  type HistoryState,
+} from "@/lib/history";
+
+interface UseBubbleHistoryOptions {
+  bubbleId: string | null;
+  setNodes: Dispatch<SetStateAction<NodeData[]>>;
+  setLinks: Dispatch<SetStateAction<LinkData[]>>;
+  setGroups: Dispatch<SetStateAction<BubbleGroup[]>>;
+}
+
+export function useBubbleHistory({
+  bubbleId,
+  setNodes,
+  setLinks,
+  setGroups,
+}: UseBubbleHistoryOptions) {
+  // The history is tagged with the bubble it belongs to so that switching
+  // bubbles never saves one bubble's history under another's key.
+  const [loaded, setLoaded] = useState<{
+    bubbleId: string | null;
+    history: HistoryState;
+  }>({ bubbleId: null, history: EMPTY_HISTORY });
+  const historyRef = useRef<HistoryState>(EMPTY_HISTORY);
+  const history = loaded.history;
+
+  const updateHistory = useCallback((next: HistoryState) => {
+    historyRef.current = next;
+    setLoaded((prev) => ({ ...prev, history: next }));
+  }, []);
+
+  /* eslint-disable */
+  // localStorage isn't available during SSR, so we must load in an effect.
+  useEffect(() => {
+    const next = bubbleId ? loadHistoryFromStorage(bubbleId) : EMPTY_HISTORY;
+    historyRef.current = next;
+    setLoaded({ bubbleId, history: next });
+  }, [bubbleId]);
+  /* eslint-enable */
+
+  useEffect(() => {
+    if (!loaded.bubbleId) return;
+    saveHistoryToStorage(loaded.bubbleId, loaded.history);
+  }, [loaded]);
+
+  const applyCommand = useCallback(
+    (command: HistoryCommand) => {
+      setNodes((prev) => applyNodeOps(prev, command.ops));
+      setLinks((prev) => applyLinkOps(prev, command.ops));
+      setGroups((prev) => applyGroupOps(prev, command.ops));
+    },
+    [setNodes, setLinks, setGroups]
+  );
+
+  const execute = useCallback(
+    (command: HistoryCommand | null) => {
+      if (!command || command.ops.length === 0) return;
+      applyCommand(command);
+      updateHistory(pushCommand(historyRef.current, command));
+    },
+    [applyCommand, updateHistory]
+  );
+
+  /** Reverts the latest command and returns the command that was applied. */
+  const undo = useCallback((): HistoryCommand | null => {
+    const { past, future } = historyRef.current;
+    const command = past[past.length - 1];
+    if (!command) return null;
+    const inverse = invertCommand(command);
+    applyCommand(inverse);
+    updateHistory({ past: past.slice(0, -1), future: [...future, command] });
+    return inverse;
+  }, [applyCommand, updateHistory]);
+
+  /** Re-applies the latest undone command and returns it. */
+  const redo = useCallback((): HistoryCommand | null => {
+    const { past, future } = historyRef.current;
+    const command = future[future.length - 1];
+    if (!command) return null;
+    applyCommand(command);
+    updateHistory({ past: [...past, command], future: future.slice(0, -1) });
+    return command;
+  }, [applyCommand, updateHistory]);
+
+  /**
+   * Forgets every step, e.g. once another tab's save replaces the bubble:
+   * the steps were recorded against contents that are gone, and replaying
+   * them could leave links to people who no longer exist.
+   */
+  const clearHistory = useCallback(
+    () => updateHistory(EMPTY_HISTORY),
+    [updateHistory]
+  );
+
+  return {
+    execute,
+    undo,
+    redo,
+    clearHistory,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[history.future.length - 1]?.label ?? null,
+  };
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import type {
+  NodeData,
+  LinkData,
+  BubbleGroup,
+  LayoutKind,
+} from "@/types/network";
+import type { LoadedBubble } from "@/lib/network-utils";
+import {
+  bubbleRevision,
+  loadBubbleFromStorage,
+  saveBubbleToStorage,
+} from "@/lib/bubble-library";
+import {
+  onStorageError,
+  watchChanges,
+  type StorageError,
+} from "@/lib/storage";
+
+/** How long edits settle before they're written, so drags save once. */
+const SAVE_DELAY_MS = 400;
+
+interface BubbleContents {
+  name: string;
+  nodes: NodeData[];
+  links: LinkData[];
+  groups: BubbleGroup[];
+  layout: LayoutKind;
+  frozen: boolean;
+}
+
+interface UseBubbleSyncOptions extends BubbleContents {
+  bubbleId: string | null;
+  /**
+   * Another tab saved the open bubble, or deleted it (null). Only called
+   * while this tab has nothing unsaved; otherwise it's a conflict.
+   */
+  onRemoteChange: (bubble: LoadedBubble | null) => void;
+  /** Another tab changed the library, e.g. added or renamed a bubble. */
+  onLibraryChange: () => void;
+}
+
+/**
+ * Saves the open bubble a moment after each edit, keeps it in step with
+ * other tabs, and reports writes that fail or would overwrite another
+ * tab's changes.
+ */
+export function useBubbleSync({
+  bubbleId,
+  name,
+  nodes,
+  links,
+  groups,
+  layout,
+  frozen,
+  onRemoteChange,
+  onLibraryChange,
+}: UseBubbleSyncOptions) {
+  const [storageError, setStorageError] = useState<StorageError | null>(
+    null
+  );
+  // Tagged with the bubble it's about, so switching bubbles clears it.
+  const [conflictBubbleId, setConflictBubbleId] = useState<string | null>(
+    null
+  );
+
+  /** The revision this tab's copy is based on. */
+  const revisionRef = useRef(0);
+  /** Edits waiting out the save delay, or held back by a conflict. */
+  const pendingRef = useRef<{
+    bubbleId: string;
+    bubble: BubbleContents;
+  } | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const conflictRef = useRef(false);
+  const handlersRef = useRef({ onRemoteChange, onLibraryChange });
+  useEffect(() => {
+    handlersRef.current = { onRemoteChange, onLibraryChange };
+  }, [onRemoteChange, onLibraryChange]);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    const pending = pendingRef.current;
+    if (!pending || conflictRef.current) return;
+    const { name, nodes, links, groups, layout, frozen } = pending.bubble;
+    const result = saveBubbleToStorage(
+      pending.bubbleId,
+      name,
+      nodes,
+      links,
+      groups,
+      layout,
+      frozen,
+      revisionRef.current
+    );
+    if (result.ok) {
+      pendingRef.current = null;
+      revisionRef.current = result.value;
+      setStorageError(null);
+    } else if (result.error.kind === "conflict") {
+      conflictRef.current = true;
+      setConflictBubbleId(pending.bubbleId);
+    } else if (result.error.kind === "missing") {
+      // Deleted here or in another tab; the change watcher closes it.
+      pendingRef.current = null;
+    }
+    // Failed writes are reported through onStorageError below, and retried
+    // by the storage layer with the next write.
+  }, []);
+
+  // Opening a bubble starts from its stored revision; leaving one saves
+  // whatever hadn't been written yet.
+  useEffect(() => {
+    revisionRef.current = bubbleId ? bubbleRevision(bubbleId) : 0;
+    conflictRef.current = false;
+    return flush;
+  }, [bubbleId, flush]);
+
+  useEffect(() => {
+    if (!bubbleId || !name.trim() || nodes.length === 0) return;
+    pendingRef.current = {
+      bubbleId,
+      bubble: { name, nodes, links, groups, layout, frozen },
+    };
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, SAVE_DELAY_MS);
+  }, [bubbleId, name, nodes, links, groups, layout, frozen, flush]);
+
+  // Closing or hiding the tab shouldn't lose the last edit.
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [flush]);
+
+  useEffect(() => onStorageError(setStorageError), []);
+
+  useEffect(
+    () =>
+      watchChanges(() => {
+        handlersRef.current.onLibraryChange();
+        if (!bubbleId) return;
+        const stored = loadBubbleFromStorage(bubbleId);
+        if (!stored) {
+          pendingRef.current = null;
+          handlersRef.current.onRemoteChange(null);
+          return;
+        }
+        const revision = bubbleRevision(bubbleId);
+        if (revision <= revisionRef.current) return;
+        // Edits that match what the other tab saved go through as a no-op;
+        // any others can't be merged, so the user picks a side.
+        flush();
+        if (conflictRef.current || revisionRef.current >= revision) return;
+        revisionRef.current = revision;
+        handlersRef.current.onRemoteChange(stored);
+      }),
+    [bubbleId, flush]
+  );
+
+  /** Overwrites the other tab's changes with this tab's. */
+  const keepMine = useCallback(() => {
+    if (!bubbleId) return;
+    revisionRef.current = bubbleRevision(bubbleId);
+    conflictRef.current = false;
+    setConflictBubbleId(null);
+    flush();
+  }, [bubbleId, flush]);
+
+  /** Drops this tab's unsaved edits in favour of the other tab's. */
+  const takeTheirs = useCallback(() => {
+    if (!bubbleId) return;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    pendingRef.current = null;
+    conflictRef.current = false;
+    setConflictBubbleId(null);
+    revisionRef.current = bubbleRevision(bubbleId);
+    handlersRef.current.onRemoteChange(loadBubbleFromStorage(bubbleId));
+  }, [bubbleId]);
+
+  const dismissStorageError = useCallback(() => setStorageError(null), []);
+
+  return {
+    /** Why the last write failed, until one succeeds or it's dismissed. */
+    storageError,
+    dismissStorageError,
+    hasConflict: bubbleId !== null && conflictBubbleId === bubbleId,
+    keepMine,
+    takeTheirs,
+    flush,
+  };
+}
@@ -0,0 +1,1003 @@
+"use client";
+
+import { useEffect, useRef, useCallback, type RefObject } from "react";
+import * as d3 from "d3";
+import type { GraphViewport, LayoutKind, Link, Node } from "@/types/network";
+import { linkDistance } from "@/lib/relationships";
+import {
+  applyLayoutForces,
+  applyPins,
+  applyGroupForces,
+  freezeNodes,
+  mergeSimulationNodes,
+} from "@/lib/layouts";
+import {
+  drawCanvasScene,
+  emptyCanvasScene,
+  findLinkAt,
+  findNodeAt,
+  renderCanvasSceneToPng,
+  type CanvasScene,
+} from "@/lib/canvas-renderer";
+import {
+  centredTransform,
+  fitTransform,
+  nodesInLasso,
+} from "@/lib/graph-scene";
+import {
+  GRAPH_ARIA_LABEL,
+  describeNode,
+  isArrowKey,
+  neighbourInDirection,
+} from "@/lib/graph-navigation";
+import {
+  COARSE_POINTER_QUERY,
+  clickDistanceFor,
+  createLongPress,
+  isTouchEvent,
+} from "@/lib/touch-gestures";
+import { groupHulls } from "@/lib/groups";
+import {
+  useGraphStructure,
+  type UseNetworkGraphOptions,
+} from "@/hooks/use-network-graph";
+
+export type UseCanvasNetworkGraphOptions = Omit<
+  UseNetworkGraphOptions,
+  "svgRef"
+> & {
+  canvasRef: RefObject<HTMLCanvasElement | null>;
+};
+
+function canvasFontFamily(canvas: HTMLCanvasElement): string {
+  return window.getComputedStyle(canvas).fontFamily || "sans-serif";
+}
+
+/**
+ * Canvas counterpart of `useNetworkGraph` for bubbles too big for one SVG
+ * element per person. The scene is redrawn from simulation data each frame,
+ * nodes under the pointer are found through a quadtree, and structural
+ * changes update the running simulation in place rather than rebuilding
+ * it, so existing people keep their positions.
+ */
+export function useCanvasNetworkGraph({
+  bubbleId,
+  submitted,
+  nodes,
+  links,
+  groups,
+  canvasRef,
+  setNodes,
+  setIsFrozen,
+  isFrozenRef,
+  highlightedNodeIds = null,
+  nodeStyles = null,
+  hiddenGroupIds = null,
+  previewGroups = null,
+  highlightedPath = null,
+  selectedNodeIds = null,
+  pinnedNodeIds = null,
+  layout = "force",
+  groupForces = false,
+  onNodeClick,
+  onNodeLongPress,
+  onNodeMove,
+  onNodesMove,
+  onToggleNodeSelection,
+  onLassoSelect,
+  onLinkClick,
+  onNodeHover,
+  onNodeFocus,
+  addLinkBetweenNodes,
+  addNodeToGroup,
+  pickPathNode,
+  linkFromNodeIdRef,
+  addToGroupIdRef,
+  isPathModeRef,
+}: UseCanvasNetworkGraphOptions) {
+  const simulationRef = useRef<d3.Simulation<Node, Link> | null>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<HTMLCanvasElement, unknown> | null>(
+    null
+  );
+  const sceneRef = useRef<CanvasScene>(emptyCanvasScene());
+  const requestDrawRef = useRef<() => void>(() => {});
+  const hasFlushedPositionsRef = useRef(false);
+  /** Zoom to fit once a bubble that had no saved positions settles. */
+  const needsFitRef = useRef(false);
+  /** The layout last applied to this bubble's scene. */
+  const previousLayoutRef = useRef<LayoutKind | null>(null);
+  /** Told whenever the view pans, zooms or the layout moves. */
+  const viewListenersRef = useRef(new Set<() => void>());
+  const handlersRef = useRef({
+    onNodeClick,
+    onNodeLongPress,
+    onNodeMove,
+    onNodesMove,
+    onToggleNodeSelection,
+    onLassoSelect,
+    onLinkClick,
+    onNodeHover,
+    onNodeFocus,
+    addLinkBetweenNodes,
+    addNodeToGroup,
+    pickPathNode,
+  });
+
+  const graphStructure = useGraphStructure(nodes, links, groups);
+
+  // The scene lives as long as the bubble, so handlers are read through a
+  // ref rather than rebuilding it whenever a callback changes identity.
+  useEffect(() => {
+    handlersRef.current = {
+      onNodeClick,
+      onNodeLongPress,
+      onNodeMove,
+      onNodesMove,
+      onToggleNodeSelection,
+      onLassoSelect,
+      onLinkClick,
+      onNodeHover,
+      onNodeFocus,
+      addLinkBetweenNodes,
+      addNodeToGroup,
+      pickPathNode,
+    };
+  });
+  // Keyed effects below read the latest values through these refs rather
+  // than re-running whenever they change.
+  const bubbleRef = useRef({ nodes, links, groups });
+  const pinnedNodeIdsRef = useRef(pinnedNodeIds);
+  const hiddenGroupIdsRef = useRef(hiddenGroupIds);
+  useEffect(() => {
+    bubbleRef.current = { nodes, links, groups };
+    pinnedNodeIdsRef.current = pinnedNodeIds;
+    hiddenGroupIdsRef.current = hiddenGroupIds;
+  });
+
+  // ── Scene setup: canvas, zoom, pointer handling, simulation ──
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!submitted || !canvas) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    sceneRef.current = emptyCanvasScene();
+    needsFitRef.current = false;
+    hasFlushedPositionsRef.current = false;
+    // A new bubble opens in its own layout rather than switching to it.
+    previousLayoutRef.current = null;
+    const fontFamily = canvasFontFamily(canvas);
+    let transform = d3.zoomIdentity;
+    let width = 0;
+    let height = 0;
+    let pixelRatio = 1;
+
+    const draw = () => {
+      drawCanvasScene(ctx, sceneRef.current, transform, {
+        width,
+        height,
+        pixelRatio,
+        fontFamily,
+      });
+    };
+    let frame = 0;
+    const notifyView = () =>
+      viewListenersRef.current.forEach((listener) => listener());
+    const requestDraw = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        draw();
+      });
+    };
+    requestDrawRef.current = requestDraw;
+
+    const resize = () => {
+      ({ width, height } = sceneSize(canvas));
+      pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+      draw();
+    };
+    resize();
+    const resizeObserver = new ResizeObserver(resize);
+    resizeObserver.observe(canvas);
+
+    // Rebuilt lazily: the layout moves every tick but the pointer doesn't.
+    let tree: d3.Quadtree<Node> | null = null;
+    let treeNodes: Node[] = [];
+    let maxRadius = 0;
+    const nodeAt = (x: number, y: number) => {
+      if (!tree || treeNodes !== sceneRef.current.nodes) {
+        treeNodes = sceneRef.current.nodes;
+        const placed = treeNodes.filter((n) => n.x != null);
+        tree = d3
+          .quadtree<Node>()
+          .x((d) => d.x!)
+          .y((d) => d.y!)
+          .addAll(placed);
+        maxRadius = d3.max(placed, (n) => n.radius) ?? 0;
+      }
+      return findNodeAt(tree, x, y, maxRadius);
+    };
+    // Screen position of a mouse event, or of the finger a touch event
+    // is about.
+    const pointerOnCanvas = (event: Event) =>
+      d3.pointer(
+        isTouchEvent(event) ? (event as TouchEvent).changedTouches[0] : event,
+        canvas
+      );
+    const pointerInScene = (event: Event) =>
+      transform.invert(pointerOnCanvas(event));
+
+    const simulation = d3
+      .forceSimulation<Node>([])
+      .force(
+        "link",
+        d3
+          .forceLink<Node, Link>([])
+          .id((d) => d.id)
+          .distance(linkDistance)
+      )
+      .force("charge", d3.forceManyBody().strength(-400))
+      .force("center", d3.forceCenter(width / 2, height / 2))
+      .force(
+        "collision",
+        d3.forceCollide<Node>().radius((d) => d.radius + 15)
+      );
+    simulationRef.current = simulation;
+
+    simulation.on("tick", () => {
+      tree = null;
+      requestDraw();
+      notifyView();
+      if (simulation.alpha() >= 0.1) return;
+      if (!hasFlushedPositionsRef.current) {
+        hasFlushedPositionsRef.current = true;
+        // Merge positions into current state rather than replacing nodes,
+        // so edits made while the layout settled (e.g. profiles) survive.
+        const positions = sceneRef.current.nodesById;
+        setNodes((prev) =>
+          prev.map((n) => {
+            const simNode = positions.get(n.id);
+            return simNode ? { ...n, x: simNode.x, y: simNode.y } : n;
+          })
+        );
+      }
+      if (needsFitRef.current) {
+        needsFitRef.current = false;
+        const fit = fitTransform(sceneRef.current.nodes, width, height, 1);
+        if (fit) {
+          d3.select(canvas)
+            .transition()
+            .duration(750)
+            .call(zoom.transform, fit);
+        }
+      }
+    });
+
+    // ── Zoom and pan ──────────────────────────────────────────
+
+    const coarse = window.matchMedia(COARSE_POINTER_QUERY).matches;
+    const zoom = d3
+      .zoom<HTMLCanvasElement, unknown>()
+      .scaleExtent([0.05, 3])
+      .clickDistance(clickDistanceFor(coarse))
+      // Shift-dragging the background draws a lasso rather than panning.
+      .filter(
+        (event) =>
+          (!event.ctrlKey || event.type === "wheel") &&
+          !event.button &&
+          !(
+            event.shiftKey &&
+            event.type !== "wheel" &&
+            handlersRef.current.onLassoSelect
+          )
+      )
+      .on("zoom", (event) => {
+        transform = event.transform;
+        requestDraw();
+        notifyView();
+      });
+    zoomRef.current = zoom;
+
+    // ── Dragging nodes ────────────────────────────────────────
+
+    // On touch, holding still on someone long-presses them instead of
+    // dragging. Lifting the finger where it is opens their details;
+    // dragging on to someone else links the two.
+    let pressed: Node | null = null;
+    /** When a long press last ended, to ignore the click that may follow. */
+    let longPressEndedAt = 0;
+    const longPress = createLongPress(() => {
+      if (!pressed) return;
+      sceneRef.current.connectPreview = {
+        fromId: pressed.id,
+        x: pressed.x!,
+        y: pressed.y!,
+      };
+      requestDraw();
+    });
+    const finishLongPress = (from: Node, x: number, y: number) => {
+      sceneRef.current.connectPreview = null;
+      requestDraw();
+      longPressEndedAt = performance.now();
+      const target = nodeAt(x, y);
+      if (target && target !== from) {
+        handlersRef.current.addLinkBetweenNodes?.(from.id, target.id);
+      } else if (target === from) {
+        const [sx, sy] = transform.apply([from.x!, from.y!]);
+        handlersRef.current.onNodeLongPress?.(from.id, sx, sy);
+      }
+    };
+
+    /** Who the current drag is moving, and where each of them started. */
+    let dragged: { node: Node; from: { x: number; y: number } }[] = [];
+    const drag = d3
+      .drag<HTMLCanvasElement, unknown, Node | undefined>()
+      // A second finger makes it a pinch, which is the zoom's to handle.
+      .filter(
+        (event) =>
+          !event.ctrlKey && !event.button && !(event.touches?.length > 1)
+      )
+      .subject((event) => {
+        const [x, y] = pointerInScene(event.sourceEvent);
+        return nodeAt(x, y);
+      })
+      .on("start", (event) => {
+        const d = event.subject!;
+        longPress.reset();
+        if (isTouchEvent(event.sourceEvent)) {
+          pressed = d;
+          longPress.start(...pointerOnCanvas(event.sourceEvent));
+        }
+        // A frozen layout stays still; only whoever is dragged moves.
+        if (!event.active && !isFrozenRef.current) {
+          simulation.alphaTarget(0.3).restart();
+        }
+        // Dragging someone who is selected brings the rest along.
+        const selected = sceneRef.current.selectedNodeIds;
+        const moving = selected?.has(d.id)
+          ? sceneRef.current.nodes.filter((n) => selected.has(n.id))
+          : [d];
+        dragged = moving.map((node) => {
+          node.fx = node.x;
+          node.fy = node.y;
+          return { node, from: { x: node.x!, y: node.y! } };
+        });
+        canvas.style.cursor = "grabbing";
+      })
+      .on("drag", (event) => {
+        longPress.move(...pointerOnCanvas(event.sourceEvent));
+        const [x, y] = pointerInScene(event.sourceEvent);
+        if (longPress.fired()) {
+          const preview = sceneRef.current.connectPreview;
+          if (preview) {
+            preview.x = x;
+            preview.y = y;
+            requestDraw();
+          }
+          return;
+        }
+        const dx = x - event.subject!.fx!;
+        const dy = y - event.subject!.fy!;
+        dragged.forEach(({ node }) => {
+          node.fx = node.fx! + dx;
+          node.fy = node.fy! + dy;
+          // Nothing ticks while frozen, so move them by hand.
+          if (isFrozenRef.current) {
+            node.x = node.fx;
+            node.y = node.fy;
+          }
+        });
+        if (isFrozenRef.current) {
+          tree = null;
+          requestDraw();
+          notifyView();
+        }
+      })
+      .on("end", (event) => {
+        canvas.style.cursor = "grab";
+        if (longPress.fired() && pressed) {
+          finishLongPress(pressed, ...pointerInScene(event.sourceEvent));
+        }
+        longPress.reset();
+        pressed = null;
+        if (!event.active) simulation.alphaTarget(0);
+        const pinned = pinnedNodeIdsRef.current;
+        const moves = dragged.map(({ node, from }) => {
+          const to = { x: node.fx ?? node.x!, y: node.fy ?? node.y! };
+          // Pinned people, and everyone in a frozen layout, stay where
+          // they're dropped.
+          if (!pinned?.has(node.id) && !isFrozenRef.current) {
+            node.fx = null;
+            node.fy = null;
+          }
+          return { id: node.id, from, to };
+        });
+        dragged = [];
+        const handlers = handlersRef.current;
+        if (moves.length === 1) {
+          handlers.onNodeMove?.(moves[0].id, moves[0].from, moves[0].to);
+        } else if (moves.length > 1) {
+          handlers.onNodesMove?.(moves);
+        }
+      });
+
+    // Dragging has to see pointer-downs before zoom, which would pan. The
+    // canvas outlives the bubble, so its last zoom is reset too.
+    d3.select(canvas)
+      .call(drag)
+      .call(zoom)
+      .call(zoom.transform, d3.zoomIdentity);
+
+    // ── Clicks and hover ──────────────────────────────────────
+
+    // What a click does, and Enter or Space on the focused person. Holding
+    // Shift adds them to or takes them out of the selection instead.
+    const activateNode = (node: Node, shiftKey: boolean) => {
+      const handlers = handlersRef.current;
+      if (shiftKey && handlers.onToggleNodeSelection) {
+        handlers.onToggleNodeSelection(node.id);
+        return;
+      }
+      if (isPathModeRef?.current) {
+        handlers.pickPathNode?.(node.id);
+        return;
+      }
+      const addToGroupId = addToGroupIdRef?.current;
+      if (addToGroupId) {
+        handlers.addNodeToGroup?.(addToGroupId, node.id);
+        return;
+      }
+      const linkFromNodeId = linkFromNodeIdRef?.current;
+      if (linkFromNodeId) {
+        handlers.addLinkBetweenNodes?.(linkFromNodeId, node.id);
+        return;
+      }
+      const [sx, sy] = transform.apply([node.x!, node.y!]);
+      handlers.onNodeClick?.(node.id, sx, sy);
+    };
+
+    // d3 swallows the click that ends a drag or pan, so this only sees
+    // real clicks.
+    const handleClick = (event: MouseEvent) => {
+      if (suppressClick) {
+        // The click that ends a lasso would otherwise clear selection.
+        suppressClick = false;
+        event.stopPropagation();
+        return;
+      }
+      if (performance.now() - longPressEndedAt < 400) return;
+      const handlers = handlersRef.current;
+      const [x, y] = pointerInScene(event);
+      const node = nodeAt(x, y);
+      if (node) {
+        // Keep the click from reaching the page, which clears selection.
+        event.stopPropagation();
+        activateNode(node, event.shiftKey);
+        return;
+      }
+      if (!handlers.onLinkClick) return;
+      const link = findLinkAt(sceneRef.current.links, x, y, transform.k);
+      if (!link) return;
+      event.stopPropagation();
+      const [px, py] = d3.pointer(event, canvas);
+      handlers.onLinkClick(
+        {
+          source: (link.source as Node).id,
+          target: (link.target as Node).id,
+        },
+        px,
+        py
+      );
+    };
+
+    const setHovered = (node: Node | undefined) => {
+      const id = node?.id ?? null;
+      if (id === sceneRef.current.hoveredNodeId) return;
+      sceneRef.current.hoveredNodeId = id;
+      canvas.style.cursor = node ? "grab" : "default";
+      requestDraw();
+      if (node) {
+        const [sx, sy] = transform.apply([node.x!, node.y!]);
+        handlersRef.current.onNodeHover?.(node.id, sx, sy);
+      } else {
+        handlersRef.current.onNodeHover?.(null, 0, 0);
+      }
+    };
+    // A finger never hovers; its pointer moves are taps and drags.
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.buttons || event.pointerType === "touch") return;
+      const [x, y] = pointerInScene(event);
+      setHovered(nodeAt(x, y));
+    };
+    const handlePointerLeave = () => setHovered(undefined);
+    // Long presses are ours, not the browser's context menu.
+    const handleContextMenu = (event: MouseEvent) => {
+      if (coarse) event.preventDefault();
+    };
+
+    // ── Lasso ─────────────────────────────────────────────────
+
+    // Shift-dragging the background draws a loop in scene coordinates;
+    // whoever ends up inside it is selected.
+    let suppressClick = false;
+    const handleLassoDown = (event: PointerEvent) => {
+      suppressClick = false;
+      if (!event.shiftKey || event.button !== 0) return;
+      if (!handlersRef.current.onLassoSelect) return;
+      const point = pointerInScene(event);
+      if (nodeAt(...point)) return;
+      sceneRef.current.lasso = [point];
+      canvas.setPointerCapture(event.pointerId);
+    };
+    const handleLassoMove = (event: PointerEvent) => {
+      const lasso = sceneRef.current.lasso;
+      if (!lasso) return;
+      lasso.push(pointerInScene(event));
+      requestDraw();
+    };
+    const handleLassoEnd = (event: PointerEvent) => {
+      const lasso = sceneRef.current.lasso;
+      if (!lasso) return;
+      sceneRef.current.lasso = null;
+      requestDraw();
+      if (event.type === "pointercancel" || lasso.length < 3) return;
+      suppressClick = true;
+      handlersRef.current.onLassoSelect?.(
+        nodesInLasso(sceneRef.current.nodes, lasso).map((n) => n.id)
+      );
+    };
+
+    // ── Keyboard ──────────────────────────────────────────────
+
+    // The canvas is one tab stop; arrow keys move a focus ring between
+    // people and its label tells screen readers who is focused.
+    let lastFocusedId: string | null = null;
+    const setFocused = (node: Node | undefined) => {
+      const scene = sceneRef.current;
+      scene.focusedNodeId = node?.id ?? null;
+      if (node) lastFocusedId = node.id;
+      canvas.setAttribute(
+        "aria-label",
+        node
+          ? describeNode(bubbleRef.current, node.id)
+          : GRAPH_ARIA_LABEL
+      );
+      if (node?.x != null && node.y != null) {
+        const [sx, sy] = transform.apply([node.x, node.y]);
+        if (sx < 0 || sy < 0 || sx > width || sy > height) {
+          d3.select(canvas)
+            .transition()
+            .duration(300)
+            .call(
+              zoom.transform,
+              centredTransform(node.x, node.y, transform.k, width, height)
+            );
+        }
+      }
+      requestDraw();
+      handlersRef.current.onNodeFocus?.(node?.id ?? null);
+    };
+    const focusTabStop = () => {
+      const { nodes: all, nodesById } = sceneRef.current;
+      setFocused(
+        (lastFocusedId ? nodesById.get(lastFocusedId) : undefined) ??
+          all.find((n) => n.type === "user") ??
+          all[0]
+      );
+    };
+    // Clicking focuses the canvas too, but only keyboard focus gets a ring.
+    const handleFocus = () => {
+      if (canvas.matches(":focus-visible")) focusTabStop();
+    };
+    const handleBlur = () => setFocused(undefined);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { focusedNodeId, nodes: all, nodesById, links } = sceneRef.current;
+      const focused = focusedNodeId ? nodesById.get(focusedNodeId) : undefined;
+      if (!focused) {
+        if (isArrowKey(event.key) || event.key === "Home") {
+          event.preventDefault();
+          focusTabStop();
+        }
+        return;
+      }
+      if (event.key === "Enter" || event.key === " ") {
+        event.preventDefault();
+        activateNode(focused, event.shiftKey);
+      } else if (event.key === "Home") {
+        const user = all.find((n) => n.type === "user");
+        if (!user) return;
+        event.preventDefault();
+        setFocused(user);
+      } else if (isArrowKey(event.key)) {
+        event.preventDefault();
+        const neighbours = links.flatMap((l) => {
+          const [source, target] = [l.source as Node, l.target as Node];
+          if (source.id === focused.id) return [target];
+          if (target.id === focused.id) return [source];
+          return [];
+        });
+        const next = neighbourInDirection(focused, neighbours, event.key);
+        if (next) setFocused(next);
+      }
+    };
+
+    canvas.tabIndex = 0;
+    canvas.setAttribute("role", "application");
+    canvas.setAttribute("aria-label", GRAPH_ARIA_LABEL);
+    // Touches belong to the graph, not to scrolling or zooming the page.
+    canvas.style.touchAction = "none";
+    canvas.style.userSelect = "none";
+    canvas.addEventListener("click", handleClick);
+    canvas.addEventListener("pointermove", handlePointerMove);
+    canvas.addEventListener("pointerleave", handlePointerLeave);
+    canvas.addEventListener("contextmenu", handleContextMenu);
+    canvas.addEventListener("pointerdown", handleLassoDown);
+    canvas.addEventListener("pointermove", handleLassoMove);
+    canvas.addEventListener("pointerup", handleLassoEnd);
+    canvas.addEventListener("pointercancel", handleLassoEnd);
+    canvas.addEventListener("focus", handleFocus);
+    canvas.addEventListener("blur", handleBlur);
+    canvas.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      canvas.removeEventListener("click", handleClick);
+      canvas.removeEventListener("pointermove", handlePointerMove);
+      canvas.removeEventListener("pointerleave", handlePointerLeave);
+      canvas.removeEventListener("contextmenu", handleContextMenu);
+      canvas.removeEventListener("pointerdown", handleLassoDown);
+      canvas.removeEventListener("pointermove", handleLassoMove);
+      canvas.removeEventListener("pointerup", handleLassoEnd);
+      canvas.removeEventListener("pointercancel", handleLassoEnd);
+      canvas.removeEventListener("focus", handleFocus);
+      canvas.removeEventListener("blur", handleBlur);
+      canvas.removeEventListener("keydown", handleKeyDown);
+      d3.select(canvas).on(".drag", null).on(".zoom", null);
+      resizeObserver.disconnect();
+      cancelAnimationFrame(frame);
+      longPress.reset();
+      simulation.stop();
+      simulationRef.current = null;
+      requestDrawRef.current = () => {};
+    };
+  }, [
+    bubbleId,
+    submitted,
+    canvasRef,
+    setNodes,
+    isFrozenRef,
+    isPathModeRef,
+    addToGroupIdRef,
+    linkFromNodeIdRef,
+  ]);
+
+  // ── Structural changes, applied in place ────────────────────
+
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    const { nodes, links, groups } = bubbleRef.current;
+    const previous = sceneRef.current.nodesById;
+    const isFirstLoad = previous.size === 0;
+
+    const nodesData = mergeSimulationNodes(
+      nodes,
+      links,
+      previous,
+      sceneCenter(canvasRef.current)
+    );
+    const nodesById = new Map(nodesData.map((n) => [n.id, n]));
+    const linksData: Link[] = links.map((l) => ({ ...l }));
+
+    simulation.nodes(nodesData);
+    simulation.force<d3.ForceLink<Node, Link>>("link")?.links(linksData);
+    sceneRef.current = {
+      ...sceneRef.current,
+      nodes: nodesData,
+      nodesById,
+      links: linksData,
+      groups: groupHulls(groups, hiddenGroupIdsRef.current),
+    };
+
+    hasFlushedPositionsRef.current = false;
+    if (isFirstLoad) {
+      needsFitRef.current = nodes.some((n) => n.x == null || n.y == null);
+      // A bubble saved frozen opens just as it was left.
+      if (isFrozenRef.current) freezeNodes(nodesData);
+      simulation.alpha(1).restart();
+    } else if (isFrozenRef.current) {
+      // A frozen bubble stays frozen; newcomers stay where they were put.
+      freezeNodes(nodesData.filter((n) => !previous.has(n.id)));
+    } else {
+      // A gentle nudge so newcomers find their place without the rest of
+      // the bubble jumping.
+      simulation.alpha(Math.max(simulation.alpha(), 0.3)).restart();
+    }
+    requestDrawRef.current();
+    // Keyed on graphStructure, with the bubble read from bubbleRef, so
+    // position-only updates flushing to state don't re-run it.
+  }, [bubbleId, submitted, graphStructure, canvasRef, isFrozenRef]);
+
+  // ── Display-only updates ────────────────────────────────────
+
+  // Renames, membership and group style changes leave the structure keys
+  // alone.
+  useEffect(() => {
+    const names = new Map(nodes.map((n) => [n.id, n.name]));
+    sceneRef.current.nodes.forEach((n) => {
+      n.name = names.get(n.id) ?? n.name;
+    });
+    sceneRef.current.groups = groupHulls(groups, hiddenGroupIds);
+    requestDrawRef.current();
+  }, [nodes, groups, hiddenGroupIds]);
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    scene.litNodeIds = highlightedPath
+      ? new Set(highlightedPath)
+      : highlightedNodeIds;
+    scene.pathNodeIds = highlightedPath;
+    scene.previewGroups = previewGroups ?? [];
+    scene.selectedNodeIds = selectedNodeIds;
+    requestDrawRef.current();
+  }, [
+    highlightedNodeIds,
+    highlightedPath,
+    previewGroups,
+    selectedNodeIds,
+    bubbleId,
+    submitted,
+    graphStructure,
+  ]);
+
+  // Resized nodes need their collision radius updated too, so the layout
+  // makes room for them.
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const baseRadius = new Map(
+      bubbleRef.current.nodes.map((n) => [n.id, n.radius])
+    );
+    let resized = false;
+    scene.nodes.forEach((d) => {
+      const radius =
+        nodeStyles?.get(d.id)?.radius ?? baseRadius.get(d.id) ?? d.radius;
+      if (radius !== d.radius) resized = true;
+      d.radius = radius;
+    });
+    scene.nodeStyles = nodeStyles;
+    const simulation = simulationRef.current;
+    if (resized && simulation) {
+      simulation
+        .force<d3.ForceCollide<Node>>("collision")
+        ?.radius((d) => d.radius + 15);
+      if (!isFrozenRef.current) {
+        simulation.alpha(Math.max(simulation.alpha(), 0.3)).restart();
+      }
+    }
+    requestDrawRef.current();
+  }, [nodeStyles, bubbleId, submitted, graphStructure, isFrozenRef]);
+
+  // Holds pinned people in place and marks them. Unpinning lets them go
+  // unless the whole layout is frozen, which holds everyone anyway.
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    sceneRef.current.pinnedNodeIds = pinnedNodeIds ?? null;
+    applyPins(simulation, pinnedNodeIds, isFrozenRef.current);
+    requestDrawRef.current();
+  }, [pinnedNodeIds, bubbleId, submitted, graphStructure, isFrozenRef]);
+
+  // ── Layout ──────────────────────────────────────────────────
+
+  const layoutKey =
+    layout === "clustered"
+      ? `${layout}:${groups.map((g) => g.memberNodeIds.join(",")).join("|")}`
+      : layout;
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    const apply = () =>
+      applyLayoutForces(
+        simulation,
+        layout,
+        bubbleRef.current,
+        sceneCenter(canvasRef.current)
+      );
+    apply();
+
+    const previous = previousLayoutRef.current;
+    previousLayoutRef.current = layout;
+    if (previous !== null && previous !== layout) {
+      applyPins(simulation, pinnedNodeIdsRef.current, false);
+      setIsFrozen(false);
+      hasFlushedPositionsRef.current = false;
+      simulation.alpha(1).restart();
+    } else if (!isFrozenRef.current) {
+      simulation.alpha(Math.max(simulation.alpha(), 0.3)).restart();
+    }
+
+    window.addEventListener("resize", apply);
+    return () => window.removeEventListener("resize", apply);
+  }, [
+    layout,
+    layoutKey,
+    bubbleId,
+    submitted,
+    graphStructure,
+    canvasRef,
+    setIsFrozen,
+    isFrozenRef,
+  ]);
+
+  // Group forces follow memberships and nesting. Turning them on or off
+  // reheats the layout, and where people end up is saved as usual.
+  const groupForceKey = groupForces
+    ? groups
+        .map((g) => [g.id, g.parentId, g.memberNodeIds.join(",")].join(":"))
+        .join("|")
+    : "";
+  const hadGroupForcesRef = useRef(false);
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    applyGroupForces(simulation, bubbleRef.current.groups, groupForces);
+    const toggled = hadGroupForcesRef.current !== groupForces;
+    hadGroupForcesRef.current = groupForces;
+    if (isFrozenRef.current || (!groupForces && !toggled)) return;
+    hasFlushedPositionsRef.current = false;
+    simulation.alpha(Math.max(simulation.alpha(), 0.5)).restart();
+  }, [
+    groupForces,
+    groupForceKey,
+    bubbleId,
+    submitted,
+    graphStructure,
+    isFrozenRef,
+  ]);
+
+  // ── Navigation ──────────────────────────────────────────────
+
+  const zoomTo = useCallback(
+    (transform: d3.ZoomTransform | null, duration = 750) => {
+      const zoom = zoomRef.current;
+      if (!canvasRef.current || !zoom || !transform) return;
+      d3.select(canvasRef.current)
+        .transition()
+        .duration(duration)
+        .call(zoom.transform, transform);
+    },
+    [canvasRef]
+  );
+
+  /** Pans and zooms so `nodeId` sits in the middle of the view. */
+  const focusNode = useCallback(
+    (nodeId: string) => {
+      const canvas = canvasRef.current;
+      const target = sceneRef.current.nodesById.get(nodeId);
+      if (!canvas || target?.x == null || target.y == null) return;
+      const { width, height } = canvas.getBoundingClientRect();
+      const scale = Math.min(3, Math.max(d3.zoomTransform(canvas).k, 1.5));
+      zoomTo(centredTransform(target.x, target.y, scale, width, height));
+    },
+    [canvasRef, zoomTo]
+  );
+
+  /** Zooms so the given people, or everyone when left out, fill the view. */
+  const zoomToNodes = useCallback(
+    (nodeIds?: string[]) => {
+      const all = sceneRef.current.nodes;
+      const wanted = nodeIds && new Set(nodeIds);
+      const { width, height } = sceneSize(canvasRef.current);
+      // Everyone can shrink to fit, but a few people shouldn't fill it.
+      zoomTo(
+        fitTransform(
+          wanted ? all.filter((n) => wanted.has(n.id)) : all,
+          width,
+          height,
+          wanted ? 2 : 1
+        )
+      );
+    },
+    [canvasRef, zoomTo]
+  );
+
+  /** Pans, keeping the zoom, so scene point (x, y) is in the middle. */
+  const panTo = useCallback(
+    (x: number, y: number) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const { width, height } = canvas.getBoundingClientRect();
+      const { k } = d3.zoomTransform(canvas);
+      zoomTo(centredTransform(x, y, k, width, height), 0);
+    },
+    [canvasRef, zoomTo]
+  );
+
+  const getViewport = useCallback((): GraphViewport | null => {
+    const canvas = canvasRef.current;
+    if (!canvas || !simulationRef.current) return null;
+    const { width, height } = canvas.getBoundingClientRect();
+    return {
+      transform: d3.zoomTransform(canvas),
+      width,
+      height,
+      nodes: sceneRef.current.nodes,
+      links: sceneRef.current.links,
+    };
+  }, [canvasRef]);
+
+  /** Calls `listener` as the view changes; returns an unsubscribe. */
+  const subscribeToView = useCallback((listener: () => void) => {
+    viewListenersRef.current.add(listener);
+    return () => {
+      viewListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  // Moves simulation nodes to positions restored outside of a drag (e.g. by
+  // undo/redo), since position-only state changes don't touch the scene.
+  const syncNodePositions = useCallback(
+    (positions: { id: string; x: number; y: number }[]) => {
+      const sim = simulationRef.current;
+      if (!sim) return;
+      positions.forEach((p) => {
+        const n = sceneRef.current.nodesById.get(p.id);
+        if (!n) return;
+        n.x = p.x;
+        n.y = p.y;
+        n.vx = 0;
+        n.vy = 0;
+        if (n.fx != null) n.fx = p.x;
+        if (n.fy != null) n.fy = p.y;
+      });
+      sim.alpha(Math.max(sim.alpha(), 0.05)).restart();
+    },
+    []
+  );
+
+  /** The scene as a PNG, `scale` pixels per unit; null when it's empty. */
+  const exportPng = useCallback(
+    (scale: number) =>
+      canvasRef.current
+        ? renderCanvasSceneToPng(
+            sceneRef.current,
+            scale,
+            canvasFontFamily(canvasRef.current)
+          )
+        : Promise.resolve(null),
+    [canvasRef]
+  );
+
+  return {
+    simulationRef,
+    syncNodePositions,
+    focusNode,
+    zoomToNodes,
+    panTo,
+    getViewport,
+    subscribeToView,
+    exportPng,
+  };
+}
+
+function sceneSize(canvas: HTMLCanvasElement | null): {
+  width: number;
+  height: number;
+} {
+  const rect = canvas?.getBoundingClientRect();
+  return {
+    width: rect?.width || window.innerWidth - 64,
+    height: Math.max(rect?.height || 600, 600),
+  };
+}
+
+function sceneCenter(canvas: HTMLCanvasElement | null): {
+  x: number;
+  y: number;
+} {
+  const { width, height } = sceneSize(canvas);
+  return { x: width / 2, y: height / 2 };
+}
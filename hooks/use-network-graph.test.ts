@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, renderHook } from "@testing-library/react";
+import type { LayoutKind, NodeData } from "@/types/network";
+import { useNetworkGraph } from "@/hooks/use-network-graph";
+
+function people(prefix: string): NodeData[] {
+  return [
+    { id: `${prefix}-me`, name: "Me", type: "user", radius: 40, x: 0, y: 0 },
+    {
+      id: `${prefix}-1`,
+      name: "Sam",
+      type: "connection",
+      radius: 20,
+      x: 50,
+      y: 0,
+    },
+  ];
+}
+
+describe("useNetworkGraph", () => {
+  beforeEach(() => {
+    window.matchMedia = vi.fn().mockReturnValue({
+      matches: false,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    });
+  });
+  afterEach(cleanup);
+
+  it("opens a frozen bubble frozen after one with another layout", () => {
+    const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    // jsdom doesn't lay out SVG, and d3-zoom reads its size from these.
+    Object.defineProperties(svg, {
+      width: { value: { baseVal: { value: 800 } } },
+      height: { value: { baseVal: { value: 600 } } },
+    });
+    document.body.append(svg);
+    const svgRef = { current: svg };
+    const setIsFrozen = vi.fn();
+    const isFrozenRef = { current: false };
+    const { rerender } = renderHook(
+      ({ bubbleId, layout }: { bubbleId: string; layout: LayoutKind }) =>
+        useNetworkGraph({
+          bubbleId,
+          submitted: true,
+          nodes: people(bubbleId),
+          links: [{ source: `${bubbleId}-me`, target: `${bubbleId}-1` }],
+          groups: [],
+          svgRef,
+          setNodes: vi.fn(),
+          setIsFrozen,
+          isFrozenRef,
+          layout,
+        }),
+      { initialProps: { bubbleId: "a", layout: "radial" } }
+    );
+
+    isFrozenRef.current = true;
+    rerender({ bubbleId: "b", layout: "force" });
+
+    expect(setIsFrozen).not.toHaveBeenCalledWith(false);
+  });
+});
@@ -4,6 +4,7 @@ import {
   useEffect,
   useRef,
   useMemo,
+  useCallback,
   type RefObject,
   type Dispatch,
   type SetStateAction,
@@ -14,109 +15,463 @@ import type {
   LinkData,
   BubbleGroup,
   Node,
+  NodeStyle,
+  LayoutKind,
   Link,
+  GraphViewport,
+  NodeMove,
 } from "@/types/network";
+import {
+  RELATIONSHIP_STYLES,
+  UNTYPED_LINK_COLOR,
+  linkColor,
+  linkDash,
+  linkStrokeWidth,
+  linkDistance,
+} from "@/lib/relationships";
+import {
+  applyLayoutForces,
+  applyPins,
+  applyGroupForces,
+  freezeNodes,
+  mergeSimulationNodes,
+} from "@/lib/layouts";
+import {
+  GRAPH_ARIA_LABEL,
+  describeNode,
+  isArrowKey,
+  neighbourInDirection,
+} from "@/lib/graph-navigation";
+import {
+  DIMMED_OPACITY,
+  FOCUS_RING_COLOR,
+  LASSO_FILL,
+  PATH_TRACE_COLOR,
+  PIN_ICON,
+  PIN_ICON_SIZE,
+  SELECTION_COLOR,
+  centredTransform,
+  fitTransform,
+  nodesInLasso,
+  nodeFill,
+  nodeStroke,
+  pinIconOffset,
+  hullLabelPosition,
+  hullPath,
+  memberPoints,
+  endpointId,
+  linkEndpoints,
+} from "@/lib/graph-scene";
+import {
+  COARSE_POINTER_QUERY,
+  clickDistanceFor,
+  createLongPress,
+  isTouchEvent,
+} from "@/lib/touch-gestures";
+import { groupHulls, type GroupHull } from "@/lib/groups";
+
+const ARROW_COLORS = [
+  UNTYPED_LINK_COLOR,
+  ...Object.values(RELATIONSHIP_STYLES).map((s) => s.color),
+];
+
+function arrowId(color: string): string {
+  return `link-arrow-${color.replace("#", "")}`;
+}
+
+function updateHulls(
+  paths: d3.Selection<SVGPathElement, BubbleGroup, d3.BaseType, unknown>,
+  nodesData: Node[]
+): void {
+  const byId = new Map(nodesData.map((n) => [n.id, n]));
+  paths.each(function (group) {
+    const d = hullPath(memberPoints(group.memberNodeIds, byId));
+    d3.select(this)
+      .attr("d", d)
+      .attr("visibility", d ? "visible" : "hidden");
+  });
+}
+
+/** Each group's outline and the label riding on top of it. */
+function updateGroupHulls(
+  hulls: d3.Selection<SVGGElement, GroupHull, d3.BaseType, unknown>,
+  nodesData: Node[]
+): void {
+  const byId = new Map(nodesData.map((n) => [n.id, n]));
+  hulls.each(function (hull) {
+    const points = memberPoints(hull.memberNodeIds, byId);
+    const d = hullPath(points, hull.padding);
+    const [x, y] = hullLabelPosition(points, hull.padding) ?? [0, 0];
+    const g = d3.select(this).attr("visibility", d ? "visible" : "hidden");
+    g.select("path").attr("d", d);
+    g.select("text").attr("x", x).attr("y", y);
+  });
+}
+
+function updatePathTrace(
+  lines: d3.Selection<SVGLineElement, [string, string], d3.BaseType, unknown>,
+  nodesData: Node[]
+): void {
+  const byId = new Map(nodesData.map((n) => [n.id, n]));
+  lines
+    .attr("x1", ([a]) => byId.get(a)?.x ?? 0)
+    .attr("y1", ([a]) => byId.get(a)?.y ?? 0)
+    .attr("x2", ([, b]) => byId.get(b)?.x ?? 0)
+    .attr("y2", ([, b]) => byId.get(b)?.y ?? 0);
+}
+
+function sceneSize(svg: SVGSVGElement | null): {
+  width: number;
+  height: number;
+} {
+  const rect = svg?.getBoundingClientRect();
+  return {
+    width: rect?.width || window.innerWidth - 64,
+    height: Math.max(rect?.height || 600, 600),
+  };
+}
 
-interface UseNetworkGraphOptions {
+function sceneCenter(svg: SVGSVGElement | null): { x: number; y: number } {
+  const { width, height } = sceneSize(svg);
+  return { x: width / 2, y: height / 2 };
+}
+
+export interface UseNetworkGraphOptions {
+  bubbleId: string | null;
   submitted: boolean;
-  name: string;
   nodes: NodeData[];
   links: LinkData[];
   groups: BubbleGroup[];
   svgRef: RefObject<SVGSVGElement | null>;
   setNodes: Dispatch<SetStateAction<NodeData[]>>;
   setIsFrozen: Dispatch<SetStateAction<boolean>>;
-  onNodeClick: (nodeId: string, screenX: number, screenY: number) => void;
-  addLinkBetweenNodes: (sourceId: string, targetId: string) => void;
-  addNodeToGroup: (groupId: string, nodeId: string) => void;
   isFrozenRef: RefObject<boolean>;
-  linkFromNodeIdRef: RefObject<string | null>;
-  addToGroupIdRef: RefObject<string | null>;
+  /** Nodes to emphasise, dimming the rest; null leaves everything as is. */
+  highlightedNodeIds?: Set<string> | null;
+  /** Per-node size and colour overrides; nodes without one draw as usual. */
+  nodeStyles?: Map<string, NodeStyle> | null;
+  /** Groups whose outlines are turned off, along with their sub-groups. */
+  hiddenGroupIds?: Set<string> | null;
+  /** Draft groups to outline, e.g. suggestions the user hasn't accepted. */
+  previewGroups?: BubbleGroup[] | null;
+  /** Node ids of a chain to trace over the links, e.g. a found path. */
+  highlightedPath?: string[] | null;
+  /** People picked for bulk actions, ringed in the graph. */
+  selectedNodeIds?: Set<string> | null;
+  /** People held where they are while the layout runs. */
+  pinnedNodeIds?: Set<string> | null;
+  layout?: LayoutKind;
+  /** Pulls each group together and pushes outsiders out of it. */
+  groupForces?: boolean;
+  // Editing hooks; the read-only viewer leaves them out.
+  onNodeClick?: (nodeId: string, screenX: number, screenY: number) => void;
+  /** A finger held on someone and lifted without moving off them. */
+  onNodeLongPress?: (
+    nodeId: string,
+    screenX: number,
+    screenY: number
+  ) => void;
+  onNodeMove?: (
+    nodeId: string,
+    from: { x: number; y: number },
+    to: { x: number; y: number }
+  ) => void;
+  /** A selection dragged together; lone drags go to `onNodeMove`. */
+  onNodesMove?: (moves: NodeMove[]) => void;
+  /** Shift-click, or Shift+Enter, on someone. */
+  onToggleNodeSelection?: (nodeId: string) => void;
+  /** Everyone inside a loop drawn by Shift-dragging the background. */
+  onLassoSelect?: (nodeIds: string[]) => void;
+  onLinkClick?: (link: LinkData, screenX: number, screenY: number) => void;
+  onNodeHover?: (
+    nodeId: string | null,
+    screenX: number,
+    screenY: number
+  ) => void;
+  /** Called as keyboard focus moves onto someone, or off the graph. */
+  onNodeFocus?: (nodeId: string | null) => void;
+  addLinkBetweenNodes?: (sourceId: string, targetId: string) => void;
+  addNodeToGroup?: (groupId: string, nodeId: string) => void;
+  pickPathNode?: (nodeId: string) => void;
+  linkFromNodeIdRef?: RefObject<string | null>;
+  addToGroupIdRef?: RefObject<string | null>;
+  isPathModeRef?: RefObject<boolean>;
+}
+
+/**
+ * Keys for what the scene is built from: which nodes, links and groups
+ * exist. Position-only updates leave it unchanged.
+ */
+export function useGraphStructure(
+  nodes: NodeData[],
+  links: LinkData[],
+  groups: BubbleGroup[]
+) {
+  const nodeIdsKey =
+    nodes.length + "-" + [...nodes.map((n) => n.id)].sort().join(",");
+  // Relationship details change how links are drawn and pulled, so they
+  // go through the structural update too.
+  const linksKey =
+    links.length +
+    "-" +
+    [
+      ...links.map((l) =>
+        [
+          l.source,
+          l.target,
+          l.type,
+          l.customType,
+          l.strength,
+          l.direction,
+          l.label,
+        ].join("-")
+      ),
+    ]
+      .sort()
+      .join(",");
+  const groupsKey =
+    groups.length +
+    "-" +
+    [...groups.map((g) => g.id)].sort().join(",");
+  const graphStructure = useMemo(
+    () => ({ nodeIdsKey, linksKey, groupsKey }),
+    [nodeIdsKey, linksKey, groupsKey]
+  );
+  return graphStructure;
 }
 
 export function useNetworkGraph({
+  bubbleId,
   submitted,
-  name,
   nodes,
   links,
   groups,
   svgRef,
   setNodes,
   setIsFrozen,
+  isFrozenRef,
+  highlightedNodeIds = null,
+  nodeStyles = null,
+  hiddenGroupIds = null,
+  previewGroups = null,
+  highlightedPath = null,
+  selectedNodeIds = null,
+  pinnedNodeIds = null,
+  layout = "force",
+  groupForces = false,
   onNodeClick,
+  onNodeLongPress,
+  onNodeMove,
+  onNodesMove,
+  onToggleNodeSelection,
+  onLassoSelect,
+  onLinkClick,
+  onNodeHover,
+  onNodeFocus,
   addLinkBetweenNodes,
   addNodeToGroup,
-  isFrozenRef,
+  pickPathNode,
   linkFromNodeIdRef,
   addToGroupIdRef,
+  isPathModeRef,
 }: UseNetworkGraphOptions) {
   const simulationRef = useRef<d3.Simulation<Node, Link> | null>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(
+    null
+  );
+  const dragRef = useRef<d3.DragBehavior<
+    SVGGElement,
+    Node,
+    Node | d3.SubjectPosition
+  > | null>(null);
+  /** Moves every drawn element to its node's current position. */
+  const renderPositionsRef = useRef<() => void>(() => {});
   const didDragRef = useRef(false);
   const hasFlushedPositionsRef = useRef(false);
-
-  const nodeIdsKey =
-    nodes.length + "-" + [...nodes.map((n) => n.id)].sort().join(",");
-  const linksKey =
-    links.length +
-    "-" +
-    [...links.map((l) => `${l.source}-${l.target}`)].sort().join(",");
-  const groupsKey =
-    groups.length +
-    "-" +
-    [...groups.map((g) => g.id)].sort().join(",");
-  const graphStructure = useMemo(
-    () => ({ nodeIdsKey, linksKey, groupsKey }),
-    [nodeIdsKey, linksKey, groupsKey]
+  /** Zoom to fit once a bubble that had no saved positions settles. */
+  const needsFitRef = useRef(false);
+  /** The layout last applied to this bubble's scene. */
+  const previousLayoutRef = useRef<LayoutKind | null>(null);
+  /** Who the current drag is moving, and where each of them started. */
+  const draggedRef = useRef<{ node: Node; from: { x: number; y: number } }[]>(
+    []
   );
+  /** Told whenever the view pans, zooms or the layout moves. */
+  const viewListenersRef = useRef(new Set<() => void>());
+  /** The one person reachable with Tab; arrow keys move between the rest. */
+  const tabStopIdRef = useRef<string | null>(null);
+  const handlersRef = useRef({
+    onNodeClick,
+    onNodeLongPress,
+    onNodeMove,
+    onNodesMove,
+    onToggleNodeSelection,
+    onLassoSelect,
+    onLinkClick,
+    onNodeHover,
+    onNodeFocus,
+    addLinkBetweenNodes,
+    addNodeToGroup,
+    pickPathNode,
+  });
+
+  const graphStructure = useGraphStructure(nodes, links, groups);
+  const litNodeIds = highlightedPath
+    ? new Set(highlightedPath)
+    : highlightedNodeIds;
+  // Effects below re-run on keys for what they show and read the values
+  // themselves from these refs, so a new but equal Set doesn't redraw.
+  const bubbleRef = useRef({ nodes, links, groups });
+  const displayRef = useRef({
+    hiddenGroupIds,
+    litNodeIds,
+    nodeStyles,
+    previewGroups,
+    highlightedPath,
+  });
+  const selectedNodeIdsRef = useRef(selectedNodeIds);
+  const pinnedNodeIdsRef = useRef(pinnedNodeIds);
+  useEffect(() => {
+    bubbleRef.current = { nodes, links, groups };
+    displayRef.current = {
+      hiddenGroupIds,
+      litNodeIds,
+      nodeStyles,
+      previewGroups,
+      highlightedPath,
+    };
+    selectedNodeIdsRef.current = selectedNodeIds;
+    pinnedNodeIdsRef.current = pinnedNodeIds;
+  });
+
+  // The scene lives as long as the bubble, so handlers are read through a
+  // ref rather than rebuilding it whenever a callback changes identity.
+  useEffect(() => {
+    handlersRef.current = {
+      onNodeClick,
+      onNodeLongPress,
+      onNodeMove,
+      onNodesMove,
+      onToggleNodeSelection,
+      onLassoSelect,
+      onLinkClick,
+      onNodeHover,
+      onNodeFocus,
+      addLinkBetweenNodes,
+      addNodeToGroup,
+      pickPathNode,
+    };
+  });
+
+  // ── Scene setup: layers, zoom, dragging, simulation ─────────
 
   useEffect(() => {
-    if (!submitted || !svgRef.current || nodes.length === 0) return;
+    if (!submitted || !svgRef.current) return;
 
-    setIsFrozen(false);
+    hasFlushedPositionsRef.current = false;
+    needsFitRef.current = false;
+    // A new bubble opens in its own layout rather than switching to it.
+    previousLayoutRef.current = null;
     const svg = d3.select(svgRef.current);
     svg.selectAll("*").remove();
+    svg.attr("role", "application").attr("aria-label", GRAPH_ARIA_LABEL);
+    // Touches belong to the graph, not to scrolling or zooming the page.
+    svg
+      .style("touch-action", "none")
+      .style("user-select", "none")
+      .style("-webkit-touch-callout", "none");
+    const coarse = window.matchMedia(COARSE_POINTER_QUERY).matches;
+    tabStopIdRef.current = null;
 
-    const getDimensions = () => {
-      const rect = svgRef.current?.getBoundingClientRect();
-      return {
-        width: rect?.width || window.innerWidth - 64,
-        height: Math.max(rect?.height || 600, 600),
-      };
-    };
-
-    let { width, height } = getDimensions();
+    let { width, height } = sceneSize(svgRef.current);
+    const notifyView = () =>
+      viewListenersRef.current.forEach((listener) => listener());
 
     const container = svg.append("g");
 
     const zoom = d3
       .zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.5, 3])
+      // Phones see less at once, so they may zoom further out.
+      .scaleExtent([coarse ? 0.2 : 0.5, 3])
+      .clickDistance(clickDistanceFor(coarse))
+      // Shift-dragging the background draws a lasso rather than panning.
+      .filter(
+        (event) =>
+          (!event.ctrlKey || event.type === "wheel") &&
+          !event.button &&
+          !(
+            event.shiftKey &&
+            event.type !== "wheel" &&
+            handlersRef.current.onLassoSelect
+          )
+      )
       .on("zoom", (event) => {
         container.attr("transform", event.transform.toString());
+        notifyView();
       });
 
-    svg.call(zoom);
+    // The svg outlives the bubble, so its last zoom is reset too.
+    svg.call(zoom).call(zoom.transform, d3.zoomIdentity);
+    zoomRef.current = zoom;
 
-    const nodesData: Node[] = nodes.map((n) => ({ ...n, x: n.x, y: n.y }));
-    const linksData: Link[] = links.map((l) => ({
-      ...l,
-      source: l.source,
-      target: l.target,
-    }));
+    // Layers, back to front; the structural effect below fills them in.
+    // Suggested groups awaiting review sit behind the real ones.
+    container.append("g").attr("class", "group-previews");
+    container.append("g").attr("class", "bubble-groups");
 
-    const allHadPositions = nodesData.every(
-      (n) => n.x != null && n.y != null
-    );
-    hasFlushedPositionsRef.current = false;
+    // Arrowheads for directed links, one per link colour. They live inside
+    // the scene so SVG/PNG exports carry them along.
+    container
+      .append("defs")
+      .selectAll("marker")
+      .data(ARROW_COLORS)
+      .join("marker")
+      .attr("id", arrowId)
+      .attr("viewBox", "0 -5 10 10")
+      .attr("refX", 10)
+      .attr("markerUnits", "userSpaceOnUse")
+      .attr("markerWidth", 12)
+      .attr("markerHeight", 12)
+      .attr("orient", "auto-start-reverse")
+      .append("path")
+      .attr("d", "M0,-5L10,0L0,5Z")
+      .attr("fill", (color) => color);
+
+    container.append("g").attr("class", "links");
+    // Traced chain (e.g. a found path), filled in by the effect below.
+    container.append("g").attr("class", "path-trace");
+    // Line drawn while a long press is dragged towards someone to link.
+    const connectPreview = container
+      .append("g")
+      .attr("class", "gesture")
+      .append("line")
+      .attr("stroke", PATH_TRACE_COLOR)
+      .attr("stroke-width", 3)
+      .attr("stroke-dasharray", "6 4")
+      .attr("stroke-linecap", "round")
+      .attr("visibility", "hidden")
+      .attr("pointer-events", "none");
+    const lassoPath = container
+      .select(".gesture")
+      .append("path")
+      .attr("fill", LASSO_FILL)
+      .attr("stroke", SELECTION_COLOR)
+      .attr("stroke-width", 1.5)
+      .attr("stroke-dasharray", "4 3")
+      .attr("vector-effect", "non-scaling-stroke")
+      .attr("visibility", "hidden")
+      .attr("pointer-events", "none");
+    container.append("g").attr("class", "link-labels");
+    container.append("g").attr("class", "nodes");
 
     const simulation = d3
-      .forceSimulation<Node>(nodesData)
+      .forceSimulation<Node>([])
       .force(
         "link",
         d3
-          .forceLink<Node, Link>(linksData)
+          .forceLink<Node, Link>([])
           .id((d) => d.id)
-          .distance(180)
+          .distance(linkDistance)
       )
       .force("charge", d3.forceManyBody().strength(-400))
       .force("center", d3.forceCenter(width / 2, height / 2))
@@ -127,271 +482,1005 @@ export function useNetworkGraph({
 
     simulationRef.current = simulation;
 
-    // Bubble group hulls (drawn behind everything)
-    const bubbleGroupsG = container
-      .append("g")
-      .attr("class", "bubble-groups")
-      .lower();
+    const renderPositions = () => {
+      const nodesData = simulation.nodes();
+      updateGroupHulls(
+        container.selectAll<SVGGElement, GroupHull>(".bubble-groups > g"),
+        nodesData
+      );
+      updateHulls(
+        container.selectAll<SVGPathElement, BubbleGroup>(
+          ".group-previews path"
+        ),
+        nodesData
+      );
 
-    const groupPaths = bubbleGroupsG
-      .selectAll<SVGPathElement, BubbleGroup>("path")
-      .data(groups, (d) => d.id)
-      .join("path")
-      .attr("fill", "rgba(125, 211, 252, 0.18)")
-      .attr("stroke", "#38bdf8")
-      .attr("stroke-width", 2)
-      .attr("stroke-dasharray", "6 4")
-      .attr("pointer-events", "none");
+      container
+        .selectAll<SVGLineElement, Link>("line.link")
+        .each(function (d) {
+          const [x1, y1, x2, y2] = linkEndpoints(d);
+          d3.select(this)
+            .attr("x1", x1)
+            .attr("y1", y1)
+            .attr("x2", x2)
+            .attr("y2", y2);
+        });
 
-    const link = container
-      .append("g")
-      .attr("class", "links")
-      .selectAll("line")
-      .data(linksData)
-      .enter()
-      .append("line")
-      .attr("stroke", "#7dd3fc")
-      .attr("stroke-opacity", 0.6)
-      .attr("stroke-width", 2.5);
+      container
+        .selectAll<SVGLineElement, Link>("line.link-hit")
+        .attr("x1", (d) => (d.source as Node).x!)
+        .attr("y1", (d) => (d.source as Node).y!)
+        .attr("x2", (d) => (d.target as Node).x!)
+        .attr("y2", (d) => (d.target as Node).y!);
 
-    const node = container
-      .append("g")
-      .attr("class", "nodes")
-      .selectAll("g")
-      .data(nodesData)
-      .enter()
-      .append("g")
-      .style("cursor", "grab")
-      .call(
-        d3
-          .drag<SVGGElement, Node>()
-          .on("start", (event) => {
-            didDragRef.current = false;
-            if (isFrozenRef.current) return;
-            dragstarted(event);
-          })
-          .on("drag", (event) => {
-            if (isFrozenRef.current) return;
-            didDragRef.current = true;
-            dragged(event);
-          })
-          .on("end", (event) => {
-            if (isFrozenRef.current) return;
-            dragended(event);
-          })
+      updatePathTrace(
+        container.selectAll<SVGLineElement, [string, string]>(
+          ".path-trace line"
+        ),
+        nodesData
       );
 
-    node.on("click", (event, d) => {
-      event.stopPropagation();
-      if (!didDragRef.current && svgRef.current) {
-        if (addToGroupIdRef.current) {
-          addNodeToGroup(addToGroupIdRef.current, d.id);
-          return;
-        }
-        if (linkFromNodeIdRef.current) {
-          addLinkBetweenNodes(linkFromNodeIdRef.current, d.id);
-          return;
-        }
-        const transform = d3.zoomTransform(svgRef.current);
-        const pt = transform.apply([
-          (d as Node).x ?? 0,
-          (d as Node).y ?? 0,
-        ]);
-        onNodeClick(d.id, pt[0], pt[1]);
+      container
+        .selectAll<SVGTextElement, Link>(".link-labels text")
+        .attr("x", (d) => ((d.source as Node).x! + (d.target as Node).x!) / 2)
+        .attr("y", (d) => ((d.source as Node).y! + (d.target as Node).y!) / 2);
+
+      container
+        .selectAll<SVGGElement, Node>(".nodes > g")
+        .attr("transform", (d) => `translate(${d.x},${d.y})`);
+      notifyView();
+    };
+    renderPositionsRef.current = renderPositions;
+
+    simulation.on("tick", () => {
+      renderPositions();
+      if (simulation.alpha() >= 0.1) return;
+      if (!hasFlushedPositionsRef.current) {
+        hasFlushedPositionsRef.current = true;
+        // Merge positions into current state rather than replacing nodes,
+        // so edits made while the layout settled (e.g. profiles) survive.
+        const positions = new Map(simulation.nodes().map((n) => [n.id, n]));
+        setNodes((prev) =>
+          prev.map((n) => {
+            const simNode = positions.get(n.id);
+            return simNode ? { ...n, x: simNode.x, y: simNode.y } : n;
+          })
+        );
+      }
+      if (needsFitRef.current) {
+        needsFitRef.current = false;
+        const fit = fitTransform(simulation.nodes(), width, height, 1);
+        if (fit) svg.transition().duration(750).call(zoom.transform, fit);
       }
     });
 
-    node
-      .append("circle")
-      .attr("r", (d) => d.radius)
-      .attr("fill", (d) => (d.type === "user" ? "#0ea5e9" : "#7dd3fc"))
-      .attr("stroke", (d) => (d.type === "user" ? "#0284c7" : "#38bdf8"))
-      .attr("stroke-width", 3)
-      .style("filter", "drop-shadow(0 2px 6px rgba(14,165,233,0.35))");
-
-    node
-      .append("text")
-      .text((d) => d.name)
-      .attr("text-anchor", "middle")
-      .attr("dy", (d) => d.radius + 18)
-      .attr("fill", "#0c4a6e")
-      .attr("font-size", (d) => (d.type === "user" ? "14px" : "12px"))
-      .attr("font-weight", (d) => (d.type === "user" ? "bold" : "500"))
-      .attr("pointer-events", "none");
+    const handleResize = () => {
+      ({ width, height } = sceneSize(svgRef.current));
+      // Fixed layouts have no centring force; they re-centre themselves.
+      if (simulation.force("center")) {
+        simulation.force("center", d3.forceCenter(width / 2, height / 2));
+      }
+      simulation.alpha(0.3).restart();
+    };
 
-    node
-      .on("mouseover", function (_event, d) {
-        d3.select(this)
-          .select("circle")
-          .transition()
-          .duration(200)
-          .attr("r", d.radius * 1.2)
-          .attr("stroke-width", 4);
-        d3.select(this)
-          .select("text")
-          .transition()
-          .duration(200)
-          .attr("font-size", d.type === "user" ? "16px" : "14px");
-      })
-      .on("mouseout", function (_event, d) {
-        d3.select(this)
-          .select("circle")
-          .transition()
-          .duration(200)
-          .attr("r", d.radius)
-          .attr("stroke-width", 3);
-        d3.select(this)
-          .select("text")
-          .transition()
-          .duration(200)
-          .attr("font-size", d.type === "user" ? "14px" : "12px");
-      });
+    window.addEventListener("resize", handleResize);
 
-    let hasCentered = false;
+    // On touch, holding still on someone long-presses them instead of
+    // dragging. Lifting the finger where it is opens their details;
+    // dragging on to someone else links the two.
+    let pressed: Node | null = null;
+    const longPress = createLongPress(() => {
+      if (!pressed) return;
+      didDragRef.current = true;
+      connectPreview
+        .attr("x1", pressed.x!)
+        .attr("y1", pressed.y!)
+        .attr("x2", pressed.x!)
+        .attr("y2", pressed.y!)
+        .attr("visibility", "visible");
+    });
+    const toScreen = (x: number, y: number) =>
+      d3.zoomTransform(svgRef.current!).apply([x, y]);
+    const finishLongPress = (from: Node, x: number, y: number) => {
+      connectPreview.attr("visibility", "hidden");
+      const over = (n: Node | undefined) =>
+        n != null && Math.hypot(n.x! - x, n.y! - y) <= n.radius + 10;
+      const target = simulation.find(x, y);
+      if (target !== from && over(target)) {
+        handlersRef.current.addLinkBetweenNodes?.(from.id, target!.id);
+      } else if (over(from)) {
+        const [sx, sy] = toScreen(from.x!, from.y!);
+        handlersRef.current.onNodeLongPress?.(from.id, sx, sy);
+      }
+    };
 
-    simulation.on("tick", () => {
-      groupPaths.each(function (group: BubbleGroup) {
-        const points: [number, number][] = [];
-        group.memberNodeIds.forEach((id) => {
-          const n = nodesData.find((nn) => nn.id === id);
-          if (n && n.x != null && n.y != null)
-            points.push([n.x as number, n.y as number]);
+    // Applied to each node as it joins the scene.
+    dragRef.current = d3
+      .drag<SVGGElement, Node>()
+      // A second finger makes it a pinch, which is the zoom's to handle.
+      .filter(
+        (event) =>
+          !event.ctrlKey && !event.button && !(event.touches?.length > 1)
+      )
+      .on("start", (event) => {
+        didDragRef.current = false;
+        longPress.reset();
+        if (isTouchEvent(event.sourceEvent)) {
+          pressed = event.subject;
+          longPress.start(...toScreen(event.x, event.y));
+        }
+        // A frozen layout stays still; only whoever is dragged moves.
+        if (!event.active && !isFrozenRef.current) {
+          simulation.alphaTarget(0.3).restart();
+        }
+        // Dragging someone who is selected brings the rest along.
+        const selected = selectedNodeIdsRef.current;
+        const moving: Node[] = selected?.has(event.subject.id)
+          ? simulation.nodes().filter((n) => selected.has(n.id))
+          : [event.subject];
+        draggedRef.current = moving.map((node) => {
+          node.fx = node.x;
+          node.fy = node.y;
+          return { node, from: { x: node.x!, y: node.y! } };
         });
-        let d = "";
-        if (points.length >= 3) {
-          const hull = d3.polygonHull(points);
-          if (hull) d = "M" + hull.map((p) => p.join(",")).join("L") + "Z";
-        } else if (points.length === 2) {
-          const [[x1, y1], [x2, y2]] = points;
-          const cx = (x1 + x2) / 2;
-          const cy = (y1 + y2) / 2;
-          const r = Math.hypot(x2 - x1, y2 - y1) / 2 + 45;
-          d = `M${cx + r},${cy} A${r},${r} 0 0 1 ${cx - r},${cy} A${r},${r} 0 0 1 ${cx + r},${cy}Z`;
-        } else if (points.length === 1) {
-          const [x, y] = points[0];
-          const r = 50;
-          d = `M${x + r},${y} A${r},${r} 0 0 1 ${x - r},${y} A${r},${r} 0 0 1 ${x + r},${y}Z`;
+        d3.select(event.sourceEvent.target).style("cursor", "grabbing");
+      })
+      .on("drag", (event) => {
+        longPress.move(...toScreen(event.x, event.y));
+        if (longPress.fired()) {
+          connectPreview.attr("x2", event.x).attr("y2", event.y);
+          return;
         }
-        d3.select(this)
-          .attr("d", d)
-          .attr("visibility", d ? "visible" : "hidden");
+        didDragRef.current = true;
+        const dx = event.x - event.subject.fx;
+        const dy = event.y - event.subject.fy;
+        draggedRef.current.forEach(({ node }) => {
+          node.fx = node.fx! + dx;
+          node.fy = node.fy! + dy;
+          // Nothing ticks while frozen, so move them by hand.
+          if (isFrozenRef.current) {
+            node.x = node.fx;
+            node.y = node.fy;
+          }
+        });
+        if (isFrozenRef.current) renderPositionsRef.current();
+      })
+      .on("end", (event) => {
+        if (longPress.fired() && pressed) {
+          finishLongPress(pressed, event.x, event.y);
+        }
+        longPress.reset();
+        pressed = null;
+        if (!event.active) simulation.alphaTarget(0);
+        const pinned = pinnedNodeIdsRef.current;
+        const moves = draggedRef.current.map(({ node, from }) => {
+          const to = { x: node.fx ?? node.x!, y: node.fy ?? node.y! };
+          // Pinned people, and everyone in a frozen layout, stay where
+          // they're dropped.
+          if (!pinned?.has(node.id) && !isFrozenRef.current) {
+            node.fx = null;
+            node.fy = null;
+          }
+          return { id: node.id, from, to };
+        });
+        draggedRef.current = [];
+        const handlers = handlersRef.current;
+        if (moves.length === 1) {
+          handlers.onNodeMove?.(moves[0].id, moves[0].from, moves[0].to);
+        } else if (moves.length > 1) {
+          handlers.onNodesMove?.(moves);
+        }
+        d3.select(event.sourceEvent.target).style("cursor", "grab");
       });
 
-      link
-        .attr("x1", (d) => (d.source as Node).x!)
-        .attr("y1", (d) => (d.source as Node).y!)
-        .attr("x2", (d) => (d.target as Node).x!)
-        .attr("y2", (d) => (d.target as Node).y!);
+    // Shift-dragging the background draws a loop in scene coordinates;
+    // whoever ends up inside it is selected.
+    let lasso: [number, number][] | null = null;
+    let suppressClick = false;
+    const lassoPoint = (event: PointerEvent): [number, number] =>
+      d3
+        .zoomTransform(svgRef.current!)
+        .invert(d3.pointer(event, svgRef.current));
+    svg
+      .on("pointerdown.lasso", (event: PointerEvent) => {
+        suppressClick = false;
+        if (!event.shiftKey || event.button !== 0) return;
+        if (!handlersRef.current.onLassoSelect) return;
+        if ((event.target as Element).closest(".nodes > g")) return;
+        lasso = [lassoPoint(event)];
+        svgRef.current?.setPointerCapture(event.pointerId);
+      })
+      .on("pointermove.lasso", (event: PointerEvent) => {
+        if (!lasso) return;
+        lasso.push(lassoPoint(event));
+        lassoPath
+          .attr("d", `M${lasso.join("L")}Z`)
+          .attr("visibility", "visible");
+      })
+      .on("pointerup.lasso pointercancel.lasso", (event: PointerEvent) => {
+        if (!lasso) return;
+        const drawn = lasso;
+        lasso = null;
+        lassoPath.attr("visibility", "hidden");
+        if (event.type === "pointercancel" || drawn.length < 3) return;
+        // The click that ends the lasso would otherwise clear selection.
+        suppressClick = true;
+        handlersRef.current.onLassoSelect?.(
+          nodesInLasso(simulation.nodes(), drawn).map((n) => n.id)
+        );
+      })
+      .on(
+        "click.lasso",
+        (event: MouseEvent) => {
+          if (!suppressClick) return;
+          suppressClick = false;
+          event.stopPropagation();
+        },
+        true
+      );
 
-      node.attr("transform", (d) => `translate(${d.x},${d.y})`);
-
-      if (simulation.alpha() < 0.1) {
-        if (!hasFlushedPositionsRef.current) {
-          hasFlushedPositionsRef.current = true;
-          setNodes(
-            nodesData.map((n) => ({
-              id: n.id,
-              name: n.name,
-              type: n.type,
-              radius: n.radius,
-              x: n.x,
-              y: n.y,
-            }))
-          );
-        }
-        if (!hasCentered) {
-          hasCentered = true;
-          if (!allHadPositions) {
-            const nodeBounds = {
-              minX: Infinity,
-              minY: Infinity,
-              maxX: -Infinity,
-              maxY: -Infinity,
-            };
-
-            nodesData.forEach((n) => {
-              if (n.x !== undefined && n.y !== undefined) {
-                const r = n.radius;
-                nodeBounds.minX = Math.min(nodeBounds.minX, n.x - r);
-                nodeBounds.minY = Math.min(nodeBounds.minY, n.y - r);
-                nodeBounds.maxX = Math.max(nodeBounds.maxX, n.x + r);
-                nodeBounds.maxY = Math.max(nodeBounds.maxY, n.y + r);
-              }
-            });
-
-            const graphWidth = nodeBounds.maxX - nodeBounds.minX;
-            const graphHeight = nodeBounds.maxY - nodeBounds.minY;
-            const graphCenterX = (nodeBounds.minX + nodeBounds.maxX) / 2;
-            const graphCenterY = (nodeBounds.minY + nodeBounds.maxY) / 2;
-
-            const padding = 50;
-            const scale = Math.min(
-              (width - padding * 2) / graphWidth,
-              (height - padding * 2) / graphHeight,
-              1
+    return () => {
+      window.removeEventListener("resize", handleResize);
+      svg.on(".lasso", null);
+      longPress.reset();
+      simulation.stop();
+      simulationRef.current = null;
+      renderPositionsRef.current = () => {};
+    };
+  }, [bubbleId, submitted, svgRef, setNodes, isFrozenRef]);
+
+  // ── Structural changes, applied in place ────────────────────
+
+  // Existing people keep their element, position and momentum; newcomers
+  // start next to someone they're linked to and the layout only gets a
+  // gentle nudge, so adding someone doesn't send the whole bubble flying.
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation || !svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const { nodes, links } = bubbleRef.current;
+    const previous = new Map(simulation.nodes().map((n) => [n.id, n]));
+    const isFirstLoad = previous.size === 0;
+
+    const nodesData = mergeSimulationNodes(
+      nodes,
+      links,
+      previous,
+      sceneCenter(svgRef.current)
+    );
+    const linksData: Link[] = links.map((l) => ({ ...l }));
+    simulation.nodes(nodesData);
+    simulation.force<d3.ForceLink<Node, Link>>("link")?.links(linksData);
+
+    const linkKey = (d: Link) =>
+      `${endpointId(d.source)}>${endpointId(d.target)}`;
+
+    svg
+      .select(".links")
+      .selectAll<SVGLineElement, Link>("line.link")
+      .data(linksData, linkKey)
+      .join((enter) =>
+        enter
+          .append("line")
+          .attr("class", "link")
+          .attr("pointer-events", "none")
+      )
+      .attr("stroke", linkColor)
+      .attr("stroke-opacity", (d) => (d.type ? 0.8 : 0.6))
+      .attr("stroke-width", linkStrokeWidth)
+      .attr("stroke-dasharray", linkDash)
+      .attr("marker-end", (d) =>
+        d.direction === "forward" ? `url(#${arrowId(linkColor(d))})` : null
+      )
+      .attr("marker-start", (d) =>
+        d.direction === "backward" ? `url(#${arrowId(linkColor(d))})` : null
+      );
+
+    // Wider transparent lines on top make thin links easy to click
+    svg
+      .select(".links")
+      .selectAll<SVGLineElement, Link>("line.link-hit")
+      .data(handlersRef.current.onLinkClick ? linksData : [], linkKey)
+      .join((enter) =>
+        enter
+          .append("line")
+          .attr("class", "link-hit")
+          .attr("stroke", "transparent")
+          .attr("stroke-width", 12)
+          .style("cursor", "pointer")
+          .on("click", (event: MouseEvent, d) => {
+            event.stopPropagation();
+            if (!svgRef.current) return;
+            const [x, y] = d3.pointer(event, svgRef.current);
+            handlersRef.current.onLinkClick?.(
+              {
+                source: (d.source as Node).id,
+                target: (d.target as Node).id,
+              },
+              x,
+              y
             );
+          })
+      );
+
+    svg
+      .select(".link-labels")
+      .selectAll<SVGTextElement, Link>("text")
+      .data(
+        linksData.filter((l) => l.label),
+        linkKey
+      )
+      .join((enter) =>
+        enter
+          .append("text")
+          .attr("text-anchor", "middle")
+          .attr("dy", "0.35em")
+          .attr("font-size", "11px")
+          .attr("font-weight", "500")
+          .attr("stroke", "#f0f9ff")
+          .attr("stroke-width", 3)
+          .attr("paint-order", "stroke")
+          .attr("pointer-events", "none")
+      )
+      .text((d) => d.label!)
+      .attr("fill", (d) => linkColor(d));
 
-            const translateX = width / 2 - scale * graphCenterX;
-            const translateY = height / 2 - scale * graphCenterY;
+    // What a click does, and Enter or Space on a focused person. Holding
+    // Shift adds them to or takes them out of the selection instead.
+    const activateNode = (d: Node, shiftKey: boolean) => {
+      if (!svgRef.current) return;
+      const handlers = handlersRef.current;
+      if (shiftKey && handlers.onToggleNodeSelection) {
+        handlers.onToggleNodeSelection(d.id);
+        return;
+      }
+      if (isPathModeRef?.current) {
+        handlers.pickPathNode?.(d.id);
+        return;
+      }
+      const addToGroupId = addToGroupIdRef?.current;
+      if (addToGroupId) {
+        handlers.addNodeToGroup?.(addToGroupId, d.id);
+        return;
+      }
+      const linkFromNodeId = linkFromNodeIdRef?.current;
+      if (linkFromNodeId) {
+        handlers.addLinkBetweenNodes?.(linkFromNodeId, d.id);
+        return;
+      }
+      const pt = d3.zoomTransform(svgRef.current).apply([d.x ?? 0, d.y ?? 0]);
+      handlers.onNodeClick?.(d.id, pt[0], pt[1]);
+    };
 
-            svg
-              .transition()
-              .duration(750)
-              .call(
-                zoom.transform,
-                d3.zoomIdentity
-                  .translate(translateX, translateY)
-                  .scale(scale)
-              );
-          }
-        }
+    const nodeElements = () => svg.selectAll<SVGGElement, Node>(".nodes > g");
+    const focusNodeElement = (nodeId: string) =>
+      nodeElements()
+        .filter((n) => n.id === nodeId)
+        .node()
+        ?.focus();
+
+    const handleNodeKeyDown = (event: KeyboardEvent, d: Node) => {
+      if (event.key === "Enter" || event.key === " ") {
+        event.preventDefault();
+        activateNode(d, event.shiftKey);
+      } else if (event.key === "Home") {
+        const user = simulation.nodes().find((n) => n.type === "user");
+        if (!user) return;
+        event.preventDefault();
+        focusNodeElement(user.id);
+      } else if (isArrowKey(event.key)) {
+        event.preventDefault();
+        const neighbours = (
+          simulation.force<d3.ForceLink<Node, Link>>("link")?.links() ?? []
+        ).flatMap((l) => {
+          const [source, target] = [l.source as Node, l.target as Node];
+          if (source.id === d.id) return [target];
+          if (target.id === d.id) return [source];
+          return [];
+        });
+        const next = neighbourInDirection(d, neighbours, event.key);
+        if (next) focusNodeElement(next.id);
       }
-    });
+    };
 
-    const handleResize = () => {
-      const newDims = getDimensions();
-      width = newDims.width;
-      height = newDims.height;
-      simulation.force("center", d3.forceCenter(width / 2, height / 2));
-      simulation.alpha(0.3).restart();
+    const handleNodeFocus = (element: SVGGElement, d: Node) => {
+      tabStopIdRef.current = d.id;
+      nodeElements().attr("tabindex", (n) => (n.id === d.id ? 0 : -1));
+      // Clicking focuses people too, but only keyboard focus gets a ring.
+      if (!element.matches(":focus-visible")) return;
+      d3.select(element)
+        .select(".focus-ring")
+        .attr("r", d.radius + 7)
+        .attr("visibility", "visible");
+      // Bring people reached by keyboard into view.
+      const svgElement = svgRef.current;
+      const zoom = zoomRef.current;
+      if (svgElement && zoom && d.x != null && d.y != null) {
+        const { width, height } = svgElement.getBoundingClientRect();
+        const transform = d3.zoomTransform(svgElement);
+        const [sx, sy] = transform.apply([d.x, d.y]);
+        if (sx < 0 || sy < 0 || sx > width || sy > height) {
+          svg
+            .transition()
+            .duration(300)
+            .call(
+              zoom.transform,
+              centredTransform(d.x, d.y, transform.k, width, height)
+            );
+        }
+      }
+      handlersRef.current.onNodeFocus?.(d.id);
     };
 
-    window.addEventListener("resize", handleResize);
+    svg
+      .select(".nodes")
+      .selectAll<SVGGElement, Node>(":scope > g")
+      .data(nodesData, (d) => d.id)
+      .join((enter) => {
+        const node = enter
+          .append("g")
+          .attr("tabindex", -1)
+          .attr("role", "button")
+          .style("cursor", "grab")
+          .style("outline", "none");
+        if (dragRef.current) node.call(dragRef.current);
+        node
+          .append("circle")
+          .attr("r", (d) => d.radius)
+          .attr("stroke-width", 3)
+          .style("filter", "drop-shadow(0 2px 6px rgba(14,165,233,0.35))");
+        node
+          .append("circle")
+          .attr("class", "selection-ring")
+          .attr("fill", "none")
+          .attr("stroke", SELECTION_COLOR)
+          .attr("stroke-width", 3)
+          .attr("visibility", "hidden")
+          .attr("pointer-events", "none");
+        node
+          .append("circle")
+          .attr("class", "focus-ring")
+          .attr("fill", "none")
+          .attr("stroke", FOCUS_RING_COLOR)
+          .attr("stroke-width", 3)
+          .attr("stroke-dasharray", "6 4")
+          .attr("visibility", "hidden")
+          .attr("pointer-events", "none");
+        node
+          .append("text")
+          .attr("text-anchor", "middle")
+          .attr("dy", (d) => d.radius + 18)
+          .attr("fill", "#0c4a6e")
+          .attr("pointer-events", "none");
+        node
+          .append("text")
+          .attr("class", "pin-icon")
+          .attr("text-anchor", "middle")
+          .attr("dominant-baseline", "central")
+          .attr("font-size", PIN_ICON_SIZE)
+          .attr("aria-hidden", "true")
+          .attr("visibility", "hidden")
+          .attr("pointer-events", "none")
+          .text(PIN_ICON);
+        node
+          .on("click", (event, d) => {
+            event.stopPropagation();
+            if (!didDragRef.current) activateNode(d, event.shiftKey);
+          })
+          // Long presses are ours, not the browser's context menu.
+          .on("contextmenu", (event: MouseEvent) => {
+            if (window.matchMedia(COARSE_POINTER_QUERY).matches) {
+              event.preventDefault();
+            }
+          })
+          .on("keydown", handleNodeKeyDown)
+          .on("focus", function (_event, d) {
+            handleNodeFocus(this, d);
+          })
+          .on("blur", function () {
+            d3.select(this).select(".focus-ring").attr("visibility", "hidden");
+            handlersRef.current.onNodeFocus?.(null);
+          })
+          // A finger never hovers; its pointerenter comes with the tap.
+          .on("pointerenter", function (event: PointerEvent, d) {
+            if (event.pointerType === "touch") return;
+            d3.select(this)
+              .select("circle")
+              .transition()
+              .duration(200)
+              .attr("r", d.radius * 1.2)
+              .attr("stroke-width", 4);
+            d3.select(this)
+              .select("text")
+              .transition()
+              .duration(200)
+              .attr("font-size", d.type === "user" ? "16px" : "14px");
+            const { onNodeHover } = handlersRef.current;
+            if (onNodeHover && svgRef.current) {
+              const pt = d3
+                .zoomTransform(svgRef.current)
+                .apply([d.x ?? 0, d.y ?? 0]);
+              onNodeHover(d.id, pt[0], pt[1]);
+            }
+          })
+          .on("pointerleave", function (event: PointerEvent, d) {
+            if (event.pointerType === "touch") return;
+            d3.select(this)
+              .select("circle")
+              .transition()
+              .duration(200)
+              .attr("r", d.radius)
+              .attr("stroke-width", 3);
+            d3.select(this)
+              .select("text")
+              .transition()
+              .duration(200)
+              .attr("font-size", d.type === "user" ? "14px" : "12px");
+            handlersRef.current.onNodeHover?.(null, 0, 0);
+          });
+        return node;
+      })
+      .call((node) => {
+        node
+          .select("circle")
+          .attr("fill", (d) => nodeFill(d))
+          .attr("stroke", (d) => nodeStroke(d));
+        node
+          .select("text")
+          .text((d) => d.name)
+          .attr("font-size", (d) => (d.type === "user" ? "14px" : "12px"))
+          .attr("font-weight", (d) => (d.type === "user" ? "bold" : "500"));
+      });
 
-    function dragstarted(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
-      if (!event.active) simulation.alphaTarget(0.3).restart();
-      event.subject.fx = event.subject.x;
-      event.subject.fy = event.subject.y;
-      d3.select(event.sourceEvent.target).style("cursor", "grabbing");
+    // Exactly one person is in the tab order: whoever had focus last, else
+    // the user.
+    const tabStop =
+      nodesData.find((n) => n.id === tabStopIdRef.current) ??
+      nodesData.find((n) => n.type === "user") ??
+      nodesData[0];
+    tabStopIdRef.current = tabStop?.id ?? null;
+    nodeElements().attr("tabindex", (n) => (n === tabStop ? 0 : -1));
+
+    hasFlushedPositionsRef.current = false;
+    if (isFirstLoad) {
+      needsFitRef.current = nodes.some((n) => n.x == null || n.y == null);
+      // A bubble saved frozen opens just as it was left.
+      if (isFrozenRef.current) freezeNodes(nodesData);
+      simulation.alpha(1).restart();
+    } else if (isFrozenRef.current) {
+      // A frozen bubble stays frozen; newcomers stay where they were put.
+      freezeNodes(nodesData.filter((n) => !previous.has(n.id)));
+    } else {
+      simulation.alpha(Math.max(simulation.alpha(), 0.3)).restart();
     }
+    renderPositionsRef.current();
+    // Keyed on graphStructure, with nodes and links read from bubbleRef, so
+    // position-only updates flushing to state don't re-run it.
+  }, [
+    bubbleId,
+    submitted,
+    graphStructure,
+    svgRef,
+    isFrozenRef,
+    isPathModeRef,
+    addToGroupIdRef,
+    linkFromNodeIdRef,
+  ]);
+
+  // Membership and style changes leave the structure keys alone, so hulls
+  // are bound to the latest groups separately. Parents come first in the
+  // data, and `order` keeps them drawn beneath their sub-groups.
+  const hiddenGroupKey = hiddenGroupIds
+    ? [...hiddenGroupIds].sort().join(",")
+    : "";
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const { hiddenGroupIds } = displayRef.current;
+    const hulls = d3
+      .select(svgRef.current)
+      .select(".bubble-groups")
+      .selectAll<SVGGElement, GroupHull>("g")
+      .data(groupHulls(groups, hiddenGroupIds), (d) => d.id)
+      .join((enter) => {
+        const g = enter.append("g").attr("pointer-events", "none");
+        g.append("path").attr("stroke-width", 2);
+        g.append("text")
+          .attr("text-anchor", "middle")
+          .attr("font-size", "12px")
+          .attr("font-weight", 600)
+          .attr("stroke", "white")
+          .attr("stroke-width", 3)
+          .attr("paint-order", "stroke");
+        return g;
+      })
+      .order();
+    hulls
+      .select("path")
+      .attr("fill", (d) => d.fill)
+      .attr("stroke", (d) => d.color)
+      .attr("stroke-dasharray", (d) => d.dash);
+    hulls
+      .select("text")
+      .attr("fill", (d) => d3.color(d.color)!.darker(1).formatHex())
+      .text((d) => d.name);
+    updateGroupHulls(hulls, simulationRef.current?.nodes() ?? []);
+  }, [groups, hiddenGroupKey, bubbleId, submitted, graphStructure, svgRef]);
+
+  // Renames don't change the graph structure, so patch labels in place
+  // instead of rebuilding the scene.
+  const nodeNamesKey = nodes.map((n) => `${n.id}:${n.name}`).join("|");
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const names = new Map(
+      bubbleRef.current.nodes.map((n) => [n.id, n.name])
+    );
+    d3.select(svgRef.current)
+      .selectAll<SVGGElement, Node>(".nodes > g")
+      .each(function (d) {
+        const name = names.get(d.id);
+        if (name == null || name === d.name) return;
+        d.name = name;
+        d3.select(this).select("text").text(name);
+      });
+  }, [nodeNamesKey, svgRef]);
+
+  // Screen readers announce each person with who they know and which
+  // groups they're in, so labels follow names and memberships too.
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const bubble = { nodes, links, groups };
+    d3.select(svgRef.current)
+      .selectAll<SVGGElement, Node>(".nodes > g")
+      .attr("aria-label", (d) => describeNode(bubble, d.id));
+  }, [nodes, links, groups, bubbleId, submitted, graphStructure, svgRef]);
 
-    function dragged(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
-      event.subject.fx = event.x;
-      event.subject.fy = event.y;
+  // Dims whatever a search or filter leaves out, or everyone off a traced
+  // path. Runs after rebuilds too, since a fresh scene starts undimmed.
+  const highlightKey = litNodeIds ? [...litNodeIds].sort().join(",") : null;
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const { litNodeIds } = displayRef.current;
+    const isLit = (id: string) => !litNodeIds || litNodeIds.has(id);
+    const linkOpacity = (d: Link) =>
+      isLit(endpointId(d.source)) && isLit(endpointId(d.target))
+        ? 1
+        : DIMMED_OPACITY;
+    svg
+      .selectAll<SVGGElement, Node>(".nodes > g")
+      .attr("opacity", (d) => (isLit(d.id) ? 1 : DIMMED_OPACITY));
+    svg
+      .selectAll<SVGLineElement, Link>("line.link")
+      .attr("opacity", linkOpacity);
+    svg
+      .selectAll<SVGTextElement, Link>(".link-labels text")
+      .attr("opacity", linkOpacity);
+    svg
+      .selectAll<SVGGElement, GroupHull>(".bubble-groups > g")
+      .attr("opacity", (g) =>
+        g.memberNodeIds.some(isLit) ? 1 : DIMMED_OPACITY
+      );
+  }, [
+    highlightKey,
+    groups,
+    hiddenGroupKey,
+    bubbleId,
+    submitted,
+    graphStructure,
+    svgRef,
+  ]);
+
+  // Applies size and colour overrides in place. Resized nodes need their
+  // collision radius updated too, so the layout makes room for them.
+  const nodeStylesKey = nodeStyles
+    ? [...nodeStyles]
+        .map(([id, s]) => `${id}:${s.radius ?? ""}:${s.fill ?? ""}`)
+        .join("|")
+    : "";
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const { nodeStyles } = displayRef.current;
+    const baseRadius = new Map(
+      bubbleRef.current.nodes.map((n) => [n.id, n.radius])
+    );
+    let resized = false;
+    d3.select(svgRef.current)
+      .selectAll<SVGGElement, Node>(".nodes > g")
+      .each(function (d) {
+        const style = nodeStyles?.get(d.id);
+        const radius = style?.radius ?? baseRadius.get(d.id) ?? d.radius;
+        if (radius !== d.radius) resized = true;
+        d.radius = radius;
+        const g = d3.select(this);
+        g.select("circle")
+          .attr("r", radius)
+          .attr("fill", nodeFill(d, style))
+          .attr("stroke", nodeStroke(d, style));
+        g.select(".selection-ring").attr("r", radius + 5);
+        g.select("text").attr("dy", radius + 18);
+        const [px, py] = pinIconOffset(radius);
+        g.select(".pin-icon").attr("x", px).attr("y", py);
+      });
+    const simulation = simulationRef.current;
+    if (resized && simulation) {
+      simulation
+        .force<d3.ForceCollide<Node>>("collision")
+        ?.radius((d) => d.radius + 15);
+      if (!isFrozenRef.current) {
+        simulation.alpha(Math.max(simulation.alpha(), 0.3)).restart();
+      }
     }
+  }, [
+    nodeStylesKey,
+    bubbleId,
+    submitted,
+    graphStructure,
+    svgRef,
+    isFrozenRef,
+  ]);
 
-    function dragended(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
-      if (!event.active) simulation.alphaTarget(0);
-      event.subject.fx = null;
-      event.subject.fy = null;
-      setNodes((prev) =>
-        prev.map((n) =>
-          n.id === event.subject.id
-            ? { ...n, x: event.subject.x!, y: event.subject.y! }
-            : n
-        )
+  // Preview hulls track the layout on every tick; this only swaps which
+  // groups are outlined.
+  const previewKey = (previewGroups ?? [])
+    .map((g) => `${g.id}:${g.memberNodeIds.join(",")}`)
+    .join("|");
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const { previewGroups } = displayRef.current;
+    const paths = d3
+      .select(svgRef.current)
+      .select(".group-previews")
+      .selectAll<SVGPathElement, BubbleGroup>("path")
+      .data(previewGroups ?? [], (d) => d.id)
+      .join("path")
+      .attr("fill", (_, i) => d3.schemeTableau10[i % 10])
+      .attr("fill-opacity", 0.15)
+      .attr("stroke", (_, i) => d3.schemeTableau10[i % 10])
+      .attr("stroke-width", 2)
+      .attr("stroke-dasharray", "3 5")
+      .attr("pointer-events", "none");
+    updateHulls(paths, simulationRef.current?.nodes() ?? []);
+  }, [previewKey, bubbleId, submitted, graphStructure, svgRef]);
+
+  // Likewise for the traced path: one thick line per step of the chain.
+  const pathKey = highlightedPath?.join(",") ?? "";
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const { highlightedPath } = displayRef.current;
+    const steps = (highlightedPath ?? [])
+      .slice(1)
+      .map((id, i): [string, string] => [highlightedPath![i], id]);
+    const lines = d3
+      .select(svgRef.current)
+      .select(".path-trace")
+      .selectAll<SVGLineElement, [string, string]>("line")
+      .data(steps)
+      .join("line")
+      .attr("stroke", PATH_TRACE_COLOR)
+      .attr("stroke-width", 6)
+      .attr("stroke-linecap", "round")
+      .attr("stroke-opacity", 0.85)
+      .attr("pointer-events", "none");
+    updatePathTrace(lines, simulationRef.current?.nodes() ?? []);
+  }, [pathKey, bubbleId, submitted, graphStructure, svgRef]);
+
+  // Rings whoever is selected for bulk actions.
+  const selectionKey = selectedNodeIds ? [...selectedNodeIds].join(",") : "";
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const selectedNodeIds = selectedNodeIdsRef.current;
+    d3.select(svgRef.current)
+      .selectAll<SVGGElement, Node>(".nodes > g")
+      .select(".selection-ring")
+      .attr("r", (d) => d.radius + 5)
+      .attr("visibility", (d) =>
+        selectedNodeIds?.has(d.id) ? "visible" : "hidden"
+      );
+  }, [selectionKey, bubbleId, submitted, graphStructure, svgRef]);
+
+  // Holds pinned people in place and marks them. Unpinning lets them go
+  // unless the whole layout is frozen, which holds everyone anyway.
+  const pinKey = pinnedNodeIds ? [...pinnedNodeIds].join(",") : "";
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation || !svgRef.current) return;
+    const pinnedNodeIds = pinnedNodeIdsRef.current;
+    d3.select(svgRef.current)
+      .selectAll<SVGGElement, Node>(".nodes > g")
+      .select(".pin-icon")
+      .attr("x", (d) => pinIconOffset(d.radius)[0])
+      .attr("y", (d) => pinIconOffset(d.radius)[1])
+      .attr("visibility", (d) =>
+        pinnedNodeIds?.has(d.id) ? "visible" : "hidden"
+      );
+    applyPins(simulation, pinnedNodeIds, isFrozenRef.current);
+  }, [pinKey, bubbleId, submitted, graphStructure, svgRef, isFrozenRef]);
+
+  // Retunes the simulation for the chosen layout, so switching animates
+  // nodes from where they are to where the layout wants them. Clustering
+  // also depends on who is in which group.
+  const layoutKey =
+    layout === "clustered"
+      ? `${layout}:${groups.map((g) => g.memberNodeIds.join(",")).join("|")}`
+      : layout;
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation || !svgRef.current) return;
+
+    const apply = () =>
+      applyLayoutForces(
+        simulation,
+        layout,
+        bubbleRef.current,
+        sceneCenter(svgRef.current)
       );
-      d3.select(event.sourceEvent.target).style("cursor", "grab");
+    apply();
+
+    // A fresh scene is already running; only a switch needs to shake
+    // frozen or settled nodes loose and save where they end up.
+    const previous = previousLayoutRef.current;
+    if (previous !== null && previous !== layout) {
+      applyPins(simulation, pinnedNodeIdsRef.current, false);
+      setIsFrozen(false);
+      hasFlushedPositionsRef.current = false;
+      simulation.alpha(1).restart();
+    } else if (!isFrozenRef.current) {
+      simulation.alpha(Math.max(simulation.alpha(), 0.3)).restart();
     }
+    previousLayoutRef.current = layout;
+
+    if (layout === "force") return;
+    window.addEventListener("resize", apply);
+    return () => window.removeEventListener("resize", apply);
+  }, [
+    layout,
+    layoutKey,
+    bubbleId,
+    submitted,
+    graphStructure,
+    svgRef,
+    setIsFrozen,
+    isFrozenRef,
+  ]);
+
+  // Group forces follow memberships and nesting. Turning them on or off
+  // reheats the layout, and where people end up is saved as usual.
+  const groupForceKey = groupForces
+    ? groups
+        .map((g) => [g.id, g.parentId, g.memberNodeIds.join(",")].join(":"))
+        .join("|")
+    : "";
+  const hadGroupForcesRef = useRef(false);
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    applyGroupForces(simulation, bubbleRef.current.groups, groupForces);
+    const toggled = hadGroupForcesRef.current !== groupForces;
+    hadGroupForcesRef.current = groupForces;
+    if (isFrozenRef.current || (!groupForces && !toggled)) return;
+    hasFlushedPositionsRef.current = false;
+    simulation.alpha(Math.max(simulation.alpha(), 0.5)).restart();
+  }, [
+    groupForces,
+    groupForceKey,
+    bubbleId,
+    submitted,
+    graphStructure,
+    isFrozenRef,
+  ]);
+
+  // ── Navigation ──────────────────────────────────────────────
+
+  const zoomTo = useCallback(
+    (transform: d3.ZoomTransform | null, duration = 750) => {
+      const zoom = zoomRef.current;
+      if (!svgRef.current || !zoom || !transform) return;
+      d3.select(svgRef.current)
+        .transition()
+        .duration(duration)
+        .call(zoom.transform, transform);
+    },
+    [svgRef]
+  );
 
+  /** Pans and zooms so `nodeId` sits in the middle of the view. */
+  const focusNode = useCallback(
+    (nodeId: string) => {
+      const target = simulationRef.current
+        ?.nodes()
+        .find((n) => n.id === nodeId);
+      if (!svgRef.current || target?.x == null || target.y == null) return;
+      const { width, height } = svgRef.current.getBoundingClientRect();
+      const scale = Math.min(
+        3,
+        Math.max(d3.zoomTransform(svgRef.current).k, 1.5)
+      );
+      zoomTo(centredTransform(target.x, target.y, scale, width, height));
+    },
+    [svgRef, zoomTo]
+  );
+
+  /** Zooms so the given people, or everyone when left out, fill the view. */
+  const zoomToNodes = useCallback(
+    (nodeIds?: string[]) => {
+      const all = simulationRef.current?.nodes() ?? [];
+      const wanted = nodeIds && new Set(nodeIds);
+      const { width, height } = sceneSize(svgRef.current);
+      // Everyone can shrink to fit, but a few people shouldn't fill it.
+      zoomTo(
+        fitTransform(
+          wanted ? all.filter((n) => wanted.has(n.id)) : all,
+          width,
+          height,
+          wanted ? 2 : 1
+        )
+      );
+    },
+    [svgRef, zoomTo]
+  );
+
+  /** Pans, keeping the zoom, so scene point (x, y) is in the middle. */
+  const panTo = useCallback(
+    (x: number, y: number) => {
+      if (!svgRef.current) return;
+      const { width, height } = svgRef.current.getBoundingClientRect();
+      const { k } = d3.zoomTransform(svgRef.current);
+      zoomTo(centredTransform(x, y, k, width, height), 0);
+    },
+    [svgRef, zoomTo]
+  );
+
+  const getViewport = useCallback((): GraphViewport | null => {
+    const simulation = simulationRef.current;
+    if (!svgRef.current || !simulation) return null;
+    const { width, height } = svgRef.current.getBoundingClientRect();
+    return {
+      transform: d3.zoomTransform(svgRef.current),
+      width,
+      height,
+      nodes: simulation.nodes(),
+      links:
+        simulation.force<d3.ForceLink<Node, Link>>("link")?.links() ?? [],
+    };
+  }, [svgRef]);
+
+  /** Calls `listener` as the view changes; returns an unsubscribe. */
+  const subscribeToView = useCallback((listener: () => void) => {
+    viewListenersRef.current.add(listener);
     return () => {
-      window.removeEventListener("resize", handleResize);
-      simulationRef.current?.stop();
+      viewListenersRef.current.delete(listener);
     };
-    // Depend only on graphStructure (not nodes/links) to avoid re-running
-    // when position-only updates flush to state.
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [submitted, name, graphStructure, addLinkBetweenNodes, addNodeToGroup]);
+  }, []);
+
+  // Moves simulation nodes to positions restored outside of a drag (e.g. by
+  // undo/redo), since position-only state changes don't rebuild the scene.
+  const syncNodePositions = useCallback(
+    (positions: { id: string; x: number; y: number }[]) => {
+      const sim = simulationRef.current;
+      if (!sim) return;
+      const byId = new Map(positions.map((p) => [p.id, p]));
+      sim.nodes().forEach((n) => {
+        const p = byId.get(n.id);
+        if (!p) return;
+        n.x = p.x;
+        n.y = p.y;
+        n.vx = 0;
+        n.vy = 0;
+        if (n.fx != null) n.fx = p.x;
+        if (n.fy != null) n.fy = p.y;
+      });
+      sim.alpha(Math.max(sim.alpha(), 0.05)).restart();
+    },
+    []
+  );
 
-  return { simulationRef };
+  return {
+    simulationRef,
+    syncNodePositions,
+    focusNode,
+    zoomToNodes,
+    panTo,
+    getViewport,
+    subscribeToView,
+  };
 }
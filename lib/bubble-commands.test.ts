@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { BubbleData } from "@/types/network";
+import { createNode } from "@/lib/network-utils";
+import {
+  applyGroupOps,
+  applyLinkOps,
+  applyNodeOps,
+  invertCommand,
+  type HistoryCommand,
+} from "@/lib/history";
+import {
+  deleteGroupCommand,
+  deleteNodesCommand,
+  removeLinkCommand,
+  renameGroupCommand,
+  renameNodeCommand,
+} from "@/lib/bubble-commands";
+
+// me — sam — kim, with kim only reachable through sam.
+const bubble: BubbleData = {
+  nodes: [
+    createNode("user", "Me", "user"),
+    createNode("conn-0", "Sam", "connection"),
+    createNode("conn-1", "Kim", "connection"),
+  ],
+  links: [
+    { source: "user", target: "conn-0" },
+    { source: "conn-0", target: "conn-1" },
+  ],
+  groups: [
+    { id: "group-0", name: "Work", memberNodeIds: ["conn-0", "conn-1"] },
+    { id: "group-1", name: "Team", memberNodeIds: [], parentId: "group-0" },
+  ],
+};
+
+function apply(data: BubbleData, command: HistoryCommand | null): BubbleData {
+  if (!command) throw new Error("expected a command");
+  return {
+    nodes: applyNodeOps(data.nodes, command.ops),
+    links: applyLinkOps(data.links, command.ops),
+    groups: applyGroupOps(data.groups, command.ops),
+  };
+}
+
+describe("renameNodeCommand", () => {
+  it("renames with a trimmed name", () => {
+    const command = renameNodeCommand(bubble, "conn-0", "  Sammy ");
+    expect(command?.label).toBe("Rename Sam to Sammy");
+    expect(apply(bubble, command).nodes[1].name).toBe("Sammy");
+  });
+
+  it("skips blank and unchanged names", () => {
+    expect(renameNodeCommand(bubble, "conn-0", "   ")).toBeNull();
+    expect(renameNodeCommand(bubble, "conn-0", "Sam")).toBeNull();
+    expect(renameNodeCommand(bubble, "missing", "Sam")).toBeNull();
+  });
+});
+
+describe("deleteNodesCommand", () => {
+  it("removes the node, its links and its memberships", () => {
+    const after = apply(
+      bubble,
+      deleteNodesCommand(bubble, ["conn-1"], { dropOrphans: false })
+    );
+    expect(after.nodes.map((n) => n.id)).toEqual(["user", "conn-0"]);
+    expect(after.links).toEqual([{ source: "user", target: "conn-0" }]);
+    expect(after.groups[0].memberNodeIds).toEqual(["conn-0"]);
+  });
+
+  it("takes people left unreachable along when asked", () => {
+    const command = deleteNodesCommand(bubble, ["conn-0"], {
+      dropOrphans: true,
+    });
+    expect(command?.label).toBe("Delete 2 nodes");
+    expect(apply(bubble, command).nodes.map((n) => n.id)).toEqual(["user"]);
+  });
+
+  it("never deletes the user", () => {
+    expect(
+      deleteNodesCommand(bubble, ["user"], { dropOrphans: true })
+    ).toBeNull();
+  });
+
+  it("is undone exactly", () => {
+    const command = deleteNodesCommand(bubble, ["conn-0"], {
+      dropOrphans: true,
+    })!;
+    const undone = apply(apply(bubble, command), invertCommand(command));
+    expect(undone.nodes).toEqual(expect.arrayContaining(bubble.nodes));
+    expect(undone.links).toEqual(expect.arrayContaining(bubble.links));
+    expect(undone.groups).toEqual(bubble.groups);
+  });
+});
+
+describe("removeLinkCommand", () => {
+  it("names both ends in its label", () => {
+    const command = removeLinkCommand(bubble, bubble.links[1]);
+    expect(command?.label).toBe("Disconnect Sam and Kim");
+    expect(apply(bubble, command).links).toHaveLength(1);
+  });
+
+  it("skips links that aren't there", () => {
+    expect(
+      removeLinkCommand(bubble, { source: "user", target: "conn-1" })
+    ).toBeNull();
+  });
+});
+
+describe("group commands", () => {
+  it("renames a group", () => {
+    const after = apply(bubble, renameGroupCommand(bubble, "group-0", "Job"));
+    expect(after.groups[0].name).toBe("Job");
+  });
+
+  it("moves sub-groups up when their parent is deleted", () => {
+    const after = apply(bubble, deleteGroupCommand(bubble, "group-0"));
+    expect(after.groups).toEqual([
+      { id: "group-1", name: "Team", memberNodeIds: [], parentId: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,539 @@
+import type {
+  NodeData,
+  NodeProfile,
+  LinkData,
+  LinkAttributes,
+  BubbleGroup,
+  BubbleData,
+  GroupOutline,
+  NodeMove,
+} from "@/types/network";
+import { linkKey, type HistoryCommand, type HistoryOp } from "@/lib/history";
+import { findOrphanedNodeIds, normalizeProfile } from "@/lib/network-utils";
+import { normalizeLinkAttributes } from "@/lib/relationships";
+import { possibleParents } from "@/lib/groups";
+
+// Builders for undoable edits. Each one inspects the current bubble and
+// returns the command to execute, or null when the edit would be a no-op.
+
+function groupMembershipOp(
+  group: BubbleGroup,
+  memberNodeIds: string[]
+): HistoryOp {
+  return {
+    type: "updateGroups",
+    changes: [
+      {
+        id: group.id,
+        before: { memberNodeIds: group.memberNodeIds },
+        after: { memberNodeIds },
+      },
+    ],
+  };
+}
+
+export function addConnectionCommand(
+  fromNodeId: string,
+  node: NodeData
+): HistoryCommand {
+  return {
+    label: `Add ${node.name}`,
+    ops: [
+      { type: "addNodes", nodes: [node] },
+      { type: "addLinks", links: [{ source: fromNodeId, target: node.id }] },
+    ],
+  };
+}
+
+export function addLinkCommand(
+  { links }: BubbleData,
+  sourceId: string,
+  targetId: string
+): HistoryCommand | null {
+  if (sourceId === targetId) return null;
+  const exists = links.some(
+    (l) =>
+      (l.source === sourceId && l.target === targetId) ||
+      (l.source === targetId && l.target === sourceId)
+  );
+  if (exists) return null;
+  return {
+    label: "Connect nodes",
+    ops: [
+      { type: "addLinks", links: [{ source: sourceId, target: targetId }] },
+    ],
+  };
+}
+
+export function removeLinkCommand(
+  { nodes, links }: BubbleData,
+  link: LinkData
+): HistoryCommand | null {
+  const existing = links.find(
+    (l) => l.source === link.source && l.target === link.target
+  );
+  if (!existing) return null;
+  const nameOf = (id: string) => nodes.find((n) => n.id === id)?.name ?? id;
+  return {
+    label: `Disconnect ${nameOf(link.source)} and ${nameOf(link.target)}`,
+    ops: [{ type: "removeLinks", links: [existing] }],
+  };
+}
+
+const LINK_ATTRIBUTE_KEYS = [
+  "type",
+  "customType",
+  "strength",
+  "direction",
+  "label",
+] as const;
+
+/** Replaces a link's relationship details with `attributes`. */
+export function updateLinkCommand(
+  { nodes, links }: BubbleData,
+  link: LinkData,
+  attributes: LinkAttributes
+): HistoryCommand | null {
+  const existing = links.find((l) => linkKey(l) === linkKey(link));
+  if (!existing) return null;
+  const next = normalizeLinkAttributes(attributes);
+  const before: Partial<LinkData> = {};
+  const after: Partial<LinkData> = {};
+  LINK_ATTRIBUTE_KEYS.forEach((key) => {
+    if (existing[key] === next[key]) return;
+    Object.assign(before, { [key]: existing[key] });
+    Object.assign(after, { [key]: next[key] });
+  });
+  if (Object.keys(after).length === 0) return null;
+  const nameOf = (id: string) => nodes.find((n) => n.id === id)?.name ?? id;
+  return {
+    label: `Edit link between ${nameOf(link.source)} and ${nameOf(link.target)}`,
+    ops: [
+      {
+        type: "updateLinks",
+        changes: [{ id: linkKey(existing), before, after }],
+      },
+    ],
+  };
+}
+
+/** Connects each of `nodeIds` to `targetId`, skipping existing links. */
+export function linkNodesToCommand(
+  { nodes, links }: BubbleData,
+  nodeIds: string[],
+  targetId: string
+): HistoryCommand | null {
+  const target = nodes.find((n) => n.id === targetId);
+  if (!target) return null;
+  const linked = new Set(
+    links
+      .filter((l) => l.source === targetId || l.target === targetId)
+      .map((l) => (l.source === targetId ? l.target : l.source))
+  );
+  const sourceIds = [...new Set(nodeIds)].filter(
+    (id) => id !== targetId && !linked.has(id)
+  );
+  if (sourceIds.length === 0) return null;
+  return {
+    label:
+      sourceIds.length === 1
+        ? "Connect nodes"
+        : `Connect ${sourceIds.length} nodes to ${target.name}`,
+    ops: [
+      {
+        type: "addLinks",
+        links: sourceIds.map((id) => ({ source: id, target: targetId })),
+      },
+    ],
+  };
+}
+
+export function moveNodeCommand(
+  { nodes }: BubbleData,
+  nodeId: string,
+  from: { x: number; y: number },
+  to: { x: number; y: number }
+): HistoryCommand | null {
+  if (from.x === to.x && from.y === to.y) return null;
+  const node = nodes.find((n) => n.id === nodeId);
+  return {
+    label: `Move ${node?.name ?? "node"}`,
+    ops: [
+      {
+        type: "updateNodes",
+        changes: [{ id: nodeId, before: from, after: to }],
+      },
+    ],
+  };
+}
+
+export function renameNodeCommand(
+  { nodes }: BubbleData,
+  nodeId: string,
+  name: string
+): HistoryCommand | null {
+  const trimmed = name.trim();
+  const node = nodes.find((n) => n.id === nodeId);
+  if (!node || !trimmed || trimmed === node.name) return null;
+  return {
+    label: `Rename ${node.name} to ${trimmed}`,
+    ops: [
+      {
+        type: "updateNodes",
+        changes: [
+          { id: nodeId, before: { name: node.name }, after: { name: trimmed } },
+        ],
+      },
+    ],
+  };
+}
+
+export function updateProfileCommand(
+  { nodes }: BubbleData,
+  nodeId: string,
+  profile: NodeProfile
+): HistoryCommand | null {
+  const node = nodes.find((n) => n.id === nodeId);
+  if (!node) return null;
+  const next = normalizeProfile(profile);
+  if (JSON.stringify(next) === JSON.stringify(node.profile)) return null;
+  return {
+    label: `Edit ${node.name}'s profile`,
+    ops: [
+      {
+        type: "updateNodes",
+        changes: [
+          {
+            id: nodeId,
+            before: { profile: node.profile },
+            after: { profile: next },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/** Moves several nodes in one step, e.g. a dragged selection. */
+export function moveNodesCommand(
+  bubble: BubbleData,
+  moves: NodeMove[]
+): HistoryCommand | null {
+  const changes = moves
+    .filter((m) => m.from.x !== m.to.x || m.from.y !== m.to.y)
+    .map((m) => ({ id: m.id, before: m.from, after: m.to }));
+  if (changes.length === 0) return null;
+  if (changes.length === 1) {
+    const [{ id, before, after }] = changes;
+    return moveNodeCommand(bubble, id, before, after);
+  }
+  return {
+    label: `Move ${changes.length} nodes`,
+    ops: [{ type: "updateNodes", changes }],
+  };
+}
+
+/** Pins people in place, or lets them go, skipping any already so. */
+export function setNodesPinnedCommand(
+  { nodes }: BubbleData,
+  nodeIds: string[],
+  pinned: boolean
+): HistoryCommand | null {
+  const ids = new Set(nodeIds);
+  const changed = nodes.filter(
+    (n) => ids.has(n.id) && (n.pinned ?? false) !== pinned
+  );
+  if (changed.length === 0) return null;
+  const verb = pinned ? "Pin" : "Unpin";
+  return {
+    label:
+      changed.length === 1
+        ? `${verb} ${changed[0].name}`
+        : `${verb} ${changed.length} nodes`,
+    ops: [
+      {
+        type: "updateNodes",
+        changes: changed.map((n) => ({
+          id: n.id,
+          before: { pinned: n.pinned },
+          after: { pinned: pinned || undefined },
+        })),
+      },
+    ],
+  };
+}
+
+/**
+ * Connection nodes that deleting `nodeIds` would cut off from the user node.
+ * Nodes that were already disconnected beforehand are not counted.
+ */
+export function findNewlyOrphanedNodeIds(
+  { nodes, links }: BubbleData,
+  nodeIds: string[]
+): string[] {
+  const alreadyOrphaned = new Set(findOrphanedNodeIds(nodes, links, []));
+  return findOrphanedNodeIds(nodes, links, nodeIds).filter(
+    (id) => !alreadyOrphaned.has(id)
+  );
+}
+
+export function deleteNodesCommand(
+  bubble: BubbleData,
+  nodeIds: string[],
+  { dropOrphans }: { dropOrphans: boolean }
+): HistoryCommand | null {
+  const { nodes, links, groups } = bubble;
+  const requested = nodes.filter(
+    (n) => nodeIds.includes(n.id) && n.type !== "user"
+  );
+  if (requested.length === 0) return null;
+
+  const orphanIds = dropOrphans
+    ? findNewlyOrphanedNodeIds(
+        bubble,
+        requested.map((n) => n.id)
+      )
+    : [];
+  const removedIds = new Set([...requested.map((n) => n.id), ...orphanIds]);
+  const removedNodes = nodes.filter((n) => removedIds.has(n.id));
+  const removedLinks = links.filter(
+    (l) => removedIds.has(l.source) || removedIds.has(l.target)
+  );
+  const membershipOps = groups
+    .filter((g) => g.memberNodeIds.some((id) => removedIds.has(id)))
+    .map((g) =>
+      groupMembershipOp(
+        g,
+        g.memberNodeIds.filter((id) => !removedIds.has(id))
+      )
+    );
+
+  const ops: HistoryOp[] = [];
+  if (removedLinks.length > 0) {
+    ops.push({ type: "removeLinks", links: removedLinks });
+  }
+  ops.push(...membershipOps);
+  ops.push({ type: "removeNodes", nodes: removedNodes });
+
+  return {
+    label:
+      removedNodes.length === 1
+        ? `Delete ${removedNodes[0].name}`
+        : `Delete ${removedNodes.length} nodes`,
+    ops,
+  };
+}
+
+export function addGroupCommand(group: BubbleGroup): HistoryCommand {
+  return {
+    label: `Add group ${group.name}`,
+    ops: [{ type: "addGroups", groups: [group] }],
+  };
+}
+
+export function addGroupsCommand(
+  groups: BubbleGroup[]
+): HistoryCommand | null {
+  if (groups.length === 0) return null;
+  if (groups.length === 1) return addGroupCommand(groups[0]);
+  return {
+    label: `Add ${groups.length} groups`,
+    ops: [{ type: "addGroups", groups }],
+  };
+}
+
+export function renameGroupCommand(
+  { groups }: BubbleData,
+  groupId: string,
+  name: string
+): HistoryCommand | null {
+  const trimmed = name.trim();
+  const group = groups.find((g) => g.id === groupId);
+  if (!group || !trimmed || trimmed === group.name) return null;
+  return {
+    label: `Rename group ${group.name} to ${trimmed}`,
+    ops: [
+      {
+        type: "updateGroups",
+        changes: [
+          {
+            id: groupId,
+            before: { name: group.name },
+            after: { name: trimmed },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+const GROUP_SETTING_KEYS = ["color", "outline", "parentId"] as const;
+
+/** A group's look and where it sits; unset keys are left as they are. */
+export interface GroupSettings {
+  color?: string;
+  outline?: GroupOutline;
+  /** Null takes the group out to the top level. */
+  parentId?: string | null;
+}
+
+/** Restyles or moves a group; nesting it inside itself is refused. */
+export function updateGroupCommand(
+  { groups }: BubbleData,
+  groupId: string,
+  settings: GroupSettings
+): HistoryCommand | null {
+  const group = groups.find((g) => g.id === groupId);
+  if (!group) return null;
+  const parentId = settings.parentId;
+  if (
+    parentId &&
+    !possibleParents(group, groups).some((g) => g.id === parentId)
+  ) {
+    return null;
+  }
+  const before: Partial<BubbleGroup> = {};
+  const after: Partial<BubbleGroup> = {};
+  GROUP_SETTING_KEYS.forEach((key) => {
+    if (settings[key] === undefined) return;
+    const next = settings[key] ?? undefined;
+    if (group[key] === next) return;
+    Object.assign(before, { [key]: group[key] });
+    Object.assign(after, { [key]: next });
+  });
+  if (Object.keys(after).length === 0) return null;
+  return {
+    label:
+      "parentId" in after
+        ? `Move group ${group.name}`
+        : `Restyle group ${group.name}`,
+    ops: [{ type: "updateGroups", changes: [{ id: groupId, before, after }] }],
+  };
+}
+
+/** Sub-groups of a deleted group move up to take its place. */
+export function deleteGroupCommand(
+  { groups }: BubbleData,
+  groupId: string
+): HistoryCommand | null {
+  const group = groups.find((g) => g.id === groupId);
+  if (!group) return null;
+  const children = groups.filter((g) => g.parentId === groupId);
+  const ops: HistoryOp[] = [];
+  if (children.length > 0) {
+    ops.push({
+      type: "updateGroups",
+      changes: children.map((c) => ({
+        id: c.id,
+        before: { parentId: groupId },
+        after: { parentId: group.parentId },
+      })),
+    });
+  }
+  ops.push({ type: "removeGroups", groups: [group] });
+  return { label: `Delete group ${group.name}`, ops };
+}
+
+export function addNodesToGroupCommand(
+  { groups }: BubbleData,
+  groupId: string,
+  nodeIds: string[]
+): HistoryCommand | null {
+  const group = groups.find((g) => g.id === groupId);
+  if (!group) return null;
+  const added = [...new Set(nodeIds)].filter(
+    (id) => !group.memberNodeIds.includes(id)
+  );
+  if (added.length === 0) return null;
+  return {
+    label:
+      added.length === 1
+        ? `Add to ${group.name}`
+        : `Add ${added.length} to ${group.name}`,
+    ops: [groupMembershipOp(group, [...group.memberNodeIds, ...added])],
+  };
+}
+
+export function addToGroupCommand(
+  bubble: BubbleData,
+  groupId: string,
+  nodeId: string
+): HistoryCommand | null {
+  return addNodesToGroupCommand(bubble, groupId, [nodeId]);
+}
+
+export function removeNodesFromGroupCommand(
+  { groups }: BubbleData,
+  groupId: string,
+  nodeIds: string[]
+): HistoryCommand | null {
+  const group = groups.find((g) => g.id === groupId);
+  if (!group) return null;
+  const removed = group.memberNodeIds.filter((id) => nodeIds.includes(id));
+  if (removed.length === 0) return null;
+  return {
+    label:
+      removed.length === 1
+        ? `Remove from ${group.name}`
+        : `Remove ${removed.length} from ${group.name}`,
+    ops: [
+      groupMembershipOp(
+        group,
+        group.memberNodeIds.filter((id) => !removed.includes(id))
+      ),
+    ],
+  };
+}
+
+export function removeFromGroupCommand(
+  bubble: BubbleData,
+  groupId: string,
+  nodeId: string
+): HistoryCommand | null {
+  return removeNodesFromGroupCommand(bubble, groupId, [nodeId]);
+}
+
+/** The people, links or groups in `from` that `to` lacks or has changed. */
+function entitiesNotIn<T>(from: T[], to: T[], keyOf: (item: T) => string) {
+  const kept = new Map(to.map((item) => [keyOf(item), JSON.stringify(item)]));
+  return from.filter((item) => kept.get(keyOf(item)) !== JSON.stringify(item));
+}
+
+/**
+ * Brings the bubble back to an earlier version. Only what differs is
+ * swapped out, so undoing it puts back exactly what was there.
+ */
+export function restoreSnapshotCommand(
+  current: BubbleData,
+  snapshot: BubbleData,
+  savedAt: number
+): HistoryCommand | null {
+  const byId = (item: { id: string }) => item.id;
+  const removedLinks = entitiesNotIn(current.links, snapshot.links, linkKey);
+  const removedGroups = entitiesNotIn(current.groups, snapshot.groups, byId);
+  const removedNodes = entitiesNotIn(current.nodes, snapshot.nodes, byId);
+  const addedNodes = entitiesNotIn(snapshot.nodes, current.nodes, byId);
+  const addedLinks = entitiesNotIn(snapshot.links, current.links, linkKey);
+  const addedGroups = entitiesNotIn(snapshot.groups, current.groups, byId);
+  // Removals first, so a changed person is taken out before going back in.
+  const ops: HistoryOp[] = [];
+  if (removedLinks.length > 0) {
+    ops.push({ type: "removeLinks", links: removedLinks });
+  }
+  if (removedGroups.length > 0) {
+    ops.push({ type: "removeGroups", groups: removedGroups });
+  }
+  if (removedNodes.length > 0) {
+    ops.push({ type: "removeNodes", nodes: removedNodes });
+  }
+  if (addedNodes.length > 0) ops.push({ type: "addNodes", nodes: addedNodes });
+  if (addedLinks.length > 0) ops.push({ type: "addLinks", links: addedLinks });
+  if (addedGroups.length > 0) {
+    ops.push({ type: "addGroups", groups: addedGroups });
+  }
+  if (ops.length === 0) return null;
+  return {
+    label: `Restore version from ${new Date(savedAt).toLocaleString()}`,
+    ops,
+  };
+}
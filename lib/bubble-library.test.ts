@@ -0,0 +1,175 @@
+// @vitest-environment jsdom
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { STORAGE_KEY, createNode } from "@/lib/network-utils";
+import { initStorage, readItem, writeItem } from "@/lib/storage";
+import {
+  bubbleRevision,
+  createBubble,
+  deleteBubble,
+  getActiveBubbleId,
+  bubbleStorageKey,
+  listBubbles,
+  listSnapshots,
+  migrateLegacyBubble,
+  readBubbleFromStorage,
+  renameBubble,
+  saveBubbleToStorage,
+  setActiveBubbleId,
+} from "@/lib/bubble-library";
+
+const LIBRARY_KEY = `${STORAGE_KEY}-library`;
+
+describe("bubble library", () => {
+  beforeAll(() => initStorage());
+
+  it("keeps a bubble another tab added when this tab writes the index", () => {
+    const mine = createBubble("Mine", "Alex");
+    // What this tab last read, before another tab added a bubble.
+    const staleIndex = readItem(LIBRARY_KEY);
+    const theirs = createBubble("Theirs", "Sam");
+    if (staleIndex) writeItem(LIBRARY_KEY, staleIndex);
+    setActiveBubbleId(mine.id);
+
+    const ids = listBubbles().map((b) => b.id);
+    expect(ids).toContain(mine.id);
+    expect(ids).toContain(theirs.id);
+    expect(getActiveBubbleId()).toBe(mine.id);
+  });
+
+  it("bumps only the saved bubble's revision", () => {
+    const a = createBubble("A", "Alex");
+    const b = createBubble("B", "Sam");
+    const nodes = [
+      createNode("user", "Alex", "user"),
+      createNode("conn-1", "Sam", "connection"),
+    ];
+    const links = [{ source: "user", target: "conn-1" }];
+    const saved = saveBubbleToStorage(
+      a.id,
+      "Alex",
+      nodes,
+      links,
+      [],
+      "force",
+      false,
+      0
+    );
+    expect(saved).toEqual({ ok: true, value: 1 });
+    renameBubble(b.id, "B renamed");
+
+    expect(bubbleRevision(a.id)).toBe(1);
+    expect(bubbleRevision(b.id)).toBe(0);
+    expect(listBubbles().find((s) => s.id === a.id)?.title).toBe("A");
+  });
+
+  it("won't save a bubble that has been deleted", () => {
+    const { id } = createBubble("Gone", "Alex");
+    deleteBubble(id);
+    const saved = saveBubbleToStorage(
+      id,
+      "Alex",
+      [createNode("user", "Alex", "user")],
+      [],
+      [],
+      "force",
+      false,
+      0
+    );
+    expect(saved.ok).toBe(false);
+    if (saved.ok) return;
+    expect(saved.error.kind).toBe("missing");
+    expect(readItem(bubbleStorageKey(id))).toBeNull();
+  });
+
+  it("moves summaries out of an index that still holds them", () => {
+    const summary = {
+      id: "bubble-old",
+      title: "Old",
+      ownerName: "Alex",
+      nodeCount: 1,
+      createdAt: 1,
+      updatedAt: 1,
+      revision: 4,
+    };
+    writeItem(
+      LIBRARY_KEY,
+      JSON.stringify({ activeBubbleId: summary.id, bubbles: [summary] })
+    );
+
+    expect(listBubbles()).toContainEqual(summary);
+    expect(bubbleRevision(summary.id)).toBe(4);
+    expect(getActiveBubbleId()).toBe(summary.id);
+    expect(JSON.parse(readItem(LIBRARY_KEY)!)).toEqual({
+      activeBubbleId: summary.id,
+    });
+  });
+
+  it("says why a stored bubble can't be loaded", () => {
+    const { id } = createBubble("Broken", "Alex");
+    expect(readBubbleFromStorage(id).ok).toBe(true);
+
+    writeItem(bubbleStorageKey(id), JSON.stringify({ name: "Alex" }));
+    const invalid = readBubbleFromStorage(id);
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) expect(invalid.errors.length).toBeGreaterThan(0);
+
+    writeItem(bubbleStorageKey(id), "{");
+    expect(readBubbleFromStorage(id)).toEqual({
+      ok: false,
+      errors: [{ path: "(root)", message: "isn't valid JSON" }],
+    });
+  });
+
+  it("moves a single-bubble save into the library", () => {
+    const before = listBubbles().length;
+    const owner = createNode("user", "Robin", "user");
+    writeItem(
+      STORAGE_KEY,
+      JSON.stringify({ name: "Robin", nodes: [owner], links: [] })
+    );
+    migrateLegacyBubble();
+
+    expect(listBubbles()).toHaveLength(before + 1);
+    const titles = listBubbles().map((b) => b.title);
+    expect(titles).toContain("Robin's bubble");
+    expect(readItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it("keeps a single-bubble save it can't read", () => {
+    const before = listBubbles().length;
+    const broken = JSON.stringify({ name: "Robin", nodes: "oops" });
+    writeItem(STORAGE_KEY, broken);
+    migrateLegacyBubble();
+
+    expect(listBubbles()).toHaveLength(before);
+    expect(readItem(STORAGE_KEY)).toBe(broken);
+  });
+
+  it("drops the oldest versions once they outgrow the budget", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const { id } = createBubble("Big", "Alex");
+      const owner = createNode("user", "Alex", "user");
+      for (let i = 0; i < 6; i++) {
+        // Far enough apart that every save keeps a version.
+        vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+        const people = Array.from({ length: 1500 }, (_, j) =>
+          createNode(`conn-${j}`, `${i}-${j} ${"x".repeat(60)}`, "connection")
+        );
+        const nodes = [owner, ...people];
+        expect(
+          saveBubbleToStorage(id, "Alex", nodes, [], [], "force", false, i)
+        ).toEqual({ ok: true, value: i + 1 });
+      }
+
+      const snapshots = listSnapshots(id);
+      expect(snapshots.length).toBeGreaterThan(0);
+      expect(snapshots.length).toBeLessThan(5);
+      expect(snapshots[0].nodeCount).toBe(1501);
+      const stored = readItem(`${STORAGE_KEY}-snapshots-${id}`);
+      expect(stored!.length).toBeLessThanOrEqual(500_000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,374 @@
+import type {
+  NodeData,
+  LinkData,
+  BubbleGroup,
+  BubbleSnapshot,
+  BubbleSummary,
+  LayoutKind,
+  SavedBubble,
+} from "@/types/network";
+import {
+  STORAGE_KEY,
+  createNode,
+  parseSavedBubble,
+  readLoadedBubble,
+  toSavedBubble,
+  type LoadedBubble,
+} from "@/lib/network-utils";
+import {
+  LEGACY_HISTORY_STORAGE_KEY,
+  historyStorageKey,
+  clearHistoryFromStorage,
+} from "@/lib/history";
+import {
+  createBubbleFile,
+  type BubbleFile,
+  type SchemaResult,
+} from "@/lib/bubble-schema";
+import {
+  listItemKeys,
+  readItem,
+  removeItem,
+  storageError,
+  writeItem,
+  type StorageResult,
+} from "@/lib/storage";
+
+const LIBRARY_KEY = `${STORAGE_KEY}-library`;
+const SUMMARY_KEY_PREFIX = `${STORAGE_KEY}-summary-`;
+
+interface LibraryIndex {
+  activeBubbleId: string | null;
+}
+
+const EMPTY_INDEX: LibraryIndex = { activeBubbleId: null };
+
+/** Keep a version at most this often while a bubble is being edited. */
+const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+/** Versions kept per bubble; the oldest go first. */
+const SNAPSHOT_LIMIT = 30;
+/**
+ * Characters of versions kept per bubble, however many that is. A tenth of
+ * what localStorage gives a site, so a big bubble's history can't crowd out
+ * the bubbles themselves.
+ */
+const SNAPSHOT_BUDGET = 500_000;
+
+export function bubbleStorageKey(bubbleId: string): string {
+  return `${STORAGE_KEY}-bubble-${bubbleId}`;
+}
+
+// Each bubble's summary has a key of its own rather than a place in the
+// index, so tabs saving different bubbles at once never overwrite each
+// other's titles or revisions.
+function summaryStorageKey(bubbleId: string): string {
+  return `${SUMMARY_KEY_PREFIX}${bubbleId}`;
+}
+
+function snapshotStorageKey(bubbleId: string): string {
+  return `${STORAGE_KEY}-snapshots-${bubbleId}`;
+}
+
+function newBubbleId(): string {
+  return `bubble-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
+
+function readIndex(): LibraryIndex {
+  try {
+    const raw = readItem(LIBRARY_KEY);
+    if (!raw) return EMPTY_INDEX;
+    const index: LibraryIndex = JSON.parse(raw);
+    return { activeBubbleId: index?.activeBubbleId ?? null };
+  } catch {
+    return EMPTY_INDEX;
+  }
+}
+
+function writeIndex(index: LibraryIndex): StorageResult<void> {
+  return writeItem(LIBRARY_KEY, JSON.stringify(index));
+}
+
+function readSummary(bubbleId: string): BubbleSummary | null {
+  try {
+    const raw = readItem(summaryStorageKey(bubbleId));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeSummary(summary: BubbleSummary): StorageResult<void> {
+  return writeItem(summaryStorageKey(summary.id), JSON.stringify(summary));
+}
+
+/** Summaries used to live in the index; moves any still there. */
+function moveSummariesOutOfIndex(): void {
+  try {
+    const raw = readItem(LIBRARY_KEY);
+    const bubbles: unknown = raw ? JSON.parse(raw)?.bubbles : null;
+    if (!Array.isArray(bubbles)) return;
+    bubbles.forEach((summary: BubbleSummary) => {
+      if (!readSummary(summary.id)) writeSummary(summary);
+    });
+    writeIndex(readIndex());
+  } catch {
+    // An unreadable index has nothing worth moving.
+  }
+}
+
+function readSummaries(): BubbleSummary[] {
+  moveSummariesOutOfIndex();
+  return listItemKeys(SUMMARY_KEY_PREFIX).flatMap((key) => {
+    const summary = readSummary(key.slice(SUMMARY_KEY_PREFIX.length));
+    return summary ? [summary] : [];
+  });
+}
+
+function writeBubble(bubbleId: string, data: SavedBubble): StorageResult<void> {
+  return writeItem(bubbleStorageKey(bubbleId), JSON.stringify(data));
+}
+
+function readBubble(bubbleId: string): SavedBubble | null {
+  try {
+    const raw = readItem(bubbleStorageKey(bubbleId));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Bubbles in the library, most recently modified first. */
+export function listBubbles(): BubbleSummary[] {
+  return readSummaries().sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getActiveBubbleId(): string | null {
+  moveSummariesOutOfIndex();
+  const { activeBubbleId } = readIndex();
+  return activeBubbleId && readSummary(activeBubbleId) ? activeBubbleId : null;
+}
+
+export function setActiveBubbleId(bubbleId: string | null): void {
+  writeIndex({ activeBubbleId: bubbleId });
+}
+
+export function loadBubbleFromStorage(bubbleId: string): LoadedBubble | null {
+  const result = readBubbleFromStorage(bubbleId);
+  return result.ok ? result.value : null;
+}
+
+/** Like `loadBubbleFromStorage`, but says why a bubble won't load. */
+export function readBubbleFromStorage(
+  bubbleId: string
+): SchemaResult<LoadedBubble> {
+  const raw = readItem(bubbleStorageKey(bubbleId));
+  if (raw === null) {
+    return {
+      ok: false,
+      errors: [{ path: "(root)", message: "is no longer stored" }],
+    };
+  }
+  try {
+    return readLoadedBubble(JSON.parse(raw));
+  } catch {
+    return {
+      ok: false,
+      errors: [{ path: "(root)", message: "isn't valid JSON" }],
+    };
+  }
+}
+
+/** How many times the bubble has been saved; 0 if never, or if it's gone. */
+export function bubbleRevision(bubbleId: string): number {
+  return readSummary(bubbleId)?.revision ?? 0;
+}
+
+/**
+ * Saves the bubble over `baseRevision`, the revision the caller last loaded
+ * or saved, and returns the new revision. If another tab has saved since,
+ * nothing is written and the result is a "conflict" error; if the bubble
+ * has been deleted, it's a "missing" one.
+ */
+export function saveBubbleToStorage(
+  bubbleId: string,
+  name: string,
+  nodes: NodeData[],
+  links: LinkData[],
+  groups: BubbleGroup[],
+  layout: LayoutKind,
+  frozen: boolean,
+  baseRevision: number
+): StorageResult<number> {
+  const summary = readSummary(bubbleId);
+  if (!summary) return { ok: false, error: storageError("missing") };
+  const revision = summary.revision ?? 0;
+  const data = toSavedBubble(name, nodes, links, groups, layout, frozen);
+  const previous = readBubble(bubbleId);
+  // Opening a bubble writes it straight back; that isn't a modification.
+  if (JSON.stringify(data) === JSON.stringify(previous)) {
+    return { ok: true, value: revision };
+  }
+  if (revision !== baseRevision) {
+    return { ok: false, error: storageError("conflict") };
+  }
+  if (previous) keepSnapshot(bubbleId, previous, summary.updatedAt);
+  const written = writeBubble(bubbleId, data);
+  if (!written.ok) return written;
+  const summarised = writeSummary({
+    ...summary,
+    ownerName: name.trim(),
+    nodeCount: nodes.length,
+    updatedAt: Date.now(),
+    revision: revision + 1,
+  });
+  if (!summarised.ok) return summarised;
+  return { ok: true, value: revision + 1 };
+}
+
+function readSnapshots(bubbleId: string): BubbleSnapshot[] {
+  try {
+    const raw = readItem(snapshotStorageKey(bubbleId));
+    const snapshots = raw ? JSON.parse(raw) : [];
+    return Array.isArray(snapshots) ? snapshots : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Keeps the version about to be overwritten, unless one was kept less than
+ * `SNAPSHOT_INTERVAL_MS` before it. The oldest go once there are more than
+ * `SNAPSHOT_LIMIT` or they outgrow `SNAPSHOT_BUDGET`.
+ */
+function keepSnapshot(
+  bubbleId: string,
+  bubble: SavedBubble,
+  savedAt: number
+): void {
+  const snapshots = readSnapshots(bubbleId);
+  const latest = snapshots[snapshots.length - 1];
+  if (latest && savedAt - latest.savedAt < SNAPSHOT_INTERVAL_MS) return;
+  const snapshot: BubbleSnapshot = {
+    id: `snapshot-${savedAt.toString(36)}`,
+    savedAt,
+    nodeCount: bubble.nodes.length,
+    linkCount: bubble.links.length,
+    bubble,
+  };
+  let kept = [...snapshots, snapshot].slice(-SNAPSHOT_LIMIT);
+  let json = JSON.stringify(kept);
+  while (kept.length > 0 && json.length > SNAPSHOT_BUDGET) {
+    kept = kept.slice(1);
+    json = JSON.stringify(kept);
+  }
+  writeItem(snapshotStorageKey(bubbleId), json);
+}
+
+/** Earlier versions of the bubble, newest first. */
+export function listSnapshots(bubbleId: string): BubbleSnapshot[] {
+  return readSnapshots(bubbleId).reverse();
+}
+
+export function loadSnapshot(
+  bubbleId: string,
+  snapshotId: string
+): LoadedBubble | null {
+  const snapshot = readSnapshots(bubbleId).find((s) => s.id === snapshotId);
+  return snapshot ? parseSavedBubble(snapshot.bubble) : null;
+}
+
+function addToLibrary(title: string, data: SavedBubble): BubbleSummary {
+  const bubbleId = newBubbleId();
+  const now = Date.now();
+  const summary: BubbleSummary = {
+    id: bubbleId,
+    title: title.trim(),
+    ownerName: data.name,
+    nodeCount: data.nodes.length,
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeBubble(bubbleId, data);
+  writeSummary(summary);
+  return summary;
+}
+
+/** Creates a bubble holding just its owner's node. */
+export function createBubble(title: string, ownerName: string): BubbleSummary {
+  const owner = createNode("user", ownerName.trim(), "user");
+  return addToLibrary(title, toSavedBubble(ownerName, [owner], [], []));
+}
+
+export function duplicateBubble(bubbleId: string): BubbleSummary | null {
+  const source = readSummary(bubbleId);
+  const data = readBubble(bubbleId);
+  if (!source || !data) return null;
+  return addToLibrary(`${source.title} (copy)`, data);
+}
+
+export function renameBubble(bubbleId: string, title: string): void {
+  const trimmed = title.trim();
+  if (!trimmed) return;
+  const summary = readSummary(bubbleId);
+  if (!summary) return;
+  writeSummary({ ...summary, title: trimmed, updatedAt: Date.now() });
+}
+
+export function deleteBubble(bubbleId: string): void {
+  if (readIndex().activeBubbleId === bubbleId) setActiveBubbleId(null);
+  removeItem(summaryStorageKey(bubbleId));
+  removeItem(bubbleStorageKey(bubbleId));
+  removeItem(snapshotStorageKey(bubbleId));
+  clearHistoryFromStorage(bubbleId);
+}
+
+/**
+ * Imports the bubble the single-bubble version of the app kept under
+ * `STORAGE_KEY`, along with its undo history, as the active bubble.
+ */
+export function migrateLegacyBubble(): void {
+  try {
+    const raw = readItem(STORAGE_KEY);
+    if (!raw) return;
+    const saved: SavedBubble = JSON.parse(raw);
+    // A bubble that won't load stays where it is rather than being lost.
+    if (!parseSavedBubble(saved)) return;
+    const summary = addToLibrary(`${saved.name.trim()}'s bubble`, saved);
+    const history = readItem(LEGACY_HISTORY_STORAGE_KEY);
+    if (history) writeItem(historyStorageKey(summary.id), history);
+    setActiveBubbleId(summary.id);
+    removeItem(STORAGE_KEY);
+    removeItem(LEGACY_HISTORY_STORAGE_KEY);
+  } catch {
+    // leave the legacy bubble in place and try again next load
+  }
+}
+
+/** Adds an imported bubble to the library under a title of its own. */
+export function importBubble(title: string, data: SavedBubble): BubbleSummary {
+  const existingTitles = new Set(readSummaries().map((b) => b.title));
+  let uniqueTitle = title.trim();
+  for (let n = 2; existingTitles.has(uniqueTitle); n++) {
+    uniqueTitle = `${title.trim()} (${n})`;
+  }
+  return addToLibrary(uniqueTitle, data);
+}
+
+export function exportBubbleFile(bubbleId: string): BubbleFile | null {
+  const summary = readSummary(bubbleId);
+  const loaded = loadBubbleFromStorage(bubbleId);
+  if (!summary || !loaded) return null;
+  return createBubbleFile(
+    summary.title,
+    toSavedBubble(
+      loaded.name,
+      loaded.nodes,
+      loaded.links,
+      loaded.groups,
+      loaded.layout,
+      loaded.frozen
+    )
+  );
+}
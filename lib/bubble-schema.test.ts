@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUBBLE_SCHEMA_VERSION,
+  createBubbleFile,
+  parseBubbleFile,
+  readSavedBubble,
+} from "@/lib/bubble-schema";
+import { createNode, toSavedBubble } from "@/lib/network-utils";
+
+const me = createNode("user", "Alex", "user");
+const sam = createNode("conn-0", "Sam", "connection");
+
+function errorPaths(data: unknown): string[] {
+  const result = readSavedBubble(data);
+  return result.ok ? [] : result.errors.map((e) => e.path);
+}
+
+describe("readSavedBubble", () => {
+  it("accepts a current bubble", () => {
+    const bubble = toSavedBubble(
+      "Alex",
+      [me, sam],
+      [{ source: "user", target: "conn-0", strength: 3 }],
+      [{ id: "group-0", name: "Work", memberNodeIds: ["conn-0"] }]
+    );
+    expect(readSavedBubble(bubble)).toEqual({ ok: true, value: bubble });
+  });
+
+  it("moves v0 group nodes into groups", () => {
+    const result = readSavedBubble({
+      name: "Alex",
+      nodes: [me, sam, { id: "g", name: "Work", type: "group", radius: 30 }],
+      links: [
+        { source: "user", target: "conn-0" },
+        { source: "g", target: "conn-0" },
+      ],
+      groups: [{ id: "group-0", name: "Work", memberNodeIds: ["conn-0", "g"] }],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.version).toBe(BUBBLE_SCHEMA_VERSION);
+    expect(result.value.nodes.map((n) => n.id)).toEqual(["user", "conn-0"]);
+    expect(result.value.links).toEqual([{ source: "user", target: "conn-0" }]);
+    expect(result.value.groups?.[0].memberNodeIds).toEqual(["conn-0"]);
+  });
+
+  it("refuses versions newer than it knows", () => {
+    expect(
+      errorPaths({ version: BUBBLE_SCHEMA_VERSION + 1, name: "Alex" })
+    ).toEqual(["version"]);
+  });
+
+  it("points at each bad field", () => {
+    expect(
+      errorPaths({
+        version: 1,
+        name: " ",
+        nodes: [me, { ...sam, radius: 0 }, { ...sam, type: "user" }],
+        links: [{ source: "user", target: "nobody", strength: 9 }],
+        groups: [
+          { id: "a", name: "A", memberNodeIds: [], parentId: "b" },
+          { id: "b", name: "B", memberNodeIds: [], parentId: "a" },
+        ],
+      })
+    ).toEqual([
+      "name",
+      "nodes[1].radius",
+      "nodes[2].id",
+      "nodes",
+      "links[0].target",
+      "links[0].strength",
+      "groups[0].parentId",
+      "groups[1].parentId",
+    ]);
+  });
+});
+
+describe("parseBubbleFile", () => {
+  const bubble = toSavedBubble("Alex", [me], [], []);
+
+  it("reads back an exported file", () => {
+    const text = JSON.stringify(createBubbleFile("Friends", bubble));
+    expect(parseBubbleFile(text)).toEqual({
+      ok: true,
+      value: { title: "Friends", bubble },
+    });
+  });
+
+  it("titles a bare bubble after its owner", () => {
+    const result = parseBubbleFile(JSON.stringify(bubble));
+    expect(result.ok && result.value.title).toBe("Alex's bubble");
+  });
+
+  it("reports errors inside the file against the bubble", () => {
+    const text = JSON.stringify(
+      createBubbleFile("Friends", { ...bubble, nodes: [] })
+    );
+    expect(parseBubbleFile(text)).toEqual({
+      ok: false,
+      errors: [{ path: "bubble.nodes", message: "must contain the user node" }],
+    });
+  });
+
+  it("rejects text that isn't JSON", () => {
+    expect(parseBubbleFile("{").ok).toBe(false);
+  });
+});
@@ -0,0 +1,491 @@
+import type { SavedBubble } from "@/types/network";
+import {
+  RELATIONSHIP_TYPES,
+  LINK_DIRECTIONS,
+  MIN_STRENGTH,
+  MAX_STRENGTH,
+} from "@/lib/relationships";
+import { LAYOUT_KINDS } from "@/lib/layouts";
+import { GROUP_OUTLINES } from "@/lib/groups";
+
+export const BUBBLE_SCHEMA_VERSION = 1;
+export const BUBBLE_FILE_FORMAT = "do-you-know-my-bubble";
+
+/** What "Export JSON" writes: a saved bubble plus what it was called. */
+export interface BubbleFile {
+  format: typeof BUBBLE_FILE_FORMAT;
+  exportedAt: string;
+  title: string;
+  bubble: SavedBubble;
+}
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: SchemaError[] };
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ── Migrations ─────────────────────────────────────────────────
+// MIGRATIONS[n] upgrades data at version n to version n + 1. Data written
+// before versioning existed has no `version` field and counts as version 0.
+
+const MIGRATIONS: Record<number, (data: RawRecord) => RawRecord> = {
+  // v0 → v1: groups used to be stored as "group" nodes linked to their
+  // members. Those nodes and their links are dropped; `groups` replaced them.
+  0: (data) => {
+    const { nodes, links, groups } = data;
+    if (!Array.isArray(nodes) || !Array.isArray(links)) return data;
+    const groupNodeIds = new Set(
+      nodes
+        .filter((n) => isRecord(n) && n.type === "group")
+        .map((n) => (n as RawRecord).id)
+    );
+    return {
+      ...data,
+      groups: Array.isArray(groups)
+        ? groups.map((g) =>
+            isRecord(g) && Array.isArray(g.memberNodeIds)
+              ? {
+                  ...g,
+                  memberNodeIds: g.memberNodeIds.filter(
+                    (id) => !groupNodeIds.has(id)
+                  ),
+                }
+              : g
+          )
+        : groups,
+      nodes: nodes.filter((n) => !(isRecord(n) && n.type === "group")),
+      links: links.filter(
+        (l) =>
+          !(
+            isRecord(l) &&
+            (groupNodeIds.has(l.source) || groupNodeIds.has(l.target))
+          )
+      ),
+    };
+  },
+};
+
+export function migrateBubble(data: RawRecord): SchemaResult<RawRecord> {
+  const version = data.version ?? 0;
+  if (!Number.isInteger(version) || (version as number) < 0) {
+    return {
+      ok: false,
+      errors: [{ path: "version", message: "must be a non-negative integer" }],
+    };
+  }
+  if ((version as number) > BUBBLE_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        {
+          path: "version",
+          message: `version ${version} is newer than this app supports (${BUBBLE_SCHEMA_VERSION})`,
+        },
+      ],
+    };
+  }
+  let migrated = data;
+  for (let v = version as number; v < BUBBLE_SCHEMA_VERSION; v++) {
+    migrated = { ...MIGRATIONS[v](migrated), version: v + 1 };
+  }
+  return { ok: true, value: migrated };
+}
+
+// ── Validation ─────────────────────────────────────────────────
+
+function checkString(
+  errors: SchemaError[],
+  path: string,
+  value: unknown
+): void {
+  if (typeof value !== "string") {
+    errors.push({ path, message: "must be a string" });
+  } else if (!value.trim()) {
+    errors.push({ path, message: "must not be empty" });
+  }
+}
+
+function checkOptionalNumber(
+  errors: SchemaError[],
+  path: string,
+  value: unknown
+): void {
+  if (value != null && (typeof value !== "number" || !isFinite(value))) {
+    errors.push({ path, message: "must be a finite number" });
+  }
+}
+
+function checkOptionalBoolean(
+  errors: SchemaError[],
+  path: string,
+  value: unknown
+): void {
+  if (value != null && typeof value !== "boolean") {
+    errors.push({ path, message: "must be true or false" });
+  }
+}
+
+const PROFILE_TEXT_FIELDS = [
+  "notes",
+  "email",
+  "phone",
+  "organisation",
+  "role",
+  "howWeMet",
+] as const;
+
+function checkProfile(
+  errors: SchemaError[],
+  path: string,
+  profile: unknown
+): void {
+  if (profile == null) return;
+  if (!isRecord(profile)) {
+    errors.push({ path, message: "must be an object" });
+    return;
+  }
+  PROFILE_TEXT_FIELDS.forEach((field) => {
+    if (profile[field] != null && typeof profile[field] !== "string") {
+      errors.push({ path: `${path}.${field}`, message: "must be a string" });
+    }
+  });
+  if (profile.tags != null) {
+    if (!Array.isArray(profile.tags)) {
+      errors.push({ path: `${path}.tags`, message: "must be an array" });
+    } else {
+      profile.tags.forEach((tag, i) => {
+        if (typeof tag !== "string") {
+          errors.push({
+            path: `${path}.tags[${i}]`,
+            message: "must be a string",
+          });
+        }
+      });
+    }
+  }
+  if (
+    profile.dateMet != null &&
+    (typeof profile.dateMet !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(profile.dateMet))
+  ) {
+    errors.push({
+      path: `${path}.dateMet`,
+      message: "must be a date in YYYY-MM-DD form",
+    });
+  }
+}
+
+function checkOneOf(
+  errors: SchemaError[],
+  path: string,
+  value: unknown,
+  allowed: readonly string[]
+): void {
+  if (value != null && !allowed.includes(value as string)) {
+    errors.push({
+      path,
+      message: `must be one of ${allowed.map((a) => `"${a}"`).join(", ")}`,
+    });
+  }
+}
+
+/** Parents must be other known groups, without nesting a group in itself. */
+function checkGroupParents(
+  errors: SchemaError[],
+  groups: unknown[],
+  groupIds: Set<string>
+): void {
+  const parentOf = new Map<string, string>();
+  groups.forEach((group) => {
+    if (
+      isRecord(group) &&
+      typeof group.id === "string" &&
+      typeof group.parentId === "string"
+    ) {
+      parentOf.set(group.id, group.parentId);
+    }
+  });
+  groups.forEach((group, i) => {
+    if (!isRecord(group) || group.parentId == null) return;
+    const path = `groups[${i}].parentId`;
+    if (typeof group.parentId !== "string" || !groupIds.has(group.parentId)) {
+      errors.push({
+        path,
+        message: `refers to unknown group ${JSON.stringify(group.parentId)}`,
+      });
+      return;
+    }
+    const seen = new Set<string>();
+    let id: string | undefined = group.id as string;
+    while (id != null && !seen.has(id)) {
+      seen.add(id);
+      id = parentOf.get(id);
+    }
+    if (id === group.id) {
+      errors.push({ path, message: "nests the group inside itself" });
+    }
+  });
+}
+
+function checkLinkAttributes(
+  errors: SchemaError[],
+  path: string,
+  link: RawRecord
+): void {
+  checkOneOf(errors, `${path}.type`, link.type, RELATIONSHIP_TYPES);
+  checkOneOf(errors, `${path}.direction`, link.direction, LINK_DIRECTIONS);
+  (["customType", "label"] as const).forEach((field) => {
+    if (link[field] != null && typeof link[field] !== "string") {
+      errors.push({ path: `${path}.${field}`, message: "must be a string" });
+    }
+  });
+  if (
+    link.strength != null &&
+    (!Number.isInteger(link.strength) ||
+      (link.strength as number) < MIN_STRENGTH ||
+      (link.strength as number) > MAX_STRENGTH)
+  ) {
+    errors.push({
+      path: `${path}.strength`,
+      message: `must be a whole number from ${MIN_STRENGTH} to ${MAX_STRENGTH}`,
+    });
+  }
+}
+
+/** Checks a bubble at the current schema version, field by field. */
+export function validateBubble(data: RawRecord): SchemaResult<SavedBubble> {
+  const errors: SchemaError[] = [];
+
+  checkString(errors, "name", data.name);
+
+  const nodeIds = new Set<string>();
+  if (!Array.isArray(data.nodes)) {
+    errors.push({ path: "nodes", message: "must be an array" });
+  } else {
+    if (data.nodes.length === 0) {
+      errors.push({ path: "nodes", message: "must contain the user node" });
+    }
+    let userCount = 0;
+    data.nodes.forEach((node, i) => {
+      const path = `nodes[${i}]`;
+      if (!isRecord(node)) {
+        errors.push({ path, message: "must be an object" });
+        return;
+      }
+      checkString(errors, `${path}.id`, node.id);
+      if (typeof node.id === "string") {
+        if (nodeIds.has(node.id)) {
+          errors.push({
+            path: `${path}.id`,
+            message: `duplicate node id "${node.id}"`,
+          });
+        }
+        nodeIds.add(node.id);
+      }
+      checkString(errors, `${path}.name`, node.name);
+      if (node.type === "user") {
+        userCount++;
+      } else if (node.type !== "connection") {
+        errors.push({
+          path: `${path}.type`,
+          message: 'must be "user" or "connection"',
+        });
+      }
+      if (typeof node.radius !== "number" || !(node.radius > 0)) {
+        errors.push({
+          path: `${path}.radius`,
+          message: "must be a positive number",
+        });
+      }
+      checkOptionalNumber(errors, `${path}.x`, node.x);
+      checkOptionalNumber(errors, `${path}.y`, node.y);
+      checkOptionalBoolean(errors, `${path}.pinned`, node.pinned);
+      checkProfile(errors, `${path}.profile`, node.profile);
+    });
+    if (data.nodes.length > 0 && userCount !== 1) {
+      errors.push({
+        path: "nodes",
+        message: `must contain exactly one "user" node (found ${userCount})`,
+      });
+    }
+  }
+
+  if (!Array.isArray(data.links)) {
+    errors.push({ path: "links", message: "must be an array" });
+  } else {
+    data.links.forEach((link, i) => {
+      const path = `links[${i}]`;
+      if (!isRecord(link)) {
+        errors.push({ path, message: "must be an object" });
+        return;
+      }
+      (["source", "target"] as const).forEach((end) => {
+        checkString(errors, `${path}.${end}`, link[end]);
+        if (typeof link[end] === "string" && !nodeIds.has(link[end])) {
+          errors.push({
+            path: `${path}.${end}`,
+            message: `refers to unknown node "${link[end]}"`,
+          });
+        }
+      });
+      checkLinkAttributes(errors, path, link);
+    });
+  }
+
+  if (data.groups != null) {
+    if (!Array.isArray(data.groups)) {
+      errors.push({ path: "groups", message: "must be an array" });
+    } else {
+      const groupIds = new Set<string>();
+      data.groups.forEach((group, i) => {
+        const path = `groups[${i}]`;
+        if (!isRecord(group)) {
+          errors.push({ path, message: "must be an object" });
+          return;
+        }
+        checkString(errors, `${path}.id`, group.id);
+        if (typeof group.id === "string") {
+          if (groupIds.has(group.id)) {
+            errors.push({
+              path: `${path}.id`,
+              message: `duplicate group id "${group.id}"`,
+            });
+          }
+          groupIds.add(group.id);
+        }
+        checkString(errors, `${path}.name`, group.name);
+        if (!Array.isArray(group.memberNodeIds)) {
+          errors.push({
+            path: `${path}.memberNodeIds`,
+            message: "must be an array",
+          });
+        } else {
+          group.memberNodeIds.forEach((id, j) => {
+            if (typeof id !== "string" || !nodeIds.has(id)) {
+              errors.push({
+                path: `${path}.memberNodeIds[${j}]`,
+                message: `refers to unknown node ${JSON.stringify(id)}`,
+              });
+            }
+          });
+        }
+        if (
+          group.color != null &&
+          (typeof group.color !== "string" ||
+            !/^#[0-9a-f]{6}$/i.test(group.color))
+        ) {
+          errors.push({
+            path: `${path}.color`,
+            message: "must be a colour in #rrggbb form",
+          });
+        }
+        checkOneOf(errors, `${path}.outline`, group.outline, GROUP_OUTLINES);
+      });
+      checkGroupParents(errors, data.groups, groupIds);
+    }
+  }
+
+  checkOneOf(errors, "layout", data.layout, LAYOUT_KINDS);
+  checkOptionalBoolean(errors, "frozen", data.frozen);
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: data as unknown as SavedBubble };
+}
+
+/** Brings saved data of any supported version up to date and validates it. */
+export function readSavedBubble(data: unknown): SchemaResult<SavedBubble> {
+  if (!isRecord(data)) {
+    return {
+      ok: false,
+      errors: [{ path: "(root)", message: "must be an object" }],
+    };
+  }
+  const migrated = migrateBubble(data);
+  if (!migrated.ok) return migrated;
+  return validateBubble(migrated.value);
+}
+
+// ── Files ──────────────────────────────────────────────────────
+
+export function createBubbleFile(
+  title: string,
+  bubble: SavedBubble
+): BubbleFile {
+  return {
+    format: BUBBLE_FILE_FORMAT,
+    exportedAt: new Date().toISOString(),
+    title,
+    bubble,
+  };
+}
+
+/**
+ * Parses an exported bubble file. A bare saved bubble (as found in
+ * localStorage) is accepted too, titled after its owner.
+ */
+export function parseBubbleFile(
+  text: string
+): SchemaResult<{ title: string; bubble: SavedBubble }> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return {
+      ok: false,
+      errors: [{ path: "(root)", message: "is not valid JSON" }],
+    };
+  }
+  if (!isRecord(data)) {
+    return {
+      ok: false,
+      errors: [{ path: "(root)", message: "must be an object" }],
+    };
+  }
+
+  if (data.format === undefined) {
+    const result = readSavedBubble(data);
+    if (!result.ok) return result;
+    return {
+      ok: true,
+      value: { title: `${result.value.name}'s bubble`, bubble: result.value },
+    };
+  }
+
+  if (data.format !== BUBBLE_FILE_FORMAT) {
+    return {
+      ok: false,
+      errors: [
+        { path: "format", message: `must be "${BUBBLE_FILE_FORMAT}"` },
+      ],
+    };
+  }
+  const result = readSavedBubble(data.bubble);
+  if (!result.ok) {
+    return {
+      ok: false,
+      errors: result.errors.map((e) => ({
+        path: e.path === "(root)" ? "bubble" : `bubble.${e.path}`,
+        message: e.message,
+      })),
+    };
+  }
+  const title =
+    typeof data.title === "string" && data.title.trim()
+      ? data.title.trim()
+      : `${result.value.name}'s bubble`;
+  return { ok: true, value: { title, bubble: result.value } };
+}
+
+export function formatSchemaError({ path, message }: SchemaError): string {
+  return `${path}: ${message}`;
+}
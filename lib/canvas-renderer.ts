@@ -0,0 +1,471 @@
+import * as d3 from "d3";
+import type { BubbleGroup, Link, Node, NodeStyle } from "@/types/network";
+import {
+  DIMMED_OPACITY,
+  FOCUS_RING_COLOR,
+  LASSO_FILL,
+  PATH_TRACE_COLOR,
+  PIN_ICON,
+  PIN_ICON_SIZE,
+  SELECTION_COLOR,
+  endpointId,
+  hullLabelPosition,
+  hullPath,
+  linkEndpoints,
+  memberPoints,
+  nodeFill,
+  nodeStroke,
+  pinIconOffset,
+} from "@/lib/graph-scene";
+import { linkColor, linkDash, linkStrokeWidth } from "@/lib/relationships";
+import type { GroupHull } from "@/lib/groups";
+
+/** Everything the canvas renderer draws, in simulation coordinates. */
+export interface CanvasScene {
+  nodes: Node[];
+  nodesById: Map<string, Node>;
+  links: Link[];
+  /** Outlines of the visible groups, parents first. */
+  groups: GroupHull[];
+  previewGroups: BubbleGroup[];
+  nodeStyles: Map<string, NodeStyle> | null;
+  /** Nodes to keep at full opacity, or null when nothing is dimmed. */
+  litNodeIds: Set<string> | null;
+  /** A chain of node ids to trace, e.g. a found path. */
+  pathNodeIds: string[] | null;
+  hoveredNodeId: string | null;
+  /** Node with keyboard focus, ringed so it can be found. */
+  focusedNodeId: string | null;
+  /** People picked for bulk actions. */
+  selectedNodeIds: Set<string> | null;
+  /** People held in place, marked with a pin. */
+  pinnedNodeIds: Set<string> | null;
+  /** A selection loop being drawn, in scene coordinates. */
+  lasso: [number, number][] | null;
+  /** A long press being dragged from someone towards whoever to link. */
+  connectPreview: { fromId: string; x: number; y: number } | null;
+}
+
+export function emptyCanvasScene(): CanvasScene {
+  return {
+    nodes: [],
+    nodesById: new Map(),
+    links: [],
+    groups: [],
+    previewGroups: [],
+    nodeStyles: null,
+    litNodeIds: null,
+    pathNodeIds: null,
+    hoveredNodeId: null,
+    focusedNodeId: null,
+    selectedNodeIds: null,
+    pinnedNodeIds: null,
+    lasso: null,
+    connectPreview: null,
+  };
+}
+
+export interface CanvasViewport {
+  /** Size in CSS pixels. */
+  width: number;
+  height: number;
+  pixelRatio: number;
+  fontFamily: string;
+  /** Draw every label regardless of zoom, e.g. for image export. */
+  allLabels?: boolean;
+}
+
+// Level of detail: names are dropped once nodes are too small on screen to
+// read them against, and link decorations once lines are hairlines.
+const LABEL_MIN_SCREEN_RADIUS = 9;
+const LINK_LABEL_MIN_SCALE = 0.6;
+const ARROW_MIN_SCALE = 0.35;
+const ARROW_LENGTH = 12;
+/** Extra room around the viewport so half-visible nodes still get drawn. */
+const CULL_MARGIN = 60;
+/** How far outside a circle or off a line a pointer still counts as on it. */
+const HIT_SLOP = 4;
+const LINK_HIT_TOLERANCE = 6;
+
+function dashArray(dash: string | null): number[] {
+  return dash ? dash.split(/[\s,]+/).map(Number) : [];
+}
+
+function drawArrow(
+  ctx: CanvasRenderingContext2D,
+  [x1, y1, x2, y2]: [number, number, number, number],
+  atEnd: boolean
+): void {
+  const [tipX, tipY, fromX, fromY] = atEnd
+    ? [x2, y2, x1, y1]
+    : [x1, y1, x2, y2];
+  const angle = Math.atan2(tipY - fromY, tipX - fromX);
+  ctx.save();
+  ctx.translate(tipX, tipY);
+  ctx.rotate(angle);
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(-ARROW_LENGTH, -ARROW_LENGTH / 2);
+  ctx.lineTo(-ARROW_LENGTH, ARROW_LENGTH / 2);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
+
+/**
+ * Draws the whole scene under the given pan and zoom. Only what falls in
+ * the viewport is drawn, and detail is shed as the view zooms out, so a
+ * frame stays cheap with thousands of people in it.
+ */
+export function drawCanvasScene(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasScene,
+  transform: d3.ZoomTransform,
+  viewport: CanvasViewport
+): void {
+  const { width, height, pixelRatio, fontFamily, allLabels } = viewport;
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  ctx.translate(transform.x, transform.y);
+  ctx.scale(transform.k, transform.k);
+
+  const [minX, minY] = transform.invert([-CULL_MARGIN, -CULL_MARGIN]);
+  const [maxX, maxY] = transform.invert([
+    width + CULL_MARGIN,
+    height + CULL_MARGIN,
+  ]);
+  const inView = (n: Node) =>
+    n.x != null &&
+    n.y != null &&
+    n.x + n.radius >= minX &&
+    n.x - n.radius <= maxX &&
+    n.y + n.radius >= minY &&
+    n.y - n.radius <= maxY;
+  const { litNodeIds } = scene;
+  const isLit = (id: string) => !litNodeIds || litNodeIds.has(id);
+
+  // Group outlines with their names, then suggested groups, behind
+  // everything else.
+  ctx.font = `600 12px ${fontFamily}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "alphabetic";
+  scene.groups.forEach((g) => {
+    const points = memberPoints(g.memberNodeIds, scene.nodesById);
+    const path = hullPath(points, g.padding);
+    if (!path) return;
+    const outline = new Path2D(path);
+    ctx.globalAlpha = g.memberNodeIds.some(isLit) ? 1 : DIMMED_OPACITY;
+    ctx.lineWidth = 2;
+    ctx.setLineDash(dashArray(g.dash));
+    ctx.fillStyle = g.fill;
+    ctx.strokeStyle = g.color;
+    ctx.fill(outline);
+    ctx.stroke(outline);
+    const [x, y] = hullLabelPosition(points, g.padding)!;
+    ctx.lineWidth = 3;
+    ctx.setLineDash([]);
+    ctx.strokeStyle = "white";
+    ctx.fillStyle = d3.color(g.color)!.darker(1).formatHex();
+    ctx.strokeText(g.name, x, y);
+    ctx.fillText(g.name, x, y);
+  });
+  ctx.globalAlpha = 1;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([3, 5]);
+  scene.previewGroups.forEach((g, i) => {
+    const path = hullPath(memberPoints(g.memberNodeIds, scene.nodesById));
+    if (!path) return;
+    const outline = new Path2D(path);
+    const color = d3.schemeTableau10[i % 10];
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    ctx.globalAlpha = 0.15;
+    ctx.fill(outline);
+    ctx.globalAlpha = 1;
+    ctx.stroke(outline);
+  });
+
+  // Links, skipping any whose bounding box misses the viewport.
+  const showArrows = transform.k >= ARROW_MIN_SCALE;
+  const visibleLinks = scene.links.filter((d) => {
+    const s = d.source as Node;
+    const t = d.target as Node;
+    return (
+      s.x != null &&
+      t.x != null &&
+      Math.max(s.x, t.x!) >= minX &&
+      Math.min(s.x, t.x!) <= maxX &&
+      Math.max(s.y!, t.y!) >= minY &&
+      Math.min(s.y!, t.y!) <= maxY
+    );
+  });
+  visibleLinks.forEach((d) => {
+    const color = linkColor(d);
+    const ends = linkEndpoints(d);
+    const lit =
+      isLit(endpointId(d.source)) && isLit(endpointId(d.target));
+    ctx.globalAlpha = (d.type ? 0.8 : 0.6) * (lit ? 1 : DIMMED_OPACITY);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = linkStrokeWidth(d);
+    ctx.setLineDash(dashArray(linkDash(d)));
+    ctx.beginPath();
+    ctx.moveTo(ends[0], ends[1]);
+    ctx.lineTo(ends[2], ends[3]);
+    ctx.stroke();
+    if (d.direction && showArrows) {
+      ctx.fillStyle = color;
+      drawArrow(ctx, ends, d.direction === "forward");
+    }
+  });
+  ctx.setLineDash([]);
+
+  const path = scene.pathNodeIds;
+  if (path && path.length > 1) {
+    ctx.globalAlpha = 0.85;
+    ctx.strokeStyle = PATH_TRACE_COLOR;
+    ctx.lineWidth = 6;
+    ctx.lineCap = "round";
+    ctx.beginPath();
+    path.forEach((id, i) => {
+      const n = scene.nodesById.get(id);
+      if (!n || n.x == null || n.y == null) return;
+      if (i === 0) ctx.moveTo(n.x, n.y);
+      else ctx.lineTo(n.x, n.y);
+    });
+    ctx.stroke();
+    ctx.lineCap = "butt";
+  }
+
+  const preview = scene.connectPreview;
+  const previewFrom = preview && scene.nodesById.get(preview.fromId);
+  if (preview && previewFrom?.x != null && previewFrom.y != null) {
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = PATH_TRACE_COLOR;
+    ctx.lineWidth = 3;
+    ctx.lineCap = "round";
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(previewFrom.x, previewFrom.y);
+    ctx.lineTo(preview.x, preview.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.lineCap = "butt";
+  }
+
+  if (allLabels || transform.k >= LINK_LABEL_MIN_SCALE) {
+    ctx.font = `500 11px ${fontFamily}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = "#f0f9ff";
+    visibleLinks.forEach((d) => {
+      if (!d.label) return;
+      const s = d.source as Node;
+      const t = d.target as Node;
+      const x = (s.x! + t.x!) / 2;
+      const y = (s.y! + t.y!) / 2;
+      ctx.globalAlpha =
+        isLit(endpointId(d.source)) && isLit(endpointId(d.target))
+          ? 1
+          : DIMMED_OPACITY;
+      ctx.fillStyle = linkColor(d);
+      ctx.strokeText(d.label, x, y);
+      ctx.fillText(d.label, x, y);
+    });
+  }
+
+  // Nodes, then their names on top so neighbours don't cover them.
+  const visibleNodes = scene.nodes.filter(inView);
+  visibleNodes.forEach((d) => {
+    const style = scene.nodeStyles?.get(d.id);
+    const hovered = d.id === scene.hoveredNodeId;
+    ctx.globalAlpha = isLit(d.id) ? 1 : DIMMED_OPACITY;
+    ctx.fillStyle = nodeFill(d, style);
+    ctx.strokeStyle = nodeStroke(d, style);
+    ctx.lineWidth = hovered ? 4 : 3;
+    ctx.beginPath();
+    ctx.arc(d.x!, d.y!, d.radius * (hovered ? 1.2 : 1), 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.stroke();
+  });
+
+  const pinned = scene.pinnedNodeIds;
+  if (pinned && pinned.size > 0) {
+    ctx.font = `${PIN_ICON_SIZE}px ${fontFamily}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    visibleNodes.forEach((d) => {
+      if (!pinned.has(d.id)) return;
+      ctx.globalAlpha = isLit(d.id) ? 1 : DIMMED_OPACITY;
+      const [dx, dy] = pinIconOffset(d.radius);
+      ctx.fillText(PIN_ICON, d.x! + dx, d.y! + dy);
+    });
+  }
+
+  const selected = scene.selectedNodeIds;
+  if (selected && selected.size > 0) {
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    visibleNodes.forEach((d) => {
+      if (!selected.has(d.id)) return;
+      ctx.moveTo(d.x! + d.radius + 5, d.y!);
+      ctx.arc(d.x!, d.y!, d.radius + 5, 0, 2 * Math.PI);
+    });
+    ctx.stroke();
+  }
+
+  const focused = scene.focusedNodeId
+    ? scene.nodesById.get(scene.focusedNodeId)
+    : undefined;
+  if (focused && inView(focused)) {
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = FOCUS_RING_COLOR;
+    ctx.lineWidth = 3;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.arc(focused.x!, focused.y!, focused.radius + 7, 0, 2 * Math.PI);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  ctx.textAlign = "center";
+  ctx.textBaseline = "alphabetic";
+  ctx.fillStyle = "#0c4a6e";
+  visibleNodes.forEach((d) => {
+    const hovered =
+      d.id === scene.hoveredNodeId || d.id === scene.focusedNodeId;
+    if (
+      !allLabels &&
+      !hovered &&
+      d.type !== "user" &&
+      d.radius * transform.k < LABEL_MIN_SCREEN_RADIUS
+    ) {
+      return;
+    }
+    const size = (d.type === "user" ? 14 : 12) + (hovered ? 2 : 0);
+    ctx.globalAlpha = isLit(d.id) ? 1 : DIMMED_OPACITY;
+    ctx.font = `${d.type === "user" ? "bold" : "500"} ${size}px ${fontFamily}`;
+    ctx.fillText(d.name, d.x!, d.y! + d.radius + 18);
+  });
+  ctx.globalAlpha = 1;
+
+  const lasso = scene.lasso;
+  if (lasso && lasso.length > 1) {
+    ctx.beginPath();
+    lasso.forEach(([x, y], i) => {
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.closePath();
+    ctx.fillStyle = LASSO_FILL;
+    ctx.fill();
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.lineWidth = 1.5 / transform.k;
+    ctx.setLineDash([4 / transform.k, 3 / transform.k]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+}
+
+/** The node under a point, if any; `tree` indexes the scene's nodes. */
+export function findNodeAt(
+  tree: d3.Quadtree<Node>,
+  x: number,
+  y: number,
+  maxRadius: number
+): Node | undefined {
+  const nearest = tree.find(x, y, maxRadius + HIT_SLOP);
+  if (!nearest) return undefined;
+  const distance = Math.hypot(nearest.x! - x, nearest.y! - y);
+  return distance <= nearest.radius + HIT_SLOP ? nearest : undefined;
+}
+
+/**
+ * The link passing closest to a point, within a few screen pixels at the
+ * given zoom scale.
+ */
+export function findLinkAt(
+  links: Link[],
+  x: number,
+  y: number,
+  scale: number
+): Link | undefined {
+  const tolerance = LINK_HIT_TOLERANCE / scale;
+  let best: Link | undefined;
+  let bestDistance = tolerance;
+  for (const d of links) {
+    const s = d.source as Node;
+    const t = d.target as Node;
+    if (s.x == null || t.x == null) continue;
+    const dx = t.x - s.x;
+    const dy = t.y! - s.y!;
+    const lengthSquared = dx * dx + dy * dy;
+    const along =
+      lengthSquared > 0
+        ? Math.max(
+            0,
+            Math.min(1, ((x - s.x) * dx + (y - s.y!) * dy) / lengthSquared)
+          )
+        : 0;
+    const distance = Math.hypot(
+      x - (s.x + along * dx),
+      y - (s.y! + along * dy)
+    );
+    if (distance <= bestDistance) {
+      best = d;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Renders the scene to a PNG cropped to the graph, `scale` pixels per
+ * unit, with every label drawn. The canvas counterpart of rasterizing the
+ * SVG export.
+ */
+export function renderCanvasSceneToPng(
+  scene: CanvasScene,
+  scale: number,
+  fontFamily: string,
+  padding = 24
+): Promise<Blob | null> {
+  const placed = scene.nodes.filter((n) => n.x != null && n.y != null);
+  if (placed.length === 0) return Promise.resolve(null);
+  const x0 = d3.min(placed, (n) => n.x! - n.radius)! - padding;
+  const y0 = d3.min(placed, (n) => n.y! - n.radius)! - padding;
+  // Names hang below their node.
+  const x1 = d3.max(placed, (n) => n.x! + n.radius)! + padding;
+  const y1 = d3.max(placed, (n) => n.y! + n.radius + 24)! + padding;
+  const width = Math.ceil(x1 - x0);
+  const height = Math.ceil(y1 - y0);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    return Promise.reject(new Error("Canvas 2D context is unavailable"));
+  }
+  drawCanvasScene(
+    ctx,
+    {
+      ...scene,
+      hoveredNodeId: null,
+      focusedNodeId: null,
+      selectedNodeIds: null,
+      lasso: null,
+      connectPreview: null,
+    },
+    d3.zoomIdentity.translate(-x0, -y0),
+    { width, height, pixelRatio: scale, fontFamily, allLabels: true }
+  );
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error("Could not encode PNG"));
+    }, "image/png")
+  );
+}
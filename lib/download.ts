@@ -0,0 +1,26 @@
+/** Saves `content` as a file through a temporary download link. */
+export function downloadFile(
+  filename: string,
+  content: BlobPart,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Turns a bubble title into a safe file name stem. */
+export function toFileStem(title: string): string {
+  return (
+    title
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "bubble"
+  );
+}
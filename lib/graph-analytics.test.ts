@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import type { LinkData, NodeData } from "@/types/network";
+import {
+  EXACT_ANALYTICS_LIMIT,
+  analyzeNetwork,
+  detectCommunities,
+  findCutElements,
+} from "@/lib/graph-analytics";
+
+function person(id: string): NodeData {
+  return { id, name: id, type: "connection", radius: 10 };
+}
+
+function chain(length: number): { nodes: NodeData[]; links: LinkData[] } {
+  const nodes = Array.from({ length }, (_, i) => person(`n${i}`));
+  const links = nodes
+    .slice(1)
+    .map((n, i) => ({ source: nodes[i].id, target: n.id }));
+  return { nodes, links };
+}
+
+describe("findCutElements", () => {
+  it("handles a chain far longer than the call stack allows", () => {
+    const { nodes, links } = chain(10_000);
+    const { bridges, articulationPoints } = findCutElements(nodes, links);
+    expect(bridges).toHaveLength(links.length);
+    expect(articulationPoints).toHaveLength(nodes.length - 2);
+    expect(articulationPoints).not.toContain("n0");
+    expect(articulationPoints).not.toContain("n9999");
+  });
+
+  it("finds no bridges in a cycle", () => {
+    const { nodes, links } = chain(5);
+    links.push({ source: "n4", target: "n0" });
+    const { bridges, articulationPoints } = findCutElements(nodes, links);
+    expect(bridges).toEqual([]);
+    expect(articulationPoints).toEqual([]);
+  });
+
+  it("treats a doubled link as no bridge", () => {
+    const nodes = [person("a"), person("b"), person("c")];
+    const links = [
+      { source: "a", target: "b" },
+      { source: "b", target: "a" },
+      { source: "b", target: "c" },
+    ];
+    const { bridges, articulationPoints } = findCutElements(nodes, links);
+    expect(bridges).toEqual([{ source: "b", target: "c" }]);
+    expect(articulationPoints).toEqual(["b"]);
+  });
+
+  it("marks a hub joining two groups", () => {
+    const nodes = ["hub", "a1", "a2", "b1", "b2"].map(person);
+    const links = [
+      { source: "hub", target: "a1" },
+      { source: "a1", target: "a2" },
+      { source: "a2", target: "hub" },
+      { source: "hub", target: "b1" },
+      { source: "b1", target: "b2" },
+      { source: "b2", target: "hub" },
+    ];
+    const { bridges, articulationPoints } = findCutElements(nodes, links);
+    expect(bridges).toEqual([]);
+    expect(articulationPoints).toEqual(["hub"]);
+  });
+});
+
+describe("analyzeNetwork", () => {
+  it("gives exact centralities for small networks", () => {
+    const { nodes, links } = chain(3);
+    const analytics = analyzeNetwork(nodes, links);
+    expect(analytics.approximate).toBe(false);
+    expect(analytics.metrics.get("n1")!.betweenness).toBe(1);
+    expect(analytics.metrics.get("n0")!.betweenness).toBe(0);
+    expect(analytics.metrics.get("n1")!.closeness).toBe(1);
+    expect(analytics.metrics.get("n0")!.closeness).toBeCloseTo(2 / 3);
+  });
+
+  it("splits betweenness between equally short paths", () => {
+    const nodes = ["a", "b", "c", "d"].map(person);
+    const links = [
+      { source: "a", target: "b" },
+      { source: "b", target: "d" },
+      { source: "a", target: "c" },
+      { source: "c", target: "d" },
+    ];
+    const { metrics } = analyzeNetwork(nodes, links);
+    // Each lies on half the paths of one of the six pairs.
+    metrics.forEach((m) => expect(m.betweenness).toBeCloseTo(1 / 6));
+  });
+
+  it("scores a star's centre above its leaves", () => {
+    const nodes = ["hub", "a", "b", "c"].map(person);
+    const links = ["a", "b", "c"].map((id) => ({ source: "hub", target: id }));
+    const { metrics } = analyzeNetwork(nodes, links);
+    expect(metrics.get("hub")).toMatchObject({ betweenness: 1, closeness: 1 });
+    expect(metrics.get("a")).toMatchObject({ betweenness: 0, degree: 1 });
+    expect(metrics.get("a")!.closeness).toBeCloseTo(3 / 5);
+  });
+
+  it("estimates centralities for big networks", () => {
+    const size = EXACT_ANALYTICS_LIMIT * 5;
+    const { nodes, links } = chain(size);
+    const analytics = analyzeNetwork(nodes, links);
+    expect(analytics.approximate).toBe(true);
+    const middle = analytics.metrics.get(`n${size / 2}`)!;
+    const end = analytics.metrics.get("n0")!;
+    // Exactly 0.5 and 0 for the betweenness of a chain's middle and end.
+    expect(middle.betweenness).toBeCloseTo(0.5, 1);
+    expect(end.betweenness).toBe(0);
+    expect(middle.closeness).toBeGreaterThan(end.closeness);
+  });
+});
+
+describe("detectCommunities", () => {
+  const triangles = () => {
+    const nodes = ["a1", "a2", "a3", "b1", "b2", "b3"].map(person);
+    const links: LinkData[] = [
+      { source: "a1", target: "a2", strength: 5 },
+      { source: "a2", target: "a3", strength: 5 },
+      { source: "a3", target: "a1", strength: 5 },
+      { source: "b1", target: "b2", strength: 5 },
+      { source: "b2", target: "b3", strength: 5 },
+      { source: "b3", target: "b1", strength: 5 },
+      { source: "a3", target: "b1", strength: 1 },
+    ];
+    return { nodes, links };
+  };
+
+  it("splits two close-knit groups joined by a weak tie", () => {
+    const { nodes, links } = triangles();
+    const communities = detectCommunities(nodes, links).map((c) =>
+      [...c].sort()
+    );
+    expect(communities).toHaveLength(2);
+    expect(communities).toContainEqual(["a1", "a2", "a3"]);
+    expect(communities).toContainEqual(["b1", "b2", "b3"]);
+  });
+
+  it("reports the modularity of the split", () => {
+    const { nodes, links } = triangles();
+    const { communities, modularity, metrics } = analyzeNetwork(nodes, links);
+    // Each half holds 15 of 31 link weight and half the degree.
+    expect(modularity).toBeCloseTo(2 * (15 / 31 - 0.25));
+    expect(metrics.get("a1")!.community).toBe(metrics.get("a2")!.community);
+    expect(metrics.get("a1")!.community).not.toBe(
+      metrics.get("b1")!.community
+    );
+    expect(communities).toHaveLength(2);
+  });
+
+  it("leaves everyone on their own without links", () => {
+    const nodes = ["a", "b"].map(person);
+    const { communities, modularity } = analyzeNetwork(nodes, []);
+    expect(communities).toEqual([["a"], ["b"]]);
+    expect(modularity).toBe(0);
+  });
+
+  it("splits the same bubble the same way every time", () => {
+    const { nodes, links } = triangles();
+    expect(detectCommunities(nodes, links)).toEqual(
+      detectCommunities(nodes, links)
+    );
+  });
+});
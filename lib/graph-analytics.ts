@@ -0,0 +1,478 @@
+import * as d3 from "d3";
+import type { NodeData, LinkData, NodeStyle } from "@/types/network";
+import { DEFAULT_STRENGTH } from "@/lib/relationships";
+import { CANVAS_NODE_THRESHOLD } from "@/lib/graph-scene";
+
+// Links are treated as undirected for every measure here: a directed link
+// still means the two people know each other.
+
+export interface NodeMetrics {
+  degree: number;
+  /** Share of shortest paths between other people that pass through here. */
+  betweenness: number;
+  /** How close this node is to everyone it can reach, from 0 to 1. */
+  closeness: number;
+  component: number;
+  community: number;
+  isArticulationPoint: boolean;
+}
+
+export interface NetworkAnalytics {
+  metrics: Map<string, NodeMetrics>;
+  /** Links whose removal would split a component in two. */
+  bridges: LinkData[];
+  /** Nodes whose removal would split a component in two. */
+  articulationPoints: string[];
+  /** Node ids per connected component, largest first. */
+  components: string[][];
+  /** Node ids per detected community, largest first. */
+  communities: string[][];
+  modularity: number;
+  /** Betweenness and closeness were estimated, the bubble being so big. */
+  approximate: boolean;
+}
+
+export type MetricKey = "degree" | "betweenness" | "closeness";
+
+export const METRIC_LABELS: Record<MetricKey, string> = {
+  degree: "Degree",
+  betweenness: "Betweenness",
+  closeness: "Closeness",
+};
+
+function buildAdjacency(
+  nodes: NodeData[],
+  links: LinkData[]
+): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>(nodes.map((n) => [n.id, []]));
+  links.forEach(({ source, target }) => {
+    if (source === target) return;
+    adjacency.get(source)?.push(target);
+    adjacency.get(target)?.push(source);
+  });
+  return adjacency;
+}
+
+function bfsDistances(
+  adjacency: Map<string, string[]>,
+  start: string
+): Map<string, number> {
+  const distances = new Map([[start, 0]]);
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    adjacency.get(id)!.forEach((next) => {
+      if (distances.has(next)) return;
+      distances.set(next, distances.get(id)! + 1);
+      queue.push(next);
+    });
+  }
+  return distances;
+}
+
+/**
+ * Above this many people, betweenness and closeness are estimated from a
+ * sample of starting points; exact values cost a search from every node,
+ * which takes most of a minute on a contact-list-sized bubble.
+ */
+export const EXACT_ANALYTICS_LIMIT = CANVAS_NODE_THRESHOLD;
+const SAMPLED_SOURCES = 100;
+
+/** Evenly spaced, so the same bubble always gives the same estimate. */
+function sampleSources(ids: string[], count: number): string[] {
+  if (ids.length <= count) return ids;
+  return Array.from(
+    { length: count },
+    (_, i) => ids[Math.floor((i * ids.length) / count)]
+  );
+}
+
+/**
+ * Brandes' algorithm, normalised so values fall between 0 and 1. Counting
+ * paths from only some `sources` gives an estimate, scaled up to match.
+ */
+function betweennessCentrality(
+  adjacency: Map<string, string[]>,
+  sources: string[]
+): Map<string, number> {
+  const ids = [...adjacency.keys()];
+  const centrality = new Map(ids.map((id) => [id, 0]));
+
+  sources.forEach((s) => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(
+      ids.map((id) => [id, []])
+    );
+    const paths = new Map(ids.map((id) => [id, 0]));
+    const distance = new Map<string, number>([[s, 0]]);
+    paths.set(s, 1);
+    const queue = [s];
+    for (let i = 0; i < queue.length; i++) {
+      const v = queue[i];
+      stack.push(v);
+      adjacency.get(v)!.forEach((w) => {
+        if (!distance.has(w)) {
+          distance.set(w, distance.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          paths.set(w, paths.get(w)! + paths.get(v)!);
+          predecessors.get(w)!.push(v);
+        }
+      });
+    }
+    const dependency = new Map(ids.map((id) => [id, 0]));
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      predecessors.get(w)!.forEach((v) => {
+        dependency.set(
+          v,
+          dependency.get(v)! +
+            (paths.get(v)! / paths.get(w)!) * (1 + dependency.get(w)!)
+        );
+      });
+      if (w !== s) {
+        centrality.set(w, centrality.get(w)! + dependency.get(w)!);
+      }
+    }
+  });
+
+  // Every pair was counted from both ends, when every node was a source.
+  const n = ids.length;
+  const sampled = sources.length > 0 ? n / sources.length : 0;
+  const scale = n > 2 ? sampled / ((n - 1) * (n - 2)) : 0;
+  ids.forEach((id) => centrality.set(id, centrality.get(id)! * scale));
+  return centrality;
+}
+
+/**
+ * Closeness scaled by how much of the network a node can reach
+ * (Wasserman–Faust), so small disconnected clusters don't score highly.
+ * Distances are symmetric, so searching from some `sources` estimates it
+ * for everyone; from all of them it's exact.
+ */
+function closenessCentrality(
+  adjacency: Map<string, string[]>,
+  sources: string[]
+): Map<string, number> {
+  const reached = new Map<string, number>();
+  const total = new Map<string, number>();
+  sources.forEach((s) => {
+    bfsDistances(adjacency, s).forEach((d, id) => {
+      if (id === s) return;
+      reached.set(id, (reached.get(id) ?? 0) + 1);
+      total.set(id, (total.get(id) ?? 0) + d);
+    });
+  });
+  const sourceSet = new Set(sources);
+  const closeness = new Map<string, number>();
+  adjacency.forEach((_, id) => {
+    const r = reached.get(id) ?? 0;
+    const others = sources.length - (sourceSet.has(id) ? 1 : 0);
+    closeness.set(id, r > 0 ? (r / total.get(id)!) * (r / others) : 0);
+  });
+  return closeness;
+}
+
+/** Tarjan's low-link search for bridges and articulation points. */
+export function findCutElements(
+  nodes: NodeData[],
+  links: LinkData[]
+): { bridges: LinkData[]; articulationPoints: string[] } {
+  const adjacency = buildAdjacency(nodes, links);
+  const discovered = new Map<string, number>();
+  const low = new Map<string, number>();
+  const bridgeKeys = new Set<string>();
+  const articulation = new Set<string>();
+  let time = 0;
+
+  // Iterative rather than recursive, so a long chain of people can't
+  // overflow the call stack. Each frame resumes at its next neighbour.
+  interface Frame {
+    id: string;
+    parent: string | null;
+    next: number;
+    children: number;
+    // Skip only one edge back to the parent, so parallel links count.
+    skippedParent: boolean;
+  }
+  const start = (id: string, parent: string | null): Frame => {
+    discovered.set(id, time);
+    low.set(id, time);
+    time++;
+    return { id, parent, next: 0, children: 0, skippedParent: false };
+  };
+
+  adjacency.forEach((_, root) => {
+    if (discovered.has(root)) return;
+    const stack = [start(root, null)];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const { id, parent } = frame;
+      const neighbours = adjacency.get(id)!;
+      if (frame.next < neighbours.length) {
+        const next = neighbours[frame.next++];
+        if (next === parent && !frame.skippedParent) {
+          frame.skippedParent = true;
+        } else if (discovered.has(next)) {
+          low.set(id, Math.min(low.get(id)!, discovered.get(next)!));
+        } else {
+          frame.children++;
+          stack.push(start(next, id));
+        }
+        continue;
+      }
+      stack.pop();
+      if (parent === null) {
+        if (frame.children > 1) articulation.add(id);
+        continue;
+      }
+      low.set(parent, Math.min(low.get(parent)!, low.get(id)!));
+      if (low.get(id)! > discovered.get(parent)!) {
+        bridgeKeys.add([parent, id].sort().join("\u0000"));
+      }
+      if (
+        stack[stack.length - 1].parent !== null &&
+        low.get(id)! >= discovered.get(parent)!
+      ) {
+        articulation.add(parent);
+      }
+    }
+  });
+
+  return {
+    bridges: links.filter((l) =>
+      bridgeKeys.has([l.source, l.target].sort().join("\u0000"))
+    ),
+    articulationPoints: [...articulation],
+  };
+}
+
+function connectedComponents(adjacency: Map<string, string[]>): string[][] {
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  adjacency.forEach((_, id) => {
+    if (seen.has(id)) return;
+    const component = [...bfsDistances(adjacency, id).keys()];
+    component.forEach((c) => seen.add(c));
+    components.push(component);
+  });
+  return components.sort((a, b) => b.length - a.length);
+}
+
+function weightedDegree(neighbours: Map<number, number>): number {
+  let sum = 0;
+  neighbours.forEach((weight) => (sum += weight));
+  return sum;
+}
+
+/**
+ * Louvain community detection, weighting links by closeness. Nodes are
+ * visited in a fixed order so the same bubble always splits the same way.
+ */
+function louvainCommunities(
+  nodes: NodeData[],
+  links: LinkData[]
+): { communities: string[][]; modularity: number } {
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+  // adjacency[i] maps neighbour → weight; a community's internal weight is
+  // kept as a self-loop counted from both ends once communities merge.
+  let adjacency: Map<number, number>[] = nodes.map(() => new Map());
+  links.forEach((l) => {
+    const a = index.get(l.source);
+    const b = index.get(l.target);
+    if (a == null || b == null || a === b) return;
+    const weight = l.strength ?? DEFAULT_STRENGTH;
+    adjacency[a].set(b, (adjacency[a].get(b) ?? 0) + weight);
+    adjacency[b].set(a, (adjacency[b].get(a) ?? 0) + weight);
+  });
+  const originalAdjacency = adjacency;
+  // membership[i] is the community of original node i.
+  let membership = nodes.map((_, i) => i);
+
+  const totalWeight = adjacency.reduce(
+    (sum, neighbours) => sum + weightedDegree(neighbours),
+    0
+  );
+  if (totalWeight === 0) {
+    return {
+      communities: nodes.map((n) => [n.id]),
+      modularity: 0,
+    };
+  }
+
+  for (;;) {
+    const size = adjacency.length;
+    const degree = adjacency.map(weightedDegree);
+    const community = adjacency.map((_, i) => i);
+    const total = [...degree];
+    let movedAny = false;
+
+    for (let improved = true; improved; ) {
+      improved = false;
+      for (let i = 0; i < size; i++) {
+        const current = community[i];
+        const weightTo = new Map<number, number>();
+        adjacency[i].forEach((weight, j) => {
+          if (j === i) return;
+          const c = community[j];
+          weightTo.set(c, (weightTo.get(c) ?? 0) + weight);
+        });
+        total[current] -= degree[i];
+        let best = current;
+        let bestGain =
+          (weightTo.get(current) ?? 0) -
+          (total[current] * degree[i]) / totalWeight;
+        weightTo.forEach((weight, c) => {
+          const gain = weight - (total[c] * degree[i]) / totalWeight;
+          if (gain > bestGain + 1e-12) {
+            best = c;
+            bestGain = gain;
+          }
+        });
+        total[best] += degree[i];
+        if (best !== current) {
+          community[i] = best;
+          improved = true;
+          movedAny = true;
+        }
+      }
+    }
+    if (!movedAny) break;
+
+    // Collapse each community into a single node and go again.
+    const renumbered = new Map<number, number>();
+    community.forEach((c) => {
+      if (!renumbered.has(c)) renumbered.set(c, renumbered.size);
+    });
+    const aggregated: Map<number, number>[] = [...renumbered.keys()].map(
+      () => new Map()
+    );
+    adjacency.forEach((neighbours, i) => {
+      const ci = renumbered.get(community[i])!;
+      neighbours.forEach((weight, j) => {
+        const cj = renumbered.get(community[j])!;
+        aggregated[ci].set(cj, (aggregated[ci].get(cj) ?? 0) + weight);
+      });
+    });
+    membership = membership.map((m) => renumbered.get(community[m])!);
+    adjacency = aggregated;
+  }
+
+  const groups = new Map<number, string[]>();
+  membership.forEach((c, i) => {
+    groups.set(c, [...(groups.get(c) ?? []), nodes[i].id]);
+  });
+
+  let modularity = 0;
+  const degree = originalAdjacency.map(weightedDegree);
+  originalAdjacency.forEach((neighbours, i) => {
+    neighbours.forEach((weight, j) => {
+      if (membership[i] === membership[j]) modularity += weight;
+    });
+  });
+  const communityDegree = new Map<number, number>();
+  membership.forEach((c, i) =>
+    communityDegree.set(c, (communityDegree.get(c) ?? 0) + degree[i])
+  );
+  modularity /= totalWeight;
+  communityDegree.forEach((d) => (modularity -= (d / totalWeight) ** 2));
+
+  return {
+    communities: [...groups.values()].sort((a, b) => b.length - a.length),
+    modularity,
+  };
+}
+
+/** Node ids per detected community, largest first. */
+export function detectCommunities(
+  nodes: NodeData[],
+  links: LinkData[]
+): string[][] {
+  return louvainCommunities(nodes, links).communities;
+}
+
+export function analyzeNetwork(
+  nodes: NodeData[],
+  links: LinkData[]
+): NetworkAnalytics {
+  const adjacency = buildAdjacency(nodes, links);
+  const ids = [...adjacency.keys()];
+  const approximate = ids.length > EXACT_ANALYTICS_LIMIT;
+  const sources = approximate ? sampleSources(ids, SAMPLED_SOURCES) : ids;
+  const betweenness = betweennessCentrality(adjacency, sources);
+  const closeness = closenessCentrality(adjacency, sources);
+  const { bridges, articulationPoints } = findCutElements(nodes, links);
+  const components = connectedComponents(adjacency);
+  const { communities, modularity } = louvainCommunities(nodes, links);
+
+  const componentOf = new Map<string, number>();
+  components.forEach((ids, i) => ids.forEach((id) => componentOf.set(id, i)));
+  const communityOf = new Map<string, number>();
+  communities.forEach((ids, i) => ids.forEach((id) => communityOf.set(id, i)));
+  const articulation = new Set(articulationPoints);
+
+  return {
+    metrics: new Map(
+      nodes.map((n) => [
+        n.id,
+        {
+          degree: adjacency.get(n.id)!.length,
+          betweenness: betweenness.get(n.id)!,
+          closeness: closeness.get(n.id)!,
+          component: componentOf.get(n.id)!,
+          community: communityOf.get(n.id)!,
+          isArticulationPoint: articulation.has(n.id),
+        },
+      ])
+    ),
+    bridges,
+    articulationPoints,
+    components,
+    communities,
+    modularity,
+    approximate,
+  };
+}
+
+export type ColourBy = MetricKey | "community";
+
+const SIZE_RANGE: [number, number] = [14, 40];
+const METRIC_COLOURS: [string, string] = ["#bae6fd", "#be123c"];
+
+/**
+ * Per-node size and colour overrides that encode a metric, scaled against
+ * the highest value in the bubble. Communities get categorical colours.
+ */
+export function metricNodeStyles(
+  analytics: NetworkAnalytics,
+  sizeBy: MetricKey | null,
+  colourBy: ColourBy | null
+): Map<string, NodeStyle> {
+  const styles = new Map<string, NodeStyle>();
+  const scaleFor = (metric: MetricKey) => {
+    let max = 0;
+    analytics.metrics.forEach((m) => (max = Math.max(max, m[metric])));
+    return (value: number) => (max > 0 ? value / max : 0);
+  };
+  const sizeScale = sizeBy ? scaleFor(sizeBy) : null;
+  const colourScale =
+    colourBy && colourBy !== "community" ? scaleFor(colourBy) : null;
+
+  analytics.metrics.forEach((m, id) => {
+    const style: NodeStyle = {};
+    if (sizeBy && sizeScale) {
+      const [min, max] = SIZE_RANGE;
+      style.radius = min + sizeScale(m[sizeBy]) * (max - min);
+    }
+    if (colourBy === "community") {
+      style.fill = d3.schemeTableau10[m.community % 10];
+    } else if (colourBy && colourScale) {
+      style.fill = d3.interpolateRgb(...METRIC_COLOURS)(
+        colourScale(m[colourBy])
+      );
+    }
+    styles.set(id, style);
+  });
+  return styles;
+}
@@ -0,0 +1,117 @@
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Presentation properties that may come from stylesheets or inherited styles
+// rather than attributes, copied inline so the export renders standalone.
+const INLINED_PROPERTIES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-dasharray",
+  "opacity",
+  "visibility",
+  "filter",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+];
+
+export const EXPORT_SCALES = [1, 2, 3, 4] as const;
+
+export interface SerializedGraph {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+function inlineStyles(source: Element, target: Element): void {
+  const computed = window.getComputedStyle(source);
+  const style = INLINED_PROPERTIES.map(
+    (prop) => `${prop}:${computed.getPropertyValue(prop)}`
+  ).join(";");
+  target.setAttribute("style", style);
+  for (let i = 0; i < source.children.length; i++) {
+    inlineStyles(source.children[i], target.children[i]);
+  }
+}
+
+/**
+ * Serializes the scene drawn into `svg` as a standalone SVG document cropped
+ * to the graph's bounding box, ignoring the current pan and zoom.
+ */
+export function serializeGraphSvg(
+  svg: SVGSVGElement,
+  padding = 24
+): SerializedGraph | null {
+  const scene = svg.querySelector<SVGGElement>(":scope > g");
+  if (!scene) return null;
+
+  // getBBox is measured in the scene's own coordinates, i.e. before the
+  // zoom transform on it is applied.
+  const box = scene.getBBox();
+  if (box.width === 0 && box.height === 0) return null;
+  const x = box.x - padding;
+  const y = box.y - padding;
+  const width = Math.ceil(box.width + padding * 2);
+  const height = Math.ceil(box.height + padding * 2);
+
+  const clone = scene.cloneNode(true) as SVGGElement;
+  inlineStyles(scene, clone);
+  clone.removeAttribute("transform");
+  clone.querySelectorAll(".link-hit").forEach((el) => el.remove());
+
+  const out = document.createElementNS(SVG_NS, "svg");
+  out.setAttribute("xmlns", SVG_NS);
+  out.setAttribute("width", String(width));
+  out.setAttribute("height", String(height));
+  out.setAttribute("viewBox", `${x} ${y} ${width} ${height}`);
+  out.setAttribute(
+    "font-family",
+    window.getComputedStyle(svg).getPropertyValue("font-family")
+  );
+  out.appendChild(clone);
+
+  return {
+    markup: new XMLSerializer().serializeToString(out),
+    width,
+    height,
+  };
+}
+
+/** Rasterizes serialized SVG markup, `scale` pixels per SVG unit. */
+export function renderSvgToPng(
+  { markup, width, height }: SerializedGraph,
+  scale: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(
+      new Blob([markup], { type: "image/svg+xml;charset=utf-8" })
+    );
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas 2D context is unavailable"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error("Could not encode PNG"));
+      }, "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render SVG"));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,93 @@
+import type { BubbleData, Node } from "@/types/network";
+import { groupPath } from "@/lib/groups";
+
+/** How the graph introduces itself to screen readers. */
+export const GRAPH_ARIA_LABEL =
+  "Bubble graph. Tab to reach people, arrow keys move between connected " +
+  "people, Home jumps to you and Enter opens someone.";
+
+/** Arrow keys and the direction on screen each one moves in. */
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowRight: [1, 0],
+  ArrowLeft: [-1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+/** Neighbours more than this far off the arrow's direction don't count. */
+const MAX_ANGLE = (3 * Math.PI) / 8;
+const LISTED_NAMES = 5;
+
+export function isArrowKey(key: string): boolean {
+  return key in ARROW_DIRECTIONS;
+}
+
+/**
+ * The neighbour an arrow key should move to from `from`: the one that lies
+ * most nearly in that direction, closer ones winning near-ties. Null when
+ * none lies that way.
+ */
+export function neighbourInDirection(
+  from: Node,
+  neighbours: Node[],
+  key: string
+): Node | null {
+  const direction = ARROW_DIRECTIONS[key];
+  if (!direction || from.x == null || from.y == null) return null;
+  let best: Node | null = null;
+  let bestScore = Infinity;
+  neighbours.forEach((n) => {
+    if (n.x == null || n.y == null) return;
+    const dx = n.x - from.x!;
+    const dy = n.y - from.y!;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) return;
+    const cos = (dx * direction[0] + dy * direction[1]) / distance;
+    if (Math.acos(Math.min(1, cos)) > MAX_ANGLE) return;
+    const score = distance * (3 - 2 * cos);
+    if (score < bestScore) {
+      best = n;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function listNames(names: string[]): string {
+  if (names.length <= 1) return names.join("");
+  const shown = names.slice(0, LISTED_NAMES);
+  const rest = names.length - shown.length;
+  if (rest > 0) return `${shown.join(", ")} and ${rest} more`;
+  return `${shown.slice(0, -1).join(", ")} and ${shown[shown.length - 1]}`;
+}
+
+/**
+ * What a screen reader says for someone: their name, who they're
+ * connected to and which groups they're in.
+ */
+export function describeNode(
+  { nodes, links, groups }: BubbleData,
+  nodeId: string
+): string {
+  const names = new Map(nodes.map((n) => [n.id, n.name]));
+  const node = nodes.find((n) => n.id === nodeId);
+  if (!node) return "";
+  const connected = links
+    .filter((l) => l.source === nodeId || l.target === nodeId)
+    .map((l) => names.get(l.source === nodeId ? l.target : l.source) ?? "")
+    .sort((a, b) => a.localeCompare(b));
+  const memberOf = groups
+    .filter((g) => g.memberNodeIds.includes(nodeId))
+    .map((g) => groupPath(g, groups));
+
+  const parts = [node.type === "user" ? `${node.name} (you)` : node.name];
+  parts.push(
+    connected.length === 0
+      ? "No connections"
+      : `${connected.length} ${
+          connected.length === 1 ? "connection" : "connections"
+        }: ${listNames(connected)}`
+  );
+  if (memberOf.length > 0) parts.push(`In ${listNames(memberOf)}`);
+  return parts.join(". ") + ".";
+}
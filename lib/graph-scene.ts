@@ -0,0 +1,166 @@
+import * as d3 from "d3";
+import type { Node, NodeData, NodeStyle, Link } from "@/types/network";
+
+// Drawing rules shared by the SVG and canvas renderers, so a bubble looks
+// the same whichever one draws it.
+
+/**
+ * Above this many people the canvas renderer takes over; one SVG element
+ * per node and link gets sluggish well before contact-list sizes.
+ */
+export const CANVAS_NODE_THRESHOLD = 400;
+
+/** Opacity of nodes and links left out by a search or filter. */
+export const DIMMED_OPACITY = 0.15;
+
+export const PATH_TRACE_COLOR = "#f59e0b";
+export const FOCUS_RING_COLOR = "#0369a1";
+export const SELECTION_COLOR = "#7c3aed";
+export const LASSO_FILL = "rgba(124, 58, 237, 0.08)";
+
+/** Marks people pinned in place, at the top right of their circle. */
+export const PIN_ICON = "📌";
+export const PIN_ICON_SIZE = 14;
+
+export function pinIconOffset(radius: number): [number, number] {
+  return [radius * 0.7, -radius * 0.7];
+}
+
+export function nodeFill(d: NodeData, style?: NodeStyle): string {
+  if (style?.fill) return style.fill;
+  return d.type === "user" ? "#0ea5e9" : "#7dd3fc";
+}
+
+export function nodeStroke(d: NodeData, style?: NodeStyle): string {
+  if (style?.fill) return d3.color(style.fill)!.darker(0.8).formatHex();
+  return d.type === "user" ? "#0284c7" : "#38bdf8";
+}
+
+/** Room a hull leaves around each member by default. */
+export const HULL_PADDING = 36;
+/** Points sampled around each member when rounding a hull. */
+const HULL_SAMPLES = 12;
+
+/**
+ * Smooth outline around a group's members, keeping `padding` clear of each
+ * one. One member gets a circle, two a capsule, more a rounded hull.
+ */
+export function hullPath(
+  points: [number, number][],
+  padding = HULL_PADDING
+): string {
+  if (points.length === 0) return "";
+  const ring: [number, number][] = points.flatMap(([x, y]) =>
+    d3.range(HULL_SAMPLES).map((i): [number, number] => {
+      const angle = (i / HULL_SAMPLES) * 2 * Math.PI;
+      return [x + padding * Math.cos(angle), y + padding * Math.sin(angle)];
+    })
+  );
+  const hull = d3.polygonHull(ring);
+  if (!hull) return "";
+  return d3.line().curve(d3.curveCatmullRomClosed)(hull) ?? "";
+}
+
+/** Where a hull's label goes: centred just above its top edge. */
+export function hullLabelPosition(
+  points: [number, number][],
+  padding = HULL_PADDING
+): [number, number] | null {
+  if (points.length === 0) return null;
+  const [minX, maxX] = d3.extent(points, (p) => p[0]) as [number, number];
+  const minY = d3.min(points, (p) => p[1])!;
+  return [(minX + maxX) / 2, minY - padding - 6];
+}
+
+/** Positions of the given members, skipping any that aren't placed yet. */
+export function memberPoints(
+  memberNodeIds: string[],
+  nodesById: Map<string, Node>
+): [number, number][] {
+  const points: [number, number][] = [];
+  memberNodeIds.forEach((id) => {
+    const n = nodesById.get(id);
+    if (n && n.x != null && n.y != null) points.push([n.x, n.y]);
+  });
+  return points;
+}
+
+export function endpointId(end: Node | string): string {
+  return typeof end === "string" ? end : end.id;
+}
+
+/**
+ * Where to draw a link's line: ends carrying an arrowhead stop at the edge
+ * of their node's circle so the arrow isn't hidden underneath it.
+ */
+export function linkEndpoints(d: Link): [number, number, number, number] {
+  const source = d.source as Node;
+  const target = d.target as Node;
+  let [x1, y1, x2, y2] = [source.x!, source.y!, target.x!, target.y!];
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  if (d.direction && length > 0) {
+    const ux = (x2 - x1) / length;
+    const uy = (y2 - y1) / length;
+    if (d.direction === "forward") {
+      x2 -= ux * (target.radius + 3);
+      y2 -= uy * (target.radius + 3);
+    } else {
+      x1 += ux * (source.radius + 3);
+      y1 += uy * (source.radius + 3);
+    }
+  }
+  return [x1, y1, x2, y2];
+}
+
+/** The zoom that puts scene point (x, y) in the middle at scale `k`. */
+export function centredTransform(
+  x: number,
+  y: number,
+  k: number,
+  width: number,
+  height: number
+): d3.ZoomTransform {
+  return d3.zoomIdentity
+    .translate(width / 2 - k * x, height / 2 - k * y)
+    .scale(k);
+}
+
+/**
+ * The zoom that fits `nodes` in a `width` × `height` view, never zooming in
+ * past `maxScale`; null when none of them are placed yet.
+ */
+export function fitTransform(
+  nodes: Node[],
+  width: number,
+  height: number,
+  maxScale: number,
+  padding = 50
+): d3.ZoomTransform | null {
+  const placed = nodes.filter((n) => n.x != null && n.y != null);
+  if (placed.length === 0) return null;
+  const minX = d3.min(placed, (n) => n.x! - n.radius)!;
+  const minY = d3.min(placed, (n) => n.y! - n.radius)!;
+  const maxX = d3.max(placed, (n) => n.x! + n.radius)!;
+  const maxY = d3.max(placed, (n) => n.y! + n.radius)!;
+  const scale = Math.min(
+    (width - padding * 2) / (maxX - minX || 1),
+    (height - padding * 2) / (maxY - minY || 1),
+    maxScale
+  );
+  return centredTransform(
+    (minX + maxX) / 2,
+    (minY + maxY) / 2,
+    scale,
+    width,
+    height
+  );
+}
+
+/** Placed nodes whose centres fall inside a lasso drawn in scene space. */
+export function nodesInLasso(nodes: Node[], lasso: [number, number][]): Node[] {
+  if (lasso.length < 3) return [];
+  return nodes.filter(
+    (n) =>
+      n.x != null && n.y != null && d3.polygonContains(lasso, [n.x, n.y])
+  );
+}
@@ -0,0 +1,166 @@
+import type { NodeData, BubbleData } from "@/types/network";
+import { groupMemberIds } from "@/lib/groups";
+
+export interface SearchMatch {
+  node: NodeData;
+  score: number;
+  /** Where the match was found, when it wasn't the node's name. */
+  field: "name" | "tag" | "organisation" | "role" | "notes";
+  /** The text that matched, for showing alongside the name. */
+  excerpt: string;
+}
+
+export interface GraphFilter {
+  /** Only members of this group. */
+  groupId: string | null;
+  /** Only nodes at most this many links away from the user node. */
+  maxHops: number | null;
+}
+
+export const NO_FILTER: GraphFilter = { groupId: null, maxHops: null };
+
+const SEARCH_LIMIT = 8;
+
+// Matches on profile fields rank below equally good matches on the name.
+const FIELD_WEIGHTS: Record<SearchMatch["field"], number> = {
+  name: 1,
+  tag: 0.8,
+  organisation: 0.7,
+  role: 0.7,
+  notes: 0.5,
+};
+
+/**
+ * Scores how well `query` matches `text`, or returns null if it doesn't.
+ * Substrings beat scattered characters, and earlier, tighter matches beat
+ * later, looser ones. Both arguments are expected in lower case.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  if (!query) return null;
+  const index = text.indexOf(query);
+  if (index !== -1) {
+    const atWordStart = index === 0 || /\W/.test(text[index - 1]);
+    return 100 - Math.min(index, 20) + (atWordStart ? 10 : 0);
+  }
+  // Every query character must appear in order; each gap costs a point.
+  let score = 50;
+  let position = -1;
+  for (const ch of query) {
+    const next = text.indexOf(ch, position + 1);
+    if (next === -1) return null;
+    if (position !== -1) score -= next - position - 1;
+    position = next;
+  }
+  return score > 0 ? score : null;
+}
+
+/** Shortens long notes to the part around the match. */
+function excerptAround(text: string, query: string): string {
+  const index = text.toLowerCase().indexOf(query);
+  if (text.length <= 60) return text;
+  const start = Math.max(0, (index === -1 ? 0 : index) - 20);
+  return (start > 0 ? "…" : "") + text.slice(start, start + 60).trim() + "…";
+}
+
+function bestMatch(node: NodeData, query: string): SearchMatch | null {
+  const candidates: [SearchMatch["field"], string][] = [
+    ["name", node.name],
+    ...(node.profile?.tags ?? []).map(
+      (tag): [SearchMatch["field"], string] => ["tag", tag]
+    ),
+  ];
+  if (node.profile?.organisation) {
+    candidates.push(["organisation", node.profile.organisation]);
+  }
+  if (node.profile?.role) candidates.push(["role", node.profile.role]);
+  if (node.profile?.notes) candidates.push(["notes", node.profile.notes]);
+
+  let best: SearchMatch | null = null;
+  for (const [field, text] of candidates) {
+    const raw = fuzzyScore(query, text.toLowerCase());
+    if (raw == null) continue;
+    const score = raw * FIELD_WEIGHTS[field];
+    if (!best || score > best.score) {
+      best = { node, score, field, excerpt: excerptAround(text, query) };
+    }
+  }
+  return best;
+}
+
+/** Best matches for `query` among `nodes`, highest score first. */
+export function searchNodes(
+  nodes: NodeData[],
+  query: string,
+  limit = SEARCH_LIMIT
+): SearchMatch[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  return nodes
+    .map((n) => bestMatch(n, q))
+    .filter((m): m is SearchMatch => m !== null)
+    .sort(
+      (a, b) => b.score - a.score || a.node.name.localeCompare(b.node.name)
+    )
+    .slice(0, limit);
+}
+
+/** Number of links between the user node and every node it can reach. */
+export function hopDistances({
+  nodes,
+  links,
+}: BubbleData): Map<string, number> {
+  const distances = new Map<string, number>();
+  const user = nodes.find((n) => n.type === "user");
+  if (!user) return distances;
+  const neighbours = new Map<string, string[]>();
+  links.forEach(({ source, target }) => {
+    neighbours.set(source, [...(neighbours.get(source) ?? []), target]);
+    neighbours.set(target, [...(neighbours.get(target) ?? []), source]);
+  });
+  distances.set(user.id, 0);
+  const queue = [user.id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (neighbours.get(id) ?? []).forEach((next) => {
+      if (distances.has(next)) return;
+      distances.set(next, distances.get(id)! + 1);
+      queue.push(next);
+    });
+  }
+  return distances;
+}
+
+/**
+ * Ids of the nodes to highlight for a search and filter, or null when
+ * neither is active and nothing should be dimmed.
+ */
+export function highlightedNodeIds(
+  bubble: BubbleData,
+  query: string,
+  filter: GraphFilter
+): Set<string> | null {
+  const group = filter.groupId
+    ? bubble.groups.find((g) => g.id === filter.groupId)
+    : undefined;
+  const hasQuery = query.trim() !== "";
+  if (!hasQuery && !group && filter.maxHops == null) return null;
+
+  let ids = bubble.nodes.map((n) => n.id);
+  if (hasQuery) {
+    const matches = new Set(
+      searchNodes(bubble.nodes, query, Infinity).map((m) => m.node.id)
+    );
+    ids = ids.filter((id) => matches.has(id));
+  }
+  if (group) {
+    // A group's filter takes in its sub-groups' members too.
+    const members = new Set(groupMemberIds(group, bubble.groups));
+    ids = ids.filter((id) => members.has(id));
+  }
+  if (filter.maxHops != null) {
+    const distances = hopDistances(bubble);
+    const maxHops = filter.maxHops;
+    ids = ids.filter((id) => (distances.get(id) ?? Infinity) <= maxHops);
+  }
+  return new Set(ids);
+}
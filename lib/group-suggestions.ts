@@ -0,0 +1,113 @@
+import type { BubbleData, BubbleGroup, NodeData } from "@/types/network";
+import { detectCommunities } from "@/lib/graph-analytics";
+
+/** A proposed group; it only becomes a `BubbleGroup` once accepted. */
+export interface GroupSuggestion {
+  id: string;
+  name: string;
+  memberNodeIds: string[];
+}
+
+const MIN_SUGGESTION_SIZE = 2;
+
+/** The most common value among members, if at least half of them share it. */
+function sharedValue(
+  members: NodeData[],
+  valuesOf: (node: NodeData) => string[]
+): string | null {
+  const counts = new Map<string, { label: string; count: number }>();
+  members.forEach((m) =>
+    new Set(valuesOf(m).map((v) => v.trim()).filter(Boolean)).forEach((v) => {
+      const key = v.toLowerCase();
+      const entry = counts.get(key) ?? { label: v, count: 0 };
+      counts.set(key, { ...entry, count: entry.count + 1 });
+    })
+  );
+  let best: { label: string; count: number } | null = null;
+  for (const entry of counts.values()) {
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best && best.count * 2 >= members.length ? best.label : null;
+}
+
+/**
+ * Names a cluster after a tag or organisation most members share, falling
+ * back to the member with the most links inside it.
+ */
+function suggestName(members: NodeData[], { links }: BubbleData): string {
+  const tag = sharedValue(members, (m) => m.profile?.tags ?? []);
+  if (tag) return tag.charAt(0).toUpperCase() + tag.slice(1);
+  const organisation = sharedValue(members, (m) =>
+    m.profile?.organisation ? [m.profile.organisation] : []
+  );
+  if (organisation) return organisation;
+
+  const ids = new Set(members.map((m) => m.id));
+  const inside = new Map(members.map((m) => [m.id, 0]));
+  links.forEach(({ source, target }) => {
+    if (ids.has(source) && ids.has(target)) {
+      inside.set(source, inside.get(source)! + 1);
+      inside.set(target, inside.get(target)! + 1);
+    }
+  });
+  const hub = [...members].sort(
+    (a, b) => inside.get(b.id)! - inside.get(a.id)!
+  )[0];
+  return `${hub.name}'s circle`;
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+/**
+ * Proposes groups from the communities in the link structure. The owner is
+ * left out (they'd belong to every group), as are single people and
+ * clusters that already exist as a group.
+ */
+export function suggestGroups(bubble: BubbleData): GroupSuggestion[] {
+  const byId = new Map(bubble.nodes.map((n) => [n.id, n]));
+  return detectCommunities(bubble.nodes, bubble.links)
+    .map((ids) =>
+      ids.map((id) => byId.get(id)!).filter((n) => n.type !== "user")
+    )
+    .filter((members) => members.length >= MIN_SUGGESTION_SIZE)
+    .filter((members) => {
+      const ids = members.map((m) => m.id);
+      return !bubble.groups.some((g) => sameMembers(g.memberNodeIds, ids));
+    })
+    .map((members, i) => ({
+      id: `suggestion-${i}`,
+      name: suggestName(members, bubble),
+      memberNodeIds: members.map((m) => m.id),
+    }));
+}
+
+/** Folds `others` into `target`, keeping the target's name. */
+export function mergeSuggestions(
+  target: GroupSuggestion,
+  others: GroupSuggestion[]
+): GroupSuggestion {
+  return {
+    ...target,
+    memberNodeIds: [
+      ...new Set([
+        ...target.memberNodeIds,
+        ...others.flatMap((s) => s.memberNodeIds),
+      ]),
+    ],
+  };
+}
+
+export function suggestionToGroup(
+  suggestion: GroupSuggestion,
+  id: string,
+  color: string
+): BubbleGroup {
+  return {
+    id,
+    name: suggestion.name.trim() || "Suggested group",
+    memberNodeIds: suggestion.memberNodeIds,
+    color,
+  };
+}
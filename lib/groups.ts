@@ -0,0 +1,233 @@
+import * as d3 from "d3";
+import type { BubbleGroup, GroupOutline } from "@/types/network";
+import { HULL_PADDING } from "@/lib/graph-scene";
+
+// How groups look and nest. A group may sit inside another (its parent),
+// and a parent's outline takes in everyone in its sub-groups too.
+
+/** Colours handed to new groups in turn; the user can pick any other. */
+export const GROUP_PALETTE: readonly string[] = [
+  "#0ea5e9",
+  "#8b5cf6",
+  "#f43f5e",
+  "#f59e0b",
+  "#10b981",
+  "#6366f1",
+  "#ec4899",
+  "#14b8a6",
+  "#f97316",
+  "#84cc16",
+];
+
+export const GROUP_OUTLINES: readonly GroupOutline[] = [
+  "dashed",
+  "solid",
+  "dotted",
+];
+
+export const GROUP_OUTLINE_LABELS: Record<GroupOutline, string> = {
+  dashed: "Dashed",
+  solid: "Solid",
+  dotted: "Dotted",
+};
+
+/** SVG stroke-dasharray per outline; null draws a solid line. */
+const OUTLINE_DASHES: Record<GroupOutline, string | null> = {
+  dashed: "6 4",
+  solid: null,
+  dotted: "2 4",
+};
+
+const GROUP_FILL_OPACITY = 0.14;
+
+/** Extra room a hull leaves per level of sub-groups nested inside it. */
+const HULL_PADDING_PER_LEVEL = 16;
+
+/** Shown between a group and its sub-group, e.g. "Work › Team A". */
+export const GROUP_PATH_SEPARATOR = " › ";
+
+/**
+ * Groups saved before colours existed get one from the palette based on
+ * their id, so they keep it across reloads and differ from each other.
+ */
+export function groupColor(group: BubbleGroup): string {
+  if (group.color) return group.color;
+  let hash = 0;
+  for (const ch of group.id) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return GROUP_PALETTE[Math.abs(hash) % GROUP_PALETTE.length];
+}
+
+export function groupFill(group: BubbleGroup): string {
+  const color = d3.color(groupColor(group))!;
+  color.opacity = GROUP_FILL_OPACITY;
+  return color.formatRgb();
+}
+
+export function groupDash(group: BubbleGroup): string | null {
+  return OUTLINE_DASHES[group.outline ?? "dashed"];
+}
+
+/** Palette colours for `count` new groups, least used first. */
+export function nextGroupColors(
+  groups: BubbleGroup[],
+  count: number
+): string[] {
+  const uses = new Map(GROUP_PALETTE.map((c) => [c, 0]));
+  groups.forEach((g) => {
+    const color = groupColor(g);
+    if (uses.has(color)) uses.set(color, uses.get(color)! + 1);
+  });
+  const colors: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const color = GROUP_PALETTE.reduce((best, c) =>
+      uses.get(c)! < uses.get(best)! ? c : best
+    );
+    uses.set(color, uses.get(color)! + 1);
+    colors.push(color);
+  }
+  return colors;
+}
+
+export function nextGroupColor(groups: BubbleGroup[]): string {
+  return nextGroupColors(groups, 1)[0];
+}
+
+/** Parent first, outermost last; stops at a missing parent or a cycle. */
+export function groupAncestors(
+  group: BubbleGroup,
+  groups: BubbleGroup[]
+): BubbleGroup[] {
+  const byId = new Map(groups.map((g) => [g.id, g]));
+  const ancestors: BubbleGroup[] = [];
+  const seen = new Set([group.id]);
+  let parent = group.parentId ? byId.get(group.parentId) : undefined;
+  while (parent && !seen.has(parent.id)) {
+    ancestors.push(parent);
+    seen.add(parent.id);
+    parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+  }
+  return ancestors;
+}
+
+/** Every group nested under this one, at any depth. */
+export function groupDescendants(
+  group: BubbleGroup,
+  groups: BubbleGroup[]
+): BubbleGroup[] {
+  return groups.filter(
+    (g) =>
+      g.id !== group.id &&
+      groupAncestors(g, groups).some((a) => a.id === group.id)
+  );
+}
+
+/** The group's own members plus everyone in its sub-groups. */
+export function groupMemberIds(
+  group: BubbleGroup,
+  groups: BubbleGroup[]
+): string[] {
+  return [
+    ...new Set([
+      ...group.memberNodeIds,
+      ...groupDescendants(group, groups).flatMap((g) => g.memberNodeIds),
+    ]),
+  ];
+}
+
+/** The group's name under its parents', e.g. "Work › Team A". */
+export function groupPath(group: BubbleGroup, groups: BubbleGroup[]): string {
+  return [...groupAncestors(group, groups).reverse(), group]
+    .map((g) => g.name)
+    .join(GROUP_PATH_SEPARATOR);
+}
+
+/** Groups this one could move inside without nesting it in itself. */
+export function possibleParents(
+  group: BubbleGroup,
+  groups: BubbleGroup[]
+): BubbleGroup[] {
+  const nested = new Set(groupDescendants(group, groups).map((g) => g.id));
+  return groups.filter((g) => g.id !== group.id && !nested.has(g.id));
+}
+
+/**
+ * Groups in tree order: each parent followed by its sub-groups, with the
+ * depth to indent them by.
+ */
+export function groupTree(
+  groups: BubbleGroup[]
+): { group: BubbleGroup; depth: number }[] {
+  const ids = new Set(groups.map((g) => g.id));
+  const childrenOf = d3.group(groups, (g) =>
+    g.parentId && ids.has(g.parentId) ? g.parentId : null
+  );
+  const tree: { group: BubbleGroup; depth: number }[] = [];
+  const seen = new Set<string>();
+  const visit = (group: BubbleGroup, depth: number) => {
+    if (seen.has(group.id)) return;
+    seen.add(group.id);
+    tree.push({ group, depth });
+    (childrenOf.get(group.id) ?? []).forEach((c) => visit(c, depth + 1));
+  };
+  (childrenOf.get(null) ?? []).forEach((g) => visit(g, 0));
+  // Groups caught in a parent cycle have no root; list them at the top level.
+  groups.forEach((g) => visit(g, 0));
+  return tree;
+}
+
+/** Hidden when the group itself or any group it sits inside is hidden. */
+export function isGroupHidden(
+  group: BubbleGroup,
+  groups: BubbleGroup[],
+  hiddenGroupIds: Set<string> | null | undefined
+): boolean {
+  if (!hiddenGroupIds || hiddenGroupIds.size === 0) return false;
+  return (
+    hiddenGroupIds.has(group.id) ||
+    groupAncestors(group, groups).some((a) => hiddenGroupIds.has(a.id))
+  );
+}
+
+/** What the renderers need to outline one group. */
+export interface GroupHull {
+  id: string;
+  name: string;
+  color: string;
+  fill: string;
+  dash: string | null;
+  /** Everyone inside the outline, sub-group members included. */
+  memberNodeIds: string[];
+  /** Room left around members, more for parents so sub-groups fit inside. */
+  padding: number;
+}
+
+/** Outlines for the visible groups, parents first so they draw beneath. */
+export function groupHulls(
+  groups: BubbleGroup[],
+  hiddenGroupIds?: Set<string> | null
+): GroupHull[] {
+  const height = new Map<string, number>();
+  const heightOf = (group: BubbleGroup): number => {
+    const cached = height.get(group.id);
+    if (cached != null) return cached;
+    const children = groups.filter((g) => g.parentId === group.id);
+    height.set(group.id, 0); // guards against parent cycles
+    const h = children.length
+      ? 1 + Math.max(...children.map(heightOf))
+      : 0;
+    height.set(group.id, h);
+    return h;
+  };
+  return groupTree(groups)
+    .sort((a, b) => a.depth - b.depth)
+    .filter(({ group }) => !isGroupHidden(group, groups, hiddenGroupIds))
+    .map(({ group }) => ({
+      id: group.id,
+      name: group.name,
+      color: groupColor(group),
+      fill: groupFill(group),
+      dash: groupDash(group),
+      memberNodeIds: groupMemberIds(group, groups),
+      padding: HULL_PADDING + heightOf(group) * HULL_PADDING_PER_LEVEL,
+    }));
+}
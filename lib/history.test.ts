@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { BubbleGroup, LinkData, NodeData } from "@/types/network";
+import { createNode } from "@/lib/network-utils";
+import {
+  EMPTY_HISTORY,
+  HISTORY_LIMIT,
+  applyGroupOps,
+  applyLinkOps,
+  applyNodeOps,
+  invertCommand,
+  positionChanges,
+  pushCommand,
+  type HistoryCommand,
+} from "@/lib/history";
+
+const me = createNode("user", "Me", "user");
+const sam = createNode("conn-0", "Sam", "connection");
+const kim = createNode("conn-1", "Kim", "connection");
+
+interface Bubble {
+  nodes: NodeData[];
+  links: LinkData[];
+  groups: BubbleGroup[];
+}
+
+function apply(bubble: Bubble, command: HistoryCommand): Bubble {
+  return {
+    nodes: applyNodeOps(bubble.nodes, command.ops),
+    links: applyLinkOps(bubble.links, command.ops),
+    groups: applyGroupOps(bubble.groups, command.ops),
+  };
+}
+
+const start: Bubble = {
+  nodes: [me, sam],
+  links: [{ source: "user", target: "conn-0" }],
+  groups: [{ id: "group-0", name: "Work", memberNodeIds: ["conn-0"] }],
+};
+
+const edit: HistoryCommand = {
+  label: "A bit of everything",
+  ops: [
+    { type: "addNodes", nodes: [kim] },
+    { type: "addLinks", links: [{ source: "conn-0", target: "conn-1" }] },
+    {
+      type: "updateNodes",
+      changes: [
+        { id: "conn-0", before: { name: "Sam" }, after: { name: "Sammy" } },
+      ],
+    },
+    {
+      type: "updateLinks",
+      changes: [
+        {
+          id: "user->conn-0",
+          before: { strength: undefined },
+          after: { strength: 4 },
+        },
+      ],
+    },
+    {
+      type: "updateGroups",
+      changes: [
+        {
+          id: "group-0",
+          before: { memberNodeIds: ["conn-0"] },
+          after: { memberNodeIds: ["conn-0", "conn-1"] },
+        },
+      ],
+    },
+    { type: "removeLinks", links: [{ source: "user", target: "conn-0" }] },
+  ],
+};
+
+describe("history", () => {
+  it("applies a command to every slice", () => {
+    const after = apply(start, edit);
+    expect(after.nodes.map((n) => n.name)).toEqual(["Me", "Sammy", "Kim"]);
+    expect(after.links).toEqual([{ source: "conn-0", target: "conn-1" }]);
+    expect(after.groups[0].memberNodeIds).toEqual(["conn-0", "conn-1"]);
+  });
+
+  it("undoes a command with its inverse", () => {
+    const undone = apply(apply(start, edit), invertCommand(edit));
+    expect(undone.nodes).toEqual(start.nodes);
+    expect(undone.links).toEqual([
+      { source: "user", target: "conn-0", strength: undefined },
+    ]);
+    expect(undone.groups).toEqual(start.groups);
+  });
+
+  it("leaves slices a command doesn't touch as they were", () => {
+    const rename: HistoryCommand = {
+      label: "Rename",
+      ops: [
+        {
+          type: "updateNodes",
+          changes: [
+            { id: "user", before: { name: "Me" }, after: { name: "I" } },
+          ],
+        },
+      ],
+    };
+    const after = apply(start, rename);
+    expect(after.links).toBe(start.links);
+    expect(after.groups).toBe(start.groups);
+  });
+
+  it("doesn't add the same node or link twice", () => {
+    const again: HistoryCommand = {
+      label: "Add again",
+      ops: [
+        { type: "addNodes", nodes: [sam] },
+        { type: "addLinks", links: [{ source: "user", target: "conn-0" }] },
+      ],
+    };
+    const after = apply(start, again);
+    expect(after.nodes).toHaveLength(2);
+    expect(after.links).toHaveLength(1);
+  });
+
+  it("lists where a command moves people", () => {
+    const move: HistoryCommand = {
+      label: "Move",
+      ops: [
+        {
+          type: "updateNodes",
+          changes: [
+            { id: "conn-0", before: { x: 0, y: 0 }, after: { x: 5, y: 6 } },
+            { id: "user", before: { name: "Me" }, after: { name: "I" } },
+          ],
+        },
+      ],
+    };
+    expect(positionChanges(move)).toEqual([{ id: "conn-0", x: 5, y: 6 }]);
+  });
+
+  it("drops the redo stack and the oldest steps past the limit", () => {
+    let history = { ...EMPTY_HISTORY, future: [edit] };
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      history = pushCommand(history, { label: `Step ${i}`, ops: [] });
+    }
+    expect(history.future).toEqual([]);
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].label).toBe("Step 5");
+  });
+});
@@ -0,0 +1,224 @@
+import type { NodeData, LinkData, BubbleGroup } from "@/types/network";
+import { STORAGE_KEY } from "@/lib/network-utils";
+import { readItem, removeItem, writeItem } from "@/lib/storage";
+
+/** Where the single-bubble version of the app kept its history. */
+export const LEGACY_HISTORY_STORAGE_KEY = `${STORAGE_KEY}-history`;
+export const HISTORY_LIMIT = 100;
+
+export interface EntityChange<T> {
+  id: string;
+  before: Partial<T>;
+  after: Partial<T>;
+}
+
+export type HistoryOp =
+  | { type: "addNodes"; nodes: NodeData[] }
+  | { type: "removeNodes"; nodes: NodeData[] }
+  | { type: "updateNodes"; changes: EntityChange<NodeData>[] }
+  | { type: "addLinks"; links: LinkData[] }
+  | { type: "removeLinks"; links: LinkData[] }
+  // Links have no id of their own; changes are keyed by `linkKey`.
+  | { type: "updateLinks"; changes: EntityChange<LinkData>[] }
+  | { type: "addGroups"; groups: BubbleGroup[] }
+  | { type: "removeGroups"; groups: BubbleGroup[] }
+  | { type: "updateGroups"; changes: EntityChange<BubbleGroup>[] };
+
+export interface HistoryCommand {
+  label: string;
+  ops: HistoryOp[];
+}
+
+export interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+export function linkKey(link: LinkData): string {
+  return `${link.source}->${link.target}`;
+}
+
+function invertOp(op: HistoryOp): HistoryOp {
+  switch (op.type) {
+    case "addNodes":
+      return { type: "removeNodes", nodes: op.nodes };
+    case "removeNodes":
+      return { type: "addNodes", nodes: op.nodes };
+    case "updateNodes":
+      return {
+        type: "updateNodes",
+        changes: op.changes.map((c) => ({
+          id: c.id,
+          before: c.after,
+          after: c.before,
+        })),
+      };
+    case "addLinks":
+      return { type: "removeLinks", links: op.links };
+    case "removeLinks":
+      return { type: "addLinks", links: op.links };
+    case "updateLinks":
+      return {
+        type: "updateLinks",
+        changes: op.changes.map((c) => ({
+          id: c.id,
+          before: c.after,
+          after: c.before,
+        })),
+      };
+    case "addGroups":
+      return { type: "removeGroups", groups: op.groups };
+    case "removeGroups":
+      return { type: "addGroups", groups: op.groups };
+    case "updateGroups":
+      return {
+        type: "updateGroups",
+        changes: op.changes.map((c) => ({
+          id: c.id,
+          before: c.after,
+          after: c.before,
+        })),
+      };
+  }
+}
+
+export function invertCommand(command: HistoryCommand): HistoryCommand {
+  return {
+    label: command.label,
+    ops: [...command.ops].reverse().map(invertOp),
+  };
+}
+
+function applyChanges<T>(
+  items: T[],
+  changes: EntityChange<T>[],
+  idOf: (item: T) => string
+): T[] {
+  const byId = new Map(changes.map((c) => [c.id, c.after]));
+  return items.map((item) => {
+    const after = byId.get(idOf(item));
+    return after ? { ...item, ...after } : item;
+  });
+}
+
+const entityId = (item: { id: string }) => item.id;
+
+// Each slice is updated through its own setter, so ops are applied per slice.
+// Slices untouched by a command are returned as-is to avoid needless renders.
+
+export function applyNodeOps(nodes: NodeData[], ops: HistoryOp[]): NodeData[] {
+  return ops.reduce((acc, op) => {
+    switch (op.type) {
+      case "addNodes": {
+        const existing = new Set(acc.map((n) => n.id));
+        return [...acc, ...op.nodes.filter((n) => !existing.has(n.id))];
+      }
+      case "removeNodes": {
+        const ids = new Set(op.nodes.map((n) => n.id));
+        return acc.filter((n) => !ids.has(n.id));
+      }
+      case "updateNodes":
+        return applyChanges(acc, op.changes, entityId);
+      default:
+        return acc;
+    }
+  }, nodes);
+}
+
+export function applyLinkOps(links: LinkData[], ops: HistoryOp[]): LinkData[] {
+  return ops.reduce((acc, op) => {
+    switch (op.type) {
+      case "addLinks": {
+        const existing = new Set(acc.map(linkKey));
+        return [...acc, ...op.links.filter((l) => !existing.has(linkKey(l)))];
+      }
+      case "removeLinks": {
+        const keys = new Set(op.links.map(linkKey));
+        return acc.filter((l) => !keys.has(linkKey(l)));
+      }
+      case "updateLinks":
+        return applyChanges(acc, op.changes, linkKey);
+      default:
+        return acc;
+    }
+  }, links);
+}
+
+export function applyGroupOps(
+  groups: BubbleGroup[],
+  ops: HistoryOp[]
+): BubbleGroup[] {
+  return ops.reduce((acc, op) => {
+    switch (op.type) {
+      case "addGroups": {
+        const existing = new Set(acc.map((g) => g.id));
+        return [...acc, ...op.groups.filter((g) => !existing.has(g.id))];
+      }
+      case "removeGroups": {
+        const ids = new Set(op.groups.map((g) => g.id));
+        return acc.filter((g) => !ids.has(g.id));
+      }
+      case "updateGroups":
+        return applyChanges(acc, op.changes, entityId);
+      default:
+        return acc;
+    }
+  }, groups);
+}
+
+/** Node positions a command moves nodes to, for syncing the simulation. */
+export function positionChanges(
+  command: HistoryCommand
+): { id: string; x: number; y: number }[] {
+  return command.ops.flatMap((op) =>
+    op.type === "updateNodes"
+      ? op.changes
+          .filter((c) => c.after.x != null && c.after.y != null)
+          .map((c) => ({ id: c.id, x: c.after.x!, y: c.after.y! }))
+      : []
+  );
+}
+
+export function pushCommand(
+  history: HistoryState,
+  command: HistoryCommand
+): HistoryState {
+  return {
+    past: [...history.past, command].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+export function historyStorageKey(bubbleId: string): string {
+  return `${STORAGE_KEY}-history-${bubbleId}`;
+}
+
+export function loadHistoryFromStorage(bubbleId: string): HistoryState {
+  try {
+    const raw = readItem(historyStorageKey(bubbleId));
+    if (!raw) return EMPTY_HISTORY;
+    const saved: HistoryState = JSON.parse(raw);
+    if (!Array.isArray(saved?.past) || !Array.isArray(saved?.future)) {
+      return EMPTY_HISTORY;
+    }
+    return {
+      past: saved.past.slice(-HISTORY_LIMIT),
+      future: saved.future.slice(-HISTORY_LIMIT),
+    };
+  } catch {
+    return EMPTY_HISTORY;
+  }
+}
+
+export function saveHistoryToStorage(
+  bubbleId: string,
+  history: HistoryState
+): void {
+  writeItem(historyStorageKey(bubbleId), JSON.stringify(history));
+}
+
+export function clearHistoryFromStorage(bubbleId: string): void {
+  removeItem(historyStorageKey(bubbleId));
+}
@@ -0,0 +1,255 @@
+import type { BubbleGroup, SavedBubble } from "@/types/network";
+import {
+  BUBBLE_SCHEMA_VERSION,
+  readSavedBubble,
+  type SchemaResult,
+} from "@/lib/bubble-schema";
+import { createNode } from "@/lib/network-utils";
+
+/**
+ * Format-neutral view of a bubble shared by the interop converters. None of
+ * the formats has a first-class notion of overlapping groups, so each node
+ * lists its groups by name for people and other tools, and by id to match
+ * the group table written alongside when there is one.
+ */
+export interface InteropNode {
+  id: string;
+  name: string;
+  type?: string;
+  radius?: number;
+  x?: number;
+  y?: number;
+  groupNames: string[];
+  groupIds?: string[];
+}
+
+/** Relationship fields are kept as read so the validator can report them. */
+export interface InteropEdge {
+  source: string;
+  target: string;
+  type?: string;
+  customType?: string;
+  strength?: number;
+  direction?: string;
+  label?: string;
+}
+
+/** Group fields are kept as read so the validator can report them. */
+export interface InteropGroup {
+  id: string;
+  name: string;
+  parentId?: string;
+  color?: string;
+  outline?: string;
+}
+
+export interface InteropGraph {
+  title?: string;
+  nodes: InteropNode[];
+  edges: InteropEdge[];
+  /** Without a table, groups are rebuilt from the names on each node. */
+  groups?: InteropGroup[];
+}
+
+export interface ImportedBubble {
+  title: string;
+  bubble: SavedBubble;
+}
+
+/**
+ * Separator used when group names are packed into a single text field. A
+ * separator or backslash inside a name is escaped with a backslash.
+ */
+export const GROUP_SEPARATOR = ";";
+const GROUP_ESCAPE = "\\";
+
+export function joinGroupNames(names: string[]): string {
+  return names
+    .map((name) => name.replace(/[\\;]/g, `${GROUP_ESCAPE}$&`))
+    .join(`${GROUP_SEPARATOR} `);
+}
+
+export function splitGroupNames(value: string | undefined | null): string[] {
+  const names: string[] = [];
+  let name = "";
+  const text = value ?? "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === GROUP_ESCAPE && i + 1 < text.length) {
+      name += text[++i];
+    } else if (ch === GROUP_SEPARATOR) {
+      names.push(name);
+      name = "";
+    } else {
+      name += ch;
+    }
+  }
+  names.push(name);
+  return names.map((n) => n.trim()).filter(Boolean);
+}
+
+/** The group table as one JSON text field; empty when there are no groups. */
+export function writeGroupTable(groups: InteropGroup[] | undefined): string {
+  return groups && groups.length > 0 ? JSON.stringify(groups) : "";
+}
+
+/**
+ * Reads a group table written by `writeGroupTable`. A table that is missing
+ * or can't be read gives undefined, so groups fall back to their names.
+ */
+export function readGroupTable(
+  value: string | undefined | null
+): InteropGroup[] | undefined {
+  if (!value) return undefined;
+  try {
+    const groups: unknown = JSON.parse(value);
+    return Array.isArray(groups) &&
+      groups.every((g) => typeof g === "object" && g !== null)
+      ? (groups as InteropGroup[])
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseOptionalNumber(
+  value: string | undefined | null
+): number | undefined {
+  if (value == null || value.trim() === "") return undefined;
+  const num = Number(value);
+  return isFinite(num) ? num : undefined;
+}
+
+export function toInteropGraph(
+  title: string,
+  bubble: SavedBubble
+): InteropGraph {
+  const groups = bubble.groups ?? [];
+  return {
+    title,
+    nodes: bubble.nodes.map((n) => ({
+      id: n.id,
+      name: n.name,
+      type: n.type,
+      radius: n.radius,
+      x: n.x,
+      y: n.y,
+      groupNames: groups
+        .filter((g) => g.memberNodeIds.includes(n.id))
+        .map((g) => g.name),
+      groupIds: groups
+        .filter((g) => g.memberNodeIds.includes(n.id))
+        .map((g) => g.id),
+    })),
+    edges: bubble.links.map((l) => ({ ...l })),
+    groups: groups.map(({ id, name, parentId, color, outline }) => ({
+      id,
+      name,
+      parentId,
+      color,
+      outline,
+    })),
+  };
+}
+
+/**
+ * Groups for an imported graph. With a group table, members are matched by
+ * id so groups sharing a name stay apart and keep their nesting and style;
+ * without one, each distinct name on the nodes becomes a group.
+ */
+function importGroups(graph: InteropGraph): BubbleGroup[] {
+  const groups = new Map<string, BubbleGroup>();
+  graph.groups?.forEach((g) => {
+    if (!groups.has(g.id)) {
+      groups.set(g.id, { ...(g as BubbleGroup), memberNodeIds: [] });
+    }
+  });
+  const idsByName = new Map<string, string>();
+  let count = 0;
+  const nextId = () => {
+    while (groups.has(`group-${count}`)) count++;
+    return `group-${count}`;
+  };
+
+  graph.nodes.forEach((n) => {
+    const ids = graph.groups
+      ? (n.groupIds ?? [])
+      : n.groupNames.map((groupName) => {
+          if (!idsByName.has(groupName)) {
+            const id = nextId();
+            idsByName.set(groupName, id);
+            groups.set(id, { id, name: groupName, memberNodeIds: [] });
+          }
+          return idsByName.get(groupName)!;
+        });
+    ids.forEach((id) => {
+      // Ids missing from the table still group their members together.
+      if (!groups.has(id)) groups.set(id, { id, name: id, memberNodeIds: [] });
+      const members = groups.get(id)!.memberNodeIds;
+      if (!members.includes(n.id)) members.push(n.id);
+    });
+  });
+  return [...groups.values()];
+}
+
+/**
+ * Rebuilds a bubble from an imported graph and validates it, so problems in
+ * the source file are reported against the field that caused them.
+ */
+export function fromInteropGraph(
+  graph: InteropGraph,
+  fallbackTitle: string
+): SchemaResult<ImportedBubble> {
+
+  // Nodes without a type are plain connections; unknown types are kept so
+  // the validator can point at them.
+  const nodes = graph.nodes.map((n) => {
+    const type = n.type ?? "connection";
+    const base =
+      type === "user" || type === "connection"
+        ? createNode(n.id, n.name, type)
+        : { ...createNode(n.id, n.name, "connection"), type };
+    return {
+      ...base,
+      radius: n.radius ?? base.radius,
+      ...(n.x != null && n.y != null ? { x: n.x, y: n.y } : {}),
+    };
+  });
+
+  const seen = new Set<string>();
+  const links = graph.edges
+    .filter((e) => {
+      const key = [e.source, e.target].sort().join("\u0000");
+      if (e.source === e.target || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ source, target, ...attributes }) => ({
+      source,
+      target,
+      ...Object.fromEntries(
+        Object.entries(attributes).filter(
+          ([, value]) => value != null && value !== ""
+        )
+      ),
+    }));
+
+  const groups = importGroups(graph);
+
+  const owner = nodes.find((n) => n.type === "user");
+  const result = readSavedBubble({
+    version: BUBBLE_SCHEMA_VERSION,
+    name: owner?.name ?? "",
+    nodes,
+    links,
+    groups: groups.length > 0 ? groups : undefined,
+  });
+  if (!result.ok) return result;
+  return {
+    ok: true,
+    value: {
+      title: graph.title?.trim() || fallbackTitle,
+      bubble: result.value,
+    },
+  };
+}
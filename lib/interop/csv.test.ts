@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { createNode, toSavedBubble } from "@/lib/network-utils";
+import { fromCsv, parseCsv, toEdgesCsv, toNodesCsv } from "@/lib/interop/csv";
+
+describe("CSV interop", () => {
+  it("round-trips group names containing the separator", () => {
+    const nodes = [
+      createNode("user", "Alex", "user"),
+      createNode("conn-0", "Sam", "connection"),
+    ];
+    const links = [{ source: "user", target: "conn-0" }];
+    const names = ["Work; old team", "C:\\games", "Friends"];
+    const groups = names.map((name, i) => ({
+      id: `group-${i}`,
+      name,
+      memberNodeIds: ["conn-0"],
+    }));
+    const bubble = toSavedBubble("Alex", nodes, links, groups);
+
+    const result = fromCsv(toNodesCsv(bubble), toEdgesCsv(bubble), "Alex");
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const imported = result.value.bubble.groups ?? [];
+    expect(imported.map((g) => g.name)).toEqual(names);
+    imported.forEach((g) => expect(g.memberNodeIds).toEqual(["conn-0"]));
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads quoted cells with commas, quotes and newlines", () => {
+    expect(parseCsv('id,name\r\n1,"Sam, ""Sammy""\nJones"\n\n2,Kim')).toEqual(
+      [
+        ["id", "name"],
+        ["1", 'Sam, "Sammy"\nJones'],
+        ["2", "Kim"],
+      ]
+    );
+  });
+});
+
+describe("fromCsv", () => {
+  it("needs an id column in the nodes file", () => {
+    expect(fromCsv("name\nSam\n", "source,target\n", "x")).toEqual({
+      ok: false,
+      errors: [{ path: "nodes.csv", message: 'is missing an "id" column' }],
+    });
+  });
+
+  it("fills in names and types, and reads relationship columns", () => {
+    const result = fromCsv(
+      "id,type\nme,user\nsam,\n",
+      "source,target,relationship,strength\nme,sam,friend,5\n",
+      "Imported"
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.bubble.nodes.map((n) => [n.name, n.type])).toEqual([
+      ["me", "user"],
+      ["sam", "connection"],
+    ]);
+    expect(result.value.bubble.links).toEqual([
+      { source: "me", target: "sam", type: "friend", strength: 5 },
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import type { SavedBubble } from "@/types/network";
+import type { SchemaResult } from "@/lib/bubble-schema";
+import {
+  toInteropGraph,
+  fromInteropGraph,
+  joinGroupNames,
+  splitGroupNames,
+  parseOptionalNumber,
+  type ImportedBubble,
+} from "@/lib/interop/common";
+
+export const NODE_COLUMNS = ["id", "name", "type", "groups", "x", "y"];
+export const EDGE_COLUMNS = ["source", "target"];
+const EDGE_ATTRIBUTE_COLUMNS = [
+  "relationship",
+  "custom_type",
+  "strength",
+  "direction",
+  "label",
+];
+
+function escapeCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/** Parses RFC 4180 CSV, including quoted cells with commas and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * Rows keyed by lower-cased header, so column order doesn't matter. `trim`
+ * also strips the byte-order mark spreadsheet apps put before the header.
+ */
+function toRecords(rows: string[][]): Record<string, string>[] {
+  const [header = [], ...body] = rows;
+  const keys = header.map((h) => h.trim().toLowerCase());
+  return body.map((cells) =>
+    Object.fromEntries(keys.map((k, i) => [k, cells[i]?.trim() ?? ""]))
+  );
+}
+
+export function isEdgeCsv(text: string): boolean {
+  const [header = []] = parseCsv(text);
+  const keys = header.map((h) => h.trim().toLowerCase());
+  return EDGE_COLUMNS.every((c) => keys.includes(c));
+}
+
+export function toNodesCsv(bubble: SavedBubble): string {
+  const graph = toInteropGraph("", bubble);
+  return toCsv([
+    NODE_COLUMNS,
+    ...graph.nodes.map((n) => [
+      n.id,
+      n.name,
+      n.type ?? "",
+      joinGroupNames(n.groupNames),
+      n.x != null ? String(n.x) : "",
+      n.y != null ? String(n.y) : "",
+    ]),
+  ]);
+}
+
+export function toEdgesCsv(bubble: SavedBubble): string {
+  return toCsv([
+    [...EDGE_COLUMNS, ...EDGE_ATTRIBUTE_COLUMNS],
+    ...bubble.links.map((l) => [
+      l.source,
+      l.target,
+      l.type ?? "",
+      l.customType ?? "",
+      l.strength != null ? String(l.strength) : "",
+      l.direction ?? "",
+      l.label ?? "",
+    ]),
+  ]);
+}
+
+/**
+ * Builds a bubble from a nodes.csv / edges.csv pair. Only `id` is required
+ * in the nodes file; `name` falls back to the id and `type` to "connection".
+ * Relationship columns in the edges file are optional.
+ */
+export function fromCsv(
+  nodesText: string,
+  edgesText: string,
+  fallbackTitle: string
+): SchemaResult<ImportedBubble> {
+  const nodeRows = toRecords(parseCsv(nodesText));
+  const edgeRows = toRecords(parseCsv(edgesText));
+  if (nodeRows.length > 0 && !("id" in nodeRows[0])) {
+    return {
+      ok: false,
+      errors: [{ path: "nodes.csv", message: 'is missing an "id" column' }],
+    };
+  }
+
+  const nodes = nodeRows.map((r) => ({
+    id: r.id,
+    name: r.name || r.id,
+    type: r.type || undefined,
+    x: parseOptionalNumber(r.x),
+    y: parseOptionalNumber(r.y),
+    groupNames: splitGroupNames(r.groups),
+  }));
+  const edges = edgeRows.map((r) => ({
+    source: r.source,
+    target: r.target,
+    type: r.relationship,
+    customType: r.custom_type,
+    strength: parseOptionalNumber(r.strength),
+    direction: r.direction,
+    label: r.label,
+  }));
+
+  return fromInteropGraph({ nodes, edges }, fallbackTitle);
+}
@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { createNode, toSavedBubble } from "@/lib/network-utils";
+import { fromGEXF, toGEXF } from "@/lib/interop/gexf";
+
+const bubble = toSavedBubble(
+  "Alex",
+  [
+    { ...createNode("user", "Alex", "user"), x: 0, y: 0 },
+    { ...createNode("conn-0", "Sam", "connection"), x: 40, y: -20 },
+    createNode("conn-1", "Kim", "connection"),
+  ],
+  [
+    { source: "user", target: "conn-0", type: "colleague", strength: 2 },
+    { source: "conn-0", target: "conn-1", label: "neighbours" },
+  ],
+  [{ id: "group-0", name: "Work", memberNodeIds: ["conn-0"] }]
+);
+
+const grouped = toSavedBubble(
+  "Alex",
+  [
+    createNode("user", "Alex", "user"),
+    createNode("conn-0", "Sam", "connection"),
+    createNode("conn-1", "Kim", "connection"),
+  ],
+  [],
+  [
+    { id: "work", name: "Work", memberNodeIds: [], color: "#0ea5e9" },
+    {
+      id: "team-a",
+      name: "Team",
+      memberNodeIds: ["conn-0"],
+      parentId: "work",
+      outline: "solid",
+    },
+    { id: "team-b", name: "Team", memberNodeIds: ["conn-0", "conn-1"] },
+  ]
+);
+
+describe("GEXF", () => {
+  it("round-trips a bubble", () => {
+    const result = fromGEXF(toGEXF("Alex's bubble", bubble), "x");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.title).toBe("Alex's bubble");
+    expect(result.value.bubble.nodes).toEqual(bubble.nodes);
+    expect(result.value.bubble.links).toEqual(bubble.links);
+    expect(result.value.bubble.groups).toEqual(bubble.groups);
+  });
+
+  it("flips y so Gephi's layout stays the right way up", () => {
+    expect(toGEXF("t", bubble)).toContain('<viz:position x="40" y="20"');
+  });
+
+  it("ignores edge weights from other tools", () => {
+    const gephi = `<?xml version="1.0" encoding="UTF-8"?>
+<gexf xmlns="http://gexf.net/1.3" version="1.3">
+  <graph defaultedgetype="undirected">
+    <nodes>
+      <node id="a" label="A">
+        <attvalues><attvalue for="type" value="user"/></attvalues>
+      </node>
+      <node id="b" label="B"/>
+    </nodes>
+    <edges><edge id="0" source="a" target="b" weight="1"/></edges>
+  </graph>
+</gexf>`;
+    const result = fromGEXF(gephi, "Imported");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.bubble.links).toEqual([
+      { source: "a", target: "b" },
+    ]);
+  });
+
+  it("keeps group ids, nesting and styling", () => {
+    const result = fromGEXF(toGEXF("t", grouped), "x");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.bubble.groups).toEqual(grouped.groups);
+  });
+});
@@ -0,0 +1,195 @@
+import type { SavedBubble } from "@/types/network";
+import type { SchemaResult } from "@/lib/bubble-schema";
+import {
+  toInteropGraph,
+  fromInteropGraph,
+  joinGroupNames,
+  splitGroupNames,
+  parseOptionalNumber,
+  readGroupTable,
+  writeGroupTable,
+  type ImportedBubble,
+} from "@/lib/interop/common";
+import {
+  escapeXml,
+  parseXml,
+  childElements,
+  descendantElements,
+} from "@/lib/interop/xml";
+import { MIN_STRENGTH, MAX_STRENGTH } from "@/lib/relationships";
+
+// Gephi's y axis points up while SVG's points down, so y is negated on the
+// way in and out to keep the layout the right way round. Link closeness is
+// kept in its own strength attribute and also written as the edge weight
+// for Gephi, but only the attribute is read back: other tools weigh edges
+// on scales of their own. GEXF has no graph-level attributes, so the group
+// table rides along on the user's node.
+
+/** Reads attvalues keyed by the attribute titles declared for `cls`. */
+function readAttValues(
+  graphEl: Element,
+  cls: "node" | "edge"
+): (el: Element) => Record<string, string> {
+  const titles = new Map<string, string>();
+  childElements(graphEl, "attributes")
+    .filter((el) => el.getAttribute("class") === cls)
+    .flatMap((el) => childElements(el, "attribute"))
+    .forEach((attr) => {
+      const id = attr.getAttribute("id");
+      if (id) titles.set(id, attr.getAttribute("title") ?? id);
+    });
+  return (el) => {
+    const values: Record<string, string> = {};
+    descendantElements(el, "attvalue").forEach((av) => {
+      const key = av.getAttribute("for") ?? av.getAttribute("id");
+      if (key) values[titles.get(key) ?? key] = av.getAttribute("value") ?? "";
+    });
+    return values;
+  };
+}
+
+function attValue(key: string, value: string | undefined): string {
+  return value ? `<attvalue for="${key}" value="${escapeXml(value)}"/>` : "";
+}
+
+export function toGEXF(title: string, bubble: SavedBubble): string {
+  const graph = toInteropGraph(title, bubble);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    "  <meta>",
+    "    <creator>Do You Know My Bubble?</creator>",
+    `    <description>${escapeXml(title)}</description>`,
+    "  </meta>",
+    '  <graph defaultedgetype="undirected" mode="static">',
+    '    <attributes class="node">',
+    '      <attribute id="type" title="type" type="string"/>',
+    '      <attribute id="groups" title="groups" type="string"/>',
+    '      <attribute id="groupIds" title="groupIds" type="string"/>',
+    '      <attribute id="groupTable" title="groupTable" type="string"/>',
+    "    </attributes>",
+    '    <attributes class="edge">',
+    '      <attribute id="relationship" title="relationship" type="string"/>',
+    '      <attribute id="customType" title="customType" type="string"/>',
+    '      <attribute id="direction" title="direction" type="string"/>',
+    '      <attribute id="strength" title="strength" type="integer"/>',
+    "    </attributes>",
+    "    <nodes>",
+    ...graph.nodes.map((n) => {
+      const position =
+        n.x != null && n.y != null
+          ? `<viz:position x="${n.x}" y="${-n.y}" z="0"/>`
+          : "";
+      const size = n.radius != null ? `<viz:size value="${n.radius}"/>` : "";
+      return (
+        `      <node id="${escapeXml(n.id)}" label="${escapeXml(n.name)}">` +
+        "<attvalues>" +
+        `<attvalue for="type" value="${escapeXml(n.type ?? "")}"/>` +
+        `<attvalue for="groups" value="${escapeXml(joinGroupNames(n.groupNames))}"/>` +
+        attValue("groupIds", joinGroupNames(n.groupIds ?? [])) +
+        attValue(
+          "groupTable",
+          n.type === "user" ? writeGroupTable(graph.groups) : ""
+        ) +
+        "</attvalues>" +
+        position +
+        size +
+        "</node>"
+      );
+    }),
+    "    </nodes>",
+    "    <edges>",
+    ...graph.edges.map((e, i) => {
+      const weight = e.strength != null ? ` weight="${e.strength}"` : "";
+      const label = e.label ? ` label="${escapeXml(e.label)}"` : "";
+      return (
+        `      <edge id="e${i}" source="${escapeXml(e.source)}" target="${escapeXml(e.target)}"${weight}${label}>` +
+        "<attvalues>" +
+        attValue("relationship", e.type) +
+        attValue("customType", e.customType) +
+        attValue("direction", e.direction) +
+        attValue("strength", e.strength?.toString()) +
+        "</attvalues>" +
+        "</edge>"
+      );
+    }),
+    "    </edges>",
+    "  </graph>",
+    "</gexf>",
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Reads GEXF 1.2/1.3. Node attributes are matched by their declared title,
+ * so files where Gephi renumbered attribute ids still load. Groups are
+ * matched by id against the group table this app writes, or else by name.
+ */
+export function fromGEXF(
+  text: string,
+  fallbackTitle: string
+): SchemaResult<ImportedBubble> {
+  const doc = parseXml(text);
+  if (!doc) {
+    return {
+      ok: false,
+      errors: [{ path: "(root)", message: "is not valid XML" }],
+    };
+  }
+  const graphEl = descendantElements(doc, "graph")[0];
+  if (!graphEl) {
+    return {
+      ok: false,
+      errors: [{ path: "gexf", message: "has no <graph> element" }],
+    };
+  }
+
+  const readNodeValues = readAttValues(graphEl, "node");
+  const readEdgeValues = readAttValues(graphEl, "edge");
+
+  const nodesEl = childElements(graphEl, "nodes")[0];
+  const edgesEl = childElements(graphEl, "edges")[0];
+
+  const nodes = (nodesEl ? childElements(nodesEl, "node") : []).map((el) => {
+    const values = readNodeValues(el);
+    const position = descendantElements(el, "position")[0];
+    const size = descendantElements(el, "size")[0];
+    const y = parseOptionalNumber(position?.getAttribute("y"));
+    const id = el.getAttribute("id") ?? "";
+    return {
+      id,
+      name: el.getAttribute("label") ?? id,
+      type: values.type || undefined,
+      radius: parseOptionalNumber(size?.getAttribute("value")),
+      x: parseOptionalNumber(position?.getAttribute("x")),
+      // `|| 0` so y="0" doesn't come back as -0.
+      y: y != null ? -y || 0 : undefined,
+      groupNames: splitGroupNames(values.groups),
+      groupIds: splitGroupNames(values.groupIds),
+      groupTable: values.groupTable,
+    };
+  });
+  const edges = (edgesEl ? childElements(edgesEl, "edge") : []).map((el) => {
+    const values = readEdgeValues(el);
+    const strength = parseOptionalNumber(values.strength);
+    return {
+      source: el.getAttribute("source") ?? "",
+      target: el.getAttribute("target") ?? "",
+      type: values.relationship,
+      customType: values.customType,
+      strength:
+        strength != null &&
+        Number.isInteger(strength) &&
+        strength >= MIN_STRENGTH &&
+        strength <= MAX_STRENGTH
+          ? strength
+          : undefined,
+      direction: values.direction,
+      label: el.getAttribute("label") ?? undefined,
+    };
+  });
+
+  const title = descendantElements(doc, "description")[0]?.textContent ?? "";
+  const groups = readGroupTable(nodes.find((n) => n.groupTable)?.groupTable);
+  return fromInteropGraph({ title, nodes, edges, groups }, fallbackTitle);
+}
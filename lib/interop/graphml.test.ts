@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { createNode, toSavedBubble } from "@/lib/network-utils";
+import { fromGraphML, toGraphML } from "@/lib/interop/graphml";
+
+const bubble = toSavedBubble(
+  "Alex",
+  [
+    { ...createNode("user", "Alex & co", "user"), x: 0, y: 0 },
+    { ...createNode("conn-0", "Sam <3", "connection"), x: 40, y: -20 },
+  ],
+  [
+    {
+      source: "user",
+      target: "conn-0",
+      type: "friend",
+      strength: 4,
+      direction: "forward",
+      label: "since school",
+    },
+  ],
+  [{ id: "group-0", name: "Friends", memberNodeIds: ["conn-0"] }]
+);
+
+const grouped = toSavedBubble(
+  "Alex",
+  [
+    createNode("user", "Alex", "user"),
+    createNode("conn-0", "Sam", "connection"),
+    createNode("conn-1", "Kim", "connection"),
+  ],
+  [],
+  [
+    { id: "work", name: "Work", memberNodeIds: [], color: "#0ea5e9" },
+    {
+      id: "team-a",
+      name: "Team",
+      memberNodeIds: ["conn-0"],
+      parentId: "work",
+      outline: "solid",
+    },
+    { id: "team-b", name: "Team", memberNodeIds: ["conn-0", "conn-1"] },
+  ]
+);
+
+describe("GraphML", () => {
+  it("round-trips a bubble", () => {
+    const result = fromGraphML(toGraphML("Alex's bubble", bubble), "x");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.title).toBe("Alex's bubble");
+    expect(result.value.bubble.nodes).toEqual(bubble.nodes);
+    expect(result.value.bubble.links).toEqual(bubble.links);
+    expect(result.value.bubble.groups).toEqual(bubble.groups);
+  });
+
+  it("reads files with generated key ids and labels", () => {
+    const text = `<?xml version="1.0"?>
+      <graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+        <key id="d0" for="node" attr.name="label" attr.type="string"/>
+        <key id="d1" for="node" attr.name="type" attr.type="string"/>
+        <graph edgedefault="undirected">
+          <node id="a"><data key="d0">Alex</data><data key="d1">user</data></node>
+          <node id="b"><data key="d0">Sam</data></node>
+          <edge source="a" target="b"/>
+        </graph>
+      </graphml>`;
+    const result = fromGraphML(text, "Imported");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.bubble.nodes.map((n) => [n.name, n.type])).toEqual([
+      ["Alex", "user"],
+      ["Sam", "connection"],
+    ]);
+    expect(result.value.bubble.links).toEqual([{ source: "a", target: "b" }]);
+  });
+
+  it("rejects text that isn't XML", () => {
+    expect(fromGraphML("<graphml>", "x")).toEqual({
+      ok: false,
+      errors: [{ path: "(root)", message: "is not valid XML" }],
+    });
+  });
+
+  it("keeps group ids, nesting and styling", () => {
+    const result = fromGraphML(toGraphML("t", grouped), "x");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.bubble.groups).toEqual(grouped.groups);
+  });
+
+  it("groups by name in files without a group table", () => {
+    const text = `<?xml version="1.0"?>
+      <graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+        <key id="d0" for="node" attr.name="type" attr.type="string"/>
+        <key id="d1" for="node" attr.name="groups" attr.type="string"/>
+        <graph edgedefault="undirected">
+          <node id="a"><data key="d0">user</data></node>
+          <node id="b"><data key="d1">Work; Climbing</data></node>
+          <node id="c"><data key="d1">Work</data></node>
+        </graph>
+      </graphml>`;
+    const result = fromGraphML(text, "Imported");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.bubble.groups).toEqual([
+      { id: "group-0", name: "Work", memberNodeIds: ["b", "c"] },
+      { id: "group-1", name: "Climbing", memberNodeIds: ["b"] },
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import type { SavedBubble } from "@/types/network";
+import type { SchemaResult } from "@/lib/bubble-schema";
+import {
+  toInteropGraph,
+  fromInteropGraph,
+  joinGroupNames,
+  splitGroupNames,
+  parseOptionalNumber,
+  readGroupTable,
+  writeGroupTable,
+  type ImportedBubble,
+} from "@/lib/interop/common";
+import {
+  escapeXml,
+  parseXml,
+  childElements,
+  descendantElements,
+} from "@/lib/interop/xml";
+
+const NODE_KEYS = [
+  { id: "name", type: "string" },
+  { id: "type", type: "string" },
+  { id: "radius", type: "double" },
+  { id: "x", type: "double" },
+  { id: "y", type: "double" },
+  { id: "groups", type: "string" },
+  { id: "groupIds", type: "string" },
+] as const;
+
+const EDGE_KEYS = [
+  { id: "relationship", type: "string" },
+  { id: "customType", type: "string" },
+  { id: "strength", type: "int" },
+  { id: "direction", type: "string" },
+  { id: "label", type: "string" },
+] as const;
+
+function dataElement(key: string, value: string | number | undefined) {
+  return value == null || value === ""
+    ? ""
+    : `<data key="${key}">${escapeXml(String(value))}</data>`;
+}
+
+export function toGraphML(title: string, bubble: SavedBubble): string {
+  const graph = toInteropGraph(title, bubble);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="title" for="graph" attr.name="title" attr.type="string"/>',
+    '  <key id="groupTable" for="graph" attr.name="groupTable" attr.type="string"/>',
+    ...NODE_KEYS.map(
+      (k) =>
+        `  <key id="${k.id}" for="node" attr.name="${k.id}" attr.type="${k.type}"/>`
+    ),
+    ...EDGE_KEYS.map(
+      (k) =>
+        `  <key id="${k.id}" for="edge" attr.name="${k.id}" attr.type="${k.type}"/>`
+    ),
+    '  <graph id="bubble" edgedefault="undirected">',
+    `    ${dataElement("title", title)}`,
+    `    ${dataElement("groupTable", writeGroupTable(graph.groups))}`,
+    ...graph.nodes.map(
+      (n) =>
+        `    <node id="${escapeXml(n.id)}">` +
+        dataElement("name", n.name) +
+        dataElement("type", n.type) +
+        dataElement("radius", n.radius) +
+        dataElement("x", n.x) +
+        dataElement("y", n.y) +
+        dataElement("groups", joinGroupNames(n.groupNames)) +
+        dataElement("groupIds", joinGroupNames(n.groupIds ?? [])) +
+        "</node>"
+    ),
+    ...graph.edges.map(
+      (e) =>
+        `    <edge source="${escapeXml(e.source)}" target="${escapeXml(e.target)}">` +
+        dataElement("relationship", e.type) +
+        dataElement("customType", e.customType) +
+        dataElement("strength", e.strength) +
+        dataElement("direction", e.direction) +
+        dataElement("label", e.label) +
+        "</edge>"
+    ),
+    "  </graph>",
+    "</graphml>",
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Reads GraphML written by this app or by tools such as Gephi. Data keys are
+ * matched by `attr.name`, so files using generated key ids (d0, d1…) work;
+ * a `label` attribute is accepted in place of `name`. Groups are matched
+ * by id against the group table this app writes, or else by name.
+ */
+export function fromGraphML(
+  text: string,
+  fallbackTitle: string
+): SchemaResult<ImportedBubble> {
+  const doc = parseXml(text);
+  if (!doc) {
+    return {
+      ok: false,
+      errors: [{ path: "(root)", message: "is not valid XML" }],
+    };
+  }
+  const graphEl = descendantElements(doc, "graph")[0];
+  if (!graphEl) {
+    return {
+      ok: false,
+      errors: [{ path: "graphml", message: "has no <graph> element" }],
+    };
+  }
+
+  const keyNames = new Map<string, string>();
+  descendantElements(doc, "key").forEach((key) => {
+    const id = key.getAttribute("id");
+    if (id) keyNames.set(id, key.getAttribute("attr.name") ?? id);
+  });
+  const readData = (el: Element) => {
+    const values: Record<string, string> = {};
+    childElements(el, "data").forEach((d) => {
+      const key = d.getAttribute("key");
+      if (key) values[keyNames.get(key) ?? key] = d.textContent ?? "";
+    });
+    return values;
+  };
+
+  const nodes = childElements(graphEl, "node").map((el) => {
+    const data = readData(el);
+    const id = el.getAttribute("id") ?? "";
+    return {
+      id,
+      name: data.name ?? data.label ?? id,
+      type: data.type || undefined,
+      radius: parseOptionalNumber(data.radius),
+      x: parseOptionalNumber(data.x),
+      y: parseOptionalNumber(data.y),
+      groupNames: splitGroupNames(data.groups),
+      groupIds: splitGroupNames(data.groupIds),
+    };
+  });
+  const edges = childElements(graphEl, "edge").map((el) => {
+    const data = readData(el);
+    return {
+      source: el.getAttribute("source") ?? "",
+      target: el.getAttribute("target") ?? "",
+      type: data.relationship,
+      customType: data.customType,
+      strength: parseOptionalNumber(data.strength),
+      direction: data.direction,
+      label: data.label,
+    };
+  });
+
+  const { title, groupTable } = readData(graphEl);
+  return fromInteropGraph(
+    { title, nodes, edges, groups: readGroupTable(groupTable) },
+    fallbackTitle
+  );
+}
@@ -0,0 +1,134 @@
+import {
+  parseBubbleFile,
+  type BubbleFile,
+  type SchemaResult,
+} from "@/lib/bubble-schema";
+import { toFileStem } from "@/lib/download";
+import type { ImportedBubble } from "@/lib/interop/common";
+import { toGraphML, fromGraphML } from "@/lib/interop/graphml";
+import { toGEXF, fromGEXF } from "@/lib/interop/gexf";
+import { toNodesCsv, toEdgesCsv, fromCsv, isEdgeCsv } from "@/lib/interop/csv";
+
+export type { ImportedBubble } from "@/lib/interop/common";
+
+export type ExportFormat = "json" | "graphml" | "gexf" | "csv";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: "json", label: "JSON" },
+  { id: "graphml", label: "GraphML" },
+  { id: "gexf", label: "GEXF" },
+  { id: "csv", label: "CSV" },
+];
+
+export interface ExportedFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+/**
+ * Converts an exported bubble to the files for `format`. CSV yields a
+ * nodes/edges pair; the other formats a single file.
+ */
+export function exportBubbleAs(
+  format: ExportFormat,
+  file: BubbleFile
+): ExportedFile[] {
+  const { title, bubble } = file;
+  const stem = toFileStem(title);
+  switch (format) {
+    case "json":
+      return [
+        {
+          filename: `${stem}.bubble.json`,
+          content: JSON.stringify(file, null, 2),
+          mimeType: "application/json",
+        },
+      ];
+    case "graphml":
+      return [
+        {
+          filename: `${stem}.graphml`,
+          content: toGraphML(title, bubble),
+          mimeType: "application/graphml+xml",
+        },
+      ];
+    case "gexf":
+      return [
+        {
+          filename: `${stem}.gexf`,
+          content: toGEXF(title, bubble),
+          mimeType: "application/gexf+xml",
+        },
+      ];
+    case "csv":
+      return [
+        {
+          filename: `${stem}-nodes.csv`,
+          content: toNodesCsv(bubble),
+          mimeType: "text/csv",
+        },
+        {
+          filename: `${stem}-edges.csv`,
+          content: toEdgesCsv(bubble),
+          mimeType: "text/csv",
+        },
+      ];
+  }
+}
+
+function extensionOf(filename: string): string {
+  return filename.toLowerCase().split(".").pop() ?? "";
+}
+
+function titleFromFilename(filename: string): string {
+  return filename.replace(/(\.bubble)?\.[^.]+$/i, "").replace(/[-_]+/g, " ");
+}
+
+/**
+ * Imports a bubble from the chosen files, picking the converter by file
+ * extension. CSV imports need both the nodes and the edges file.
+ */
+export function importBubbleFiles(
+  files: { name: string; text: string }[]
+): SchemaResult<ImportedBubble> {
+  const csvFiles = files.filter((f) => extensionOf(f.name) === "csv");
+  if (csvFiles.length > 0) {
+    const edges = csvFiles.find((f) => isEdgeCsv(f.text));
+    const nodes = csvFiles.find((f) => f !== edges);
+    if (!edges || !nodes || csvFiles.length !== 2) {
+      return {
+        ok: false,
+        errors: [
+          {
+            path: "(files)",
+            message:
+              "CSV import needs two files: nodes (id, name, type, groups) and edges (source, target)",
+          },
+        ],
+      };
+    }
+    return fromCsv(
+      nodes.text,
+      edges.text,
+      titleFromFilename(nodes.name).replace(/ nodes$/i, "")
+    );
+  }
+
+  if (files.length !== 1) {
+    return {
+      ok: false,
+      errors: [{ path: "(files)", message: "choose a single file to import" }],
+    };
+  }
+  const [file] = files;
+  switch (extensionOf(file.name)) {
+    case "graphml":
+    case "xml":
+      return fromGraphML(file.text, titleFromFilename(file.name));
+    case "gexf":
+      return fromGEXF(file.text, titleFromFilename(file.name));
+    default:
+      return parseBubbleFile(file.text);
+  }
+}
@@ -0,0 +1,27 @@
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Parses XML text, returning null when it isn't well-formed. */
+export function parseXml(text: string): Document | null {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  return doc.getElementsByTagName("parsererror").length > 0 ? null : doc;
+}
+
+/** Direct children with the given local name, ignoring namespaces. */
+export function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.localName === localName);
+}
+
+/** Descendants with the given local name, ignoring namespaces. */
+export function descendantElements(
+  parent: Element | Document,
+  localName: string
+): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", localName));
+}
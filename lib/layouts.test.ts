@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import type { BubbleData, Node, NodeData } from "@/types/network";
+import {
+  freezeNodes,
+  layoutTargets,
+  mergeSimulationNodes,
+} from "@/lib/layouts";
+
+const center = { x: 500, y: 400 };
+
+function person(id: string, type: NodeData["type"] = "connection"): Node {
+  return { id, name: id, type, radius: 10 };
+}
+
+// me — a — b, me — c, and d on its own.
+const bubble: BubbleData = {
+  nodes: [
+    person("me", "user"),
+    person("a"),
+    person("b"),
+    person("c"),
+    person("d"),
+  ],
+  links: [
+    { source: "me", target: "a" },
+    { source: "a", target: "b" },
+    { source: "me", target: "c" },
+  ],
+  groups: [
+    { id: "g1", name: "Work", memberNodeIds: ["a", "b"] },
+    { id: "g2", name: "Climbing", memberNodeIds: ["b", "c"] },
+  ],
+};
+
+function distanceFromCenter(p: { x: number; y: number }): number {
+  return Math.hypot(p.x - center.x, p.y - center.y);
+}
+
+describe("layoutTargets", () => {
+  it("leaves the free-form layout to the simulation", () => {
+    expect(layoutTargets("force", bubble, center)).toBeNull();
+  });
+
+  it("puts people on rings by hops from the user", () => {
+    const targets = layoutTargets("radial", bubble, center)!;
+    expect(targets.get("me")).toEqual(center);
+    expect(distanceFromCenter(targets.get("a")!)).toBeCloseTo(150);
+    expect(distanceFromCenter(targets.get("c")!)).toBeCloseTo(150);
+    expect(distanceFromCenter(targets.get("b")!)).toBeCloseTo(300);
+    // Someone the user can't reach sits beyond the deepest ring.
+    expect(distanceFromCenter(targets.get("d")!)).toBeCloseTo(450);
+  });
+
+  it("hangs a tree down from the user", () => {
+    const targets = layoutTargets("tree", bubble, center)!;
+    expect(targets.size).toBe(5);
+    const me = targets.get("me")!;
+    expect(targets.get("a")!.y).toBeGreaterThan(me.y);
+    expect(targets.get("c")!.y).toBe(targets.get("a")!.y);
+    expect(targets.get("b")!.y).toBeGreaterThan(targets.get("a")!.y);
+    expect(targets.get("d")!.y).toBe(me.y);
+  });
+
+  it("spaces everyone around one circle, the user first", () => {
+    const targets = layoutTargets("circular", bubble, center)!;
+    // The user sits at the top of a circle of the smallest radius, 180.
+    const me = targets.get("me")!;
+    const middle = { x: me.x, y: me.y + 180 };
+    targets.forEach((p) =>
+      expect(Math.hypot(p.x - middle.x, p.y - middle.y)).toBeCloseTo(180)
+    );
+    expect(Math.min(...[...targets.values()].map((p) => p.y))).toBe(me.y);
+  });
+
+  it("sends group members towards their group's anchor", () => {
+    const targets = layoutTargets("clustered", bubble, center)!;
+    expect(targets.get("me")).toEqual(center);
+    expect(targets.has("d")).toBe(false);
+    const work = targets.get("a")!;
+    const climbing = targets.get("c")!;
+    const both = targets.get("b")!;
+    expect(both.x).toBeCloseTo((work.x + climbing.x) / 2);
+    expect(both.y).toBeCloseTo((work.y + climbing.y) / 2);
+  });
+
+  it("lays out the same bubble the same way every time", () => {
+    expect(layoutTargets("tree", bubble, center)).toEqual(
+      layoutTargets("tree", bubble, center)
+    );
+  });
+});
+
+describe("mergeSimulationNodes", () => {
+  it("reuses the nodes already on screen", () => {
+    const onScreen = { ...person("a"), x: 10, y: 20, vx: 1 };
+    const previous = new Map([["a", onScreen]]);
+    const [a] = mergeSimulationNodes(
+      [{ ...person("a"), name: "Alice" }],
+      [],
+      previous,
+      center
+    );
+    expect(a).toBe(onScreen);
+    expect(a).toMatchObject({ name: "Alice", x: 10, y: 20, vx: 1 });
+  });
+
+  it("starts newcomers next to someone they're linked to", () => {
+    const previous = new Map([["a", { ...person("a"), x: 10, y: 20 }]]);
+    const merged = mergeSimulationNodes(
+      [person("a"), person("b")],
+      [{ source: "a", target: "b" }],
+      previous,
+      center
+    );
+    const b = merged[1];
+    expect(Math.hypot(b.x! - 10, b.y! - 20)).toBeCloseTo(60);
+  });
+
+  it("keeps saved positions and leaves a first load to the simulation", () => {
+    const merged = mergeSimulationNodes(
+      [{ ...person("a"), x: 1, y: 2 }, person("b")],
+      [],
+      new Map(),
+      center
+    );
+    expect(merged[0]).toMatchObject({ x: 1, y: 2 });
+    expect(merged[1].x).toBeUndefined();
+  });
+});
+
+describe("freezeNodes", () => {
+  it("fixes everyone who has a position", () => {
+    const placed: Node = { ...person("a"), x: 3, y: 4 };
+    const unplaced = person("b");
+    freezeNodes([placed, unplaced]);
+    expect(placed).toMatchObject({ fx: 3, fy: 4 });
+    expect(unplaced.fx).toBeUndefined();
+  });
+});
@@ -0,0 +1,490 @@
+import * as d3 from "d3";
+import type {
+  BubbleData,
+  BubbleGroup,
+  LayoutKind,
+  Node,
+  NodeData,
+  Link,
+  LinkData,
+} from "@/types/network";
+import { linkDistance } from "@/lib/relationships";
+import { groupAncestors, groupDescendants, groupHulls } from "@/lib/groups";
+
+export const LAYOUT_KINDS: readonly LayoutKind[] = [
+  "force",
+  "radial",
+  "tree",
+  "circular",
+  "clustered",
+];
+
+export const LAYOUT_LABELS: Record<LayoutKind, string> = {
+  force: "Free-form",
+  radial: "Rings around me",
+  tree: "Tree from me",
+  circular: "Circle",
+  clustered: "Clustered by group",
+};
+
+/** Where each node should settle; nodes left out stay free. */
+export type LayoutTargets = Map<string, { x: number; y: number }>;
+
+/**
+ * How the simulation is tuned for each layout. Fixed layouts pull nodes
+ * hard towards their targets and let go of the links so they don't fight
+ * it; clustering keeps the links and only nudges people towards groups.
+ */
+const LAYOUT_FORCES: Record<
+  LayoutKind,
+  { charge: number; links: boolean; pull: number; freePull: number }
+> = {
+  force: { charge: -400, links: true, pull: 0, freePull: 0 },
+  radial: { charge: -60, links: false, pull: 0.8, freePull: 0 },
+  tree: { charge: -60, links: false, pull: 0.8, freePull: 0 },
+  circular: { charge: -60, links: false, pull: 0.8, freePull: 0 },
+  clustered: { charge: -250, links: true, pull: 0.2, freePull: 0.03 },
+};
+
+const RING_SPACING = 150;
+const TREE_NODE_SPACING = 90;
+const TREE_LEVEL_SPACING = 130;
+const CIRCLE_NODE_SPACING = 80;
+const MIN_CIRCLE_RADIUS = 180;
+const CLUSTER_SPACING = 320;
+/** How far new people land from someone they're linked to. */
+const SEED_DISTANCE = 60;
+/** How hard group forces pull members together and push outsiders out. */
+const GROUP_COHESION = 0.08;
+const GROUP_SEPARATION = 0.5;
+
+interface TreeNode {
+  id: string;
+  children: TreeNode[];
+}
+
+/**
+ * Breadth-first spanning trees: the first rooted at the user, then one per
+ * part of the bubble the user isn't connected to. Neighbours are visited
+ * by name so the same bubble always lays out the same way.
+ */
+function spanningForest({ nodes, links }: BubbleData): TreeNode[] {
+  const names = new Map(nodes.map((n) => [n.id, n.name]));
+  const neighbours = new Map<string, string[]>(nodes.map((n) => [n.id, []]));
+  links.forEach(({ source, target }) => {
+    neighbours.get(source)?.push(target);
+    neighbours.get(target)?.push(source);
+  });
+  neighbours.forEach((ids) =>
+    ids.sort((a, b) => names.get(a)!.localeCompare(names.get(b)!))
+  );
+
+  const seen = new Set<string>();
+  const grow = (rootId: string): TreeNode => {
+    const root: TreeNode = { id: rootId, children: [] };
+    seen.add(rootId);
+    const queue = [root];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      neighbours.get(current.id)!.forEach((id) => {
+        if (seen.has(id)) return;
+        seen.add(id);
+        const child: TreeNode = { id, children: [] };
+        current.children.push(child);
+        queue.push(child);
+      });
+    }
+    return root;
+  };
+
+  const user = nodes.find((n) => n.type === "user");
+  const forest = user ? [grow(user.id)] : [];
+  nodes.forEach((n) => {
+    if (!seen.has(n.id)) forest.push(grow(n.id));
+  });
+  return forest;
+}
+
+function shiftTargets(
+  targets: LayoutTargets,
+  dx: number,
+  dy: number
+): LayoutTargets {
+  return new Map(
+    [...targets].map(([id, p]) => [id, { x: p.x + dx, y: p.y + dy }])
+  );
+}
+
+/** Moves targets so their bounding box is centred on `center`. */
+function centreTargets(
+  targets: LayoutTargets,
+  center: { x: number; y: number }
+): LayoutTargets {
+  const points = [...targets.values()];
+  if (points.length === 0) return targets;
+  const [minX, maxX] = d3.extent(points, (p) => p.x) as [number, number];
+  const [minY, maxY] = d3.extent(points, (p) => p.y) as [number, number];
+  return shiftTargets(
+    targets,
+    center.x - (minX + maxX) / 2,
+    center.y - (minY + maxY) / 2
+  );
+}
+
+/**
+ * The user in the middle with everyone else on rings by how many hops away
+ * they are. People the user can't reach share one outer ring.
+ */
+function radialTargets(bubble: BubbleData): LayoutTargets {
+  const [userTree, ...others] = spanningForest(bubble);
+  const targets: LayoutTargets = new Map();
+  if (!userTree) return targets;
+
+  const root = d3.hierarchy(userTree);
+  d3
+    .tree<TreeNode>()
+    .size([2 * Math.PI, 1])
+    .separation((a, b) => (a.parent === b.parent ? 1 : 2) / a.depth)(root);
+  root.each((n) => {
+    const angle = n.x!;
+    const radius = n.depth * RING_SPACING;
+    targets.set(n.data.id, {
+      x: radius * Math.sin(angle),
+      y: -radius * Math.cos(angle),
+    });
+  });
+
+  const stragglers = others.flatMap((t) =>
+    d3
+      .hierarchy(t)
+      .descendants()
+      .map((n) => n.data.id)
+  );
+  const outerRadius = (root.height + 1) * RING_SPACING;
+  stragglers.forEach((id, i) => {
+    const angle = ((i + 0.5) / stragglers.length) * 2 * Math.PI;
+    targets.set(id, {
+      x: outerRadius * Math.sin(angle),
+      y: -outerRadius * Math.cos(angle),
+    });
+  });
+  return targets;
+}
+
+/** A top-down tree from the user; unconnected parts sit alongside it. */
+function treeTargets(bubble: BubbleData): LayoutTargets {
+  const root = d3.hierarchy<TreeNode>({
+    id: "",
+    children: spanningForest(bubble),
+  });
+  d3
+    .tree<TreeNode>()
+    .nodeSize([TREE_NODE_SPACING, TREE_LEVEL_SPACING])(root);
+  const targets: LayoutTargets = new Map();
+  root.each((n) => {
+    if (n.depth === 0) return;
+    targets.set(n.data.id, {
+      x: n.x!,
+      y: (n.depth - 1) * TREE_LEVEL_SPACING,
+    });
+  });
+  return targets;
+}
+
+/** Everyone evenly around one circle, starting with the user, by group. */
+function circularTargets({ nodes, groups }: BubbleData): LayoutTargets {
+  const groupIndex = (id: string) => {
+    const i = groups.findIndex((g) => g.memberNodeIds.includes(id));
+    return i === -1 ? groups.length : i;
+  };
+  const ordered = [...nodes].sort(
+    (a, b) =>
+      Number(b.type === "user") - Number(a.type === "user") ||
+      groupIndex(a.id) - groupIndex(b.id) ||
+      a.name.localeCompare(b.name)
+  );
+  const radius = Math.max(
+    MIN_CIRCLE_RADIUS,
+    (ordered.length * CIRCLE_NODE_SPACING) / (2 * Math.PI)
+  );
+  return new Map(
+    ordered.map((n, i) => {
+      const angle = (i / ordered.length) * 2 * Math.PI;
+      return [
+        n.id,
+        { x: radius * Math.sin(angle), y: -radius * Math.cos(angle) },
+      ];
+    })
+  );
+}
+
+/**
+ * An anchor per group, spread around the user; members head for their
+ * group's anchor, or between anchors when they're in several. Ungrouped
+ * people are left out and drift freely.
+ */
+function clusteredTargets({ nodes, groups }: BubbleData): LayoutTargets {
+  const targets: LayoutTargets = new Map();
+  const user = nodes.find((n) => n.type === "user");
+  if (user) targets.set(user.id, { x: 0, y: 0 });
+  if (groups.length === 0) return targets;
+
+  const radius = Math.max(
+    CLUSTER_SPACING,
+    (groups.length * CLUSTER_SPACING) / (2 * Math.PI)
+  );
+  const anchors = new Map(
+    groups.map((g, i) => {
+      const angle = (i / groups.length) * 2 * Math.PI;
+      return [g.id, [radius * Math.sin(angle), -radius * Math.cos(angle)]];
+    })
+  );
+  nodes.forEach((n) => {
+    if (n.type === "user") return;
+    const own = groups
+      .filter((g) => g.memberNodeIds.includes(n.id))
+      .map((g) => anchors.get(g.id)!);
+    if (own.length === 0) return;
+    targets.set(n.id, {
+      x: d3.mean(own, (a) => a[0])!,
+      y: d3.mean(own, (a) => a[1])!,
+    });
+  });
+  return targets;
+}
+
+/**
+ * Target positions for a layout, centred on `center`, or null for the
+ * free-form layout where only the force simulation decides.
+ */
+export function layoutTargets(
+  kind: LayoutKind,
+  bubble: BubbleData,
+  center: { x: number; y: number }
+): LayoutTargets | null {
+  switch (kind) {
+    case "force":
+      return null;
+    // Rings and clusters are laid out around the user, who stays central.
+    case "radial":
+      return shiftTargets(radialTargets(bubble), center.x, center.y);
+    case "clustered":
+      return shiftTargets(clusteredTargets(bubble), center.x, center.y);
+    case "tree":
+      return centreTargets(treeTargets(bubble), center);
+    case "circular":
+      return centreTargets(circularTargets(bubble), center);
+  }
+}
+
+/**
+ * Sets the simulation's forces up for a layout around `center`. Doesn't
+ * reheat it; callers decide how much of a shake the change deserves.
+ */
+export function applyLayoutForces(
+  simulation: d3.Simulation<Node, Link>,
+  layout: LayoutKind,
+  bubble: BubbleData,
+  center: { x: number; y: number }
+): void {
+  const forces = LAYOUT_FORCES[layout];
+  const targets = layoutTargets(layout, bubble, center);
+  const pull = (d: Node) =>
+    targets?.has(d.id) ? forces.pull : forces.freePull;
+
+  const linkForce = d3
+    .forceLink<Node, Link>(
+      simulation.force<d3.ForceLink<Node, Link>>("link")?.links() ?? []
+    )
+    .id((d) => d.id)
+    .distance(linkDistance);
+  if (!forces.links) linkForce.strength(0);
+
+  simulation
+    .force("link", linkForce)
+    .force("charge", d3.forceManyBody().strength(forces.charge))
+    // Fixed layouts are already centred; a centring force would fight them.
+    .force(
+      "center",
+      targets && !forces.links ? null : d3.forceCenter(center.x, center.y)
+    )
+    .force(
+      "x",
+      targets
+        ? d3
+            .forceX<Node>((d) => targets.get(d.id)?.x ?? center.x)
+            .strength(pull)
+        : null
+    )
+    .force(
+      "y",
+      targets
+        ? d3
+            .forceY<Node>((d) => targets.get(d.id)?.y ?? center.y)
+            .strength(pull)
+        : null
+    );
+}
+
+/**
+ * Simulation nodes for a changed bubble, reusing the `previous` objects so
+ * people already on screen keep their place and momentum. Newcomers without
+ * a saved position start next to someone they're linked to; on a first
+ * load, with nothing previous, they're left for the simulation to place.
+ */
+export function mergeSimulationNodes(
+  nodes: NodeData[],
+  links: LinkData[],
+  previous: Map<string, Node>,
+  center: { x: number; y: number }
+): Node[] {
+  const neighbours = new Map<string, string[]>();
+  links.forEach(({ source, target }) => {
+    neighbours.set(source, [...(neighbours.get(source) ?? []), target]);
+    neighbours.set(target, [...(neighbours.get(target) ?? []), source]);
+  });
+
+  return nodes.map((n) => {
+    const existing = previous.get(n.id);
+    if (existing) {
+      existing.name = n.name;
+      existing.type = n.type;
+      existing.profile = n.profile;
+      return existing;
+    }
+    if ((n.x != null && n.y != null) || previous.size === 0) return { ...n };
+    const anchor = (neighbours.get(n.id) ?? [])
+      .map((id) => previous.get(id))
+      .find((p) => p?.x != null && p.y != null);
+    const angle = Math.random() * 2 * Math.PI;
+    return {
+      ...n,
+      x: (anchor?.x ?? center.x) + SEED_DISTANCE * Math.cos(angle),
+      y: (anchor?.y ?? center.y) + SEED_DISTANCE * Math.sin(angle),
+    };
+  });
+}
+
+/** Fixes everyone who has a position there, e.g. to freeze the layout. */
+export function freezeNodes(nodes: Node[]): void {
+  nodes.forEach((n) => {
+    if (n.x == null || n.y == null) return;
+    n.fx = n.x;
+    n.fy = n.y;
+  });
+}
+
+/**
+ * Holds pinned nodes where they are and, unless the layout is `frozen`,
+ * lets everyone else move freely again.
+ */
+export function applyPins(
+  simulation: d3.Simulation<Node, Link>,
+  pinnedNodeIds: Set<string> | null,
+  frozen: boolean
+): void {
+  simulation.nodes().forEach((n) => {
+    if (pinnedNodeIds?.has(n.id)) {
+      if (n.fx == null) n.fx = n.x;
+      if (n.fy == null) n.fy = n.y;
+    } else if (!frozen) {
+      n.fx = null;
+      n.fy = null;
+    }
+  });
+}
+
+/**
+ * Keeps groups apart: members are pulled towards their group's centre,
+ * and anyone else inside the circle around a group is pushed out of it.
+ * People in several groups split the pull between them, so they settle
+ * where their groups meet, and are never pushed out of their own groups.
+ * Sub-groups count as part of their parents.
+ */
+export function forceGroups(groups: BubbleGroup[]): d3.Force<Node, Link> {
+  const hulls = groupHulls(groups);
+  const hullIdsOf = new Map<string, string[]>();
+  hulls.forEach((h) =>
+    h.memberNodeIds.forEach((id) =>
+      hullIdsOf.set(id, [...(hullIdsOf.get(id) ?? []), h.id])
+    )
+  );
+  // A group's circle is sized by the members it doesn't share with an
+  // unrelated group; shared ones are drawn towards the other group too,
+  // and sizing by them would let each group push the other ever further.
+  const coreIds = new Map(
+    hulls.map((h) => {
+      const group = groups.find((g) => g.id === h.id)!;
+      const related = new Set([
+        h.id,
+        ...groupAncestors(group, groups).map((g) => g.id),
+        ...groupDescendants(group, groups).map((g) => g.id),
+      ]);
+      return [
+        h.id,
+        h.memberNodeIds.filter((id) =>
+          hullIdsOf.get(id)!.every((other) => related.has(other))
+        ),
+      ];
+    })
+  );
+  let nodes: Node[] = [];
+  let nodesById = new Map<string, Node>();
+
+  const force = (alpha: number) => {
+    hulls.forEach((hull) => {
+      const members = hull.memberNodeIds
+        .map((id) => nodesById.get(id))
+        .filter((n): n is Node => n?.x != null && n.y != null);
+      if (members.length === 0) return;
+      const cx = d3.mean(members, (n) => n.x)!;
+      const cy = d3.mean(members, (n) => n.y)!;
+
+      if (members.length > 1) {
+        members.forEach((n) => {
+          const k = (GROUP_COHESION * alpha) / hullIdsOf.get(n.id)!.length;
+          n.vx = (n.vx ?? 0) + (cx - n.x!) * k;
+          n.vy = (n.vy ?? 0) + (cy - n.y!) * k;
+        });
+      }
+
+      const core = coreIds
+        .get(hull.id)!
+        .map((id) => nodesById.get(id))
+        .filter((n): n is Node => n?.x != null && n.y != null);
+      if (core.length === 0) return;
+      const memberIds = new Set(hull.memberNodeIds);
+      const radius =
+        d3.max(core, (n) => Math.hypot(n.x! - cx, n.y! - cy) + n.radius)! +
+        hull.padding;
+      nodes.forEach((n) => {
+        if (memberIds.has(n.id) || n.x == null || n.y == null) return;
+        const dx = n.x - cx;
+        const dy = n.y - cy;
+        const distance = Math.hypot(dx, dy) || 1;
+        const overlap = radius + n.radius - distance;
+        if (overlap <= 0) return;
+        const k = (overlap * GROUP_SEPARATION * alpha) / distance;
+        n.vx = (n.vx ?? 0) + dx * k;
+        n.vy = (n.vy ?? 0) + dy * k;
+      });
+    });
+  };
+  force.initialize = (simulationNodes: Node[]) => {
+    nodes = simulationNodes;
+    nodesById = new Map(nodes.map((n) => [n.id, n]));
+  };
+  return force;
+}
+
+/** Turns the group forces on for the given groups, or off. */
+export function applyGroupForces(
+  simulation: d3.Simulation<Node, Link>,
+  groups: BubbleGroup[],
+  enabled: boolean
+): void {
+  simulation.force(
+    "groups",
+    enabled && groups.length > 0 ? forceGroups(groups) : null
+  );
+}
@@ -1,9 +1,16 @@
 import type {
   NodeData,
+  NodeProfile,
   LinkData,
   BubbleGroup,
+  LayoutKind,
   SavedBubble,
 } from "@/types/network";
+import {
+  BUBBLE_SCHEMA_VERSION,
+  readSavedBubble,
+  type SchemaResult,
+} from "@/lib/bubble-schema";
 
 export const STORAGE_KEY = "do-you-know-my-bubble";
 
@@ -16,87 +23,148 @@ export function createNode(
   return { id, name, type, radius };
 }
 
+/**
+ * Trims a profile and drops empty fields and duplicate tags. Returns
+ * undefined when nothing is left, so blank profiles aren't stored.
+ */
+export function normalizeProfile(
+  profile: NodeProfile | undefined
+): NodeProfile | undefined {
+  if (!profile) return undefined;
+  const normalized: NodeProfile = {};
+  (
+    [
+      "notes",
+      "email",
+      "phone",
+      "organisation",
+      "role",
+      "howWeMet",
+      "dateMet",
+    ] as const
+  ).forEach((field) => {
+    const value = profile[field]?.trim();
+    if (value) normalized[field] = value;
+  });
+  const tags = [
+    ...new Set((profile.tags ?? []).map((t) => t.trim()).filter(Boolean)),
+  ];
+  if (tags.length > 0) normalized.tags = tags;
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
 export interface LoadedBubble {
   name: string;
   nodes: NodeData[];
   links: LinkData[];
   groups: BubbleGroup[];
+  layout: LayoutKind;
+  frozen: boolean;
   nextConnId: number;
   nextGroupId: number;
 }
 
-export function loadBubbleFromStorage(): LoadedBubble | null {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return null;
-    const saved: SavedBubble = JSON.parse(raw);
-    if (
-      !saved?.name ||
-      !Array.isArray(saved.nodes) ||
-      !Array.isArray(saved.links) ||
-      saved.nodes.length === 0
-    ) {
-      return null;
-    }
-
-    type SavedNode = NodeData | (Omit<NodeData, "type"> & { type: "group" });
-    const savedNodes = saved.nodes as SavedNode[];
-    const groupNodeIds = new Set(
-      savedNodes
-        .filter(
-          (n): n is Omit<NodeData, "type"> & { type: "group" } =>
-            n.type === "group"
-        )
-        .map((n) => n.id)
-    );
+/**
+ * Migrates and validates raw saved data, and works out the next free
+ * connection and group ids. Returns null if the data can't be used.
+ */
+export function parseSavedBubble(data: unknown): LoadedBubble | null {
+  const result = readLoadedBubble(data);
+  return result.ok ? result.value : null;
+}
 
-    const nodes = savedNodes.filter(
-      (n): n is NodeData => n.type !== "group"
-    );
-    const links = saved.links.filter(
-      (l) => !groupNodeIds.has(l.source) && !groupNodeIds.has(l.target)
-    );
-    const groups = Array.isArray(saved.groups) ? saved.groups : [];
+/** Like `parseSavedBubble`, but says what's wrong with unusable data. */
+export function readLoadedBubble(data: unknown): SchemaResult<LoadedBubble> {
+  const result = readSavedBubble(data);
+  if (!result.ok) return result;
+  const saved = result.value;
+  const groups = saved.groups ?? [];
 
-    const nextConnId =
-      saved.nodes.reduce((max, n) => {
-        if (n.id.startsWith("conn-")) {
-          const num = parseInt(n.id.replace("conn-", ""), 10);
-          return Math.max(max, isNaN(num) ? 0 : num);
-        }
-        return max;
-      }, -1) + 1;
+  const nextConnId =
+    saved.nodes.reduce((max, n) => {
+      if (n.id.startsWith("conn-")) {
+        const num = parseInt(n.id.replace("conn-", ""), 10);
+        return Math.max(max, isNaN(num) ? 0 : num);
+      }
+      return max;
+    }, -1) + 1;
 
-    const nextGroupId =
-      (saved.groups ?? []).reduce((max, g) => {
-        if (g.id.startsWith("group-")) {
-          const num = parseInt(g.id.replace("group-", ""), 10);
-          return Math.max(max, isNaN(num) ? 0 : num);
-        }
-        return max;
-      }, -1) + 1;
+  const nextGroupId =
+    groups.reduce((max, g) => {
+      if (g.id.startsWith("group-")) {
+        const num = parseInt(g.id.replace("group-", ""), 10);
+        return Math.max(max, isNaN(num) ? 0 : num);
+      }
+      return max;
+    }, -1) + 1;
 
-    return { name: saved.name, nodes, links, groups, nextConnId, nextGroupId };
-  } catch {
-    return null;
-  }
+  return {
+    ok: true,
+    value: {
+      name: saved.name,
+      nodes: saved.nodes,
+      links: saved.links,
+      groups,
+      layout: saved.layout ?? "force",
+      frozen: saved.frozen ?? false,
+      nextConnId,
+      nextGroupId,
+    },
+  };
 }
 
-export function saveBubbleToStorage(
+export function toSavedBubble(
   name: string,
   nodes: NodeData[],
   links: LinkData[],
-  groups: BubbleGroup[]
-): void {
-  const data: SavedBubble = {
+  groups: BubbleGroup[],
+  layout: LayoutKind = "force",
+  frozen = false
+): SavedBubble {
+  return {
+    version: BUBBLE_SCHEMA_VERSION,
     name: name.trim(),
     nodes,
     links,
     groups: groups.length > 0 ? groups : undefined,
+    layout: layout !== "force" ? layout : undefined,
+    frozen: frozen || undefined,
   };
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-  } catch {
-    // quota or other storage errors
+}
+
+/**
+ * Returns the ids of nodes that would no longer be reachable from the user
+ * node once `removedIds` (and their links) are gone.
+ */
+export function findOrphanedNodeIds(
+  nodes: NodeData[],
+  links: LinkData[],
+  removedIds: string[]
+): string[] {
+  const removed = new Set(removedIds);
+  const root = nodes.find((n) => n.type === "user");
+  if (!root || removed.has(root.id)) return [];
+
+  const adjacency = new Map<string, string[]>();
+  links.forEach((l) => {
+    if (removed.has(l.source) || removed.has(l.target)) return;
+    adjacency.set(l.source, [...(adjacency.get(l.source) ?? []), l.target]);
+    adjacency.set(l.target, [...(adjacency.get(l.target) ?? []), l.source]);
+  });
+
+  const reachable = new Set([root.id]);
+  const queue = [root.id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (adjacency.get(id) ?? []).forEach((next) => {
+      if (!reachable.has(next)) {
+        reachable.add(next);
+        queue.push(next);
+      }
+    });
   }
+
+  return nodes
+    .filter((n) => !removed.has(n.id) && !reachable.has(n.id))
+    .map((n) => n.id);
 }
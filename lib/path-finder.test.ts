@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { BubbleData, LinkData, NodeData } from "@/types/network";
+import { findShortestPaths } from "@/lib/path-finder";
+
+function person(id: string): NodeData {
+  return { id, name: id, type: "connection", radius: 10 };
+}
+
+function bubble(ids: string[], links: LinkData[]): BubbleData {
+  return { nodes: ids.map(person), links, groups: [] };
+}
+
+describe("findShortestPaths", () => {
+  it("returns every chain with the fewest hops", () => {
+    const data = bubble(
+      ["a", "b", "c", "d", "e", "f"],
+      [
+        { source: "a", target: "b" },
+        { source: "b", target: "d" },
+        { source: "a", target: "c" },
+        { source: "d", target: "c" },
+        { source: "a", target: "e" },
+        { source: "e", target: "f" },
+        { source: "f", target: "d" },
+      ]
+    );
+    const result = findShortestPaths(data, "a", "d");
+    expect(result.weighted).toBe(false);
+    expect(result.paths.map((p) => p.nodeIds)).toEqual(
+      expect.arrayContaining([
+        ["a", "b", "d"],
+        ["a", "c", "d"],
+      ])
+    );
+    expect(result.paths).toHaveLength(2);
+    expect(result.paths.every((p) => p.cost === 2)).toBe(true);
+  });
+
+  it("prefers close friends over a shorter chain once closeness is set", () => {
+    const data = bubble(
+      ["a", "b", "d"],
+      [
+        { source: "a", target: "d", strength: 1 },
+        { source: "a", target: "b", strength: 5 },
+        { source: "b", target: "d", strength: 5 },
+      ]
+    );
+    const result = findShortestPaths(data, "a", "d");
+    expect(result.weighted).toBe(true);
+    expect(result.paths).toEqual([{ nodeIds: ["a", "b", "d"], cost: 2 }]);
+  });
+
+  it("counts links without closeness as the default once any is set", () => {
+    const data = bubble(
+      ["a", "b", "d"],
+      [
+        { source: "a", target: "d" },
+        { source: "a", target: "b", strength: 5 },
+        { source: "b", target: "d", strength: 4 },
+      ]
+    );
+    // 1 + 2 through b against 3 for the direct link.
+    const { paths } = findShortestPaths(data, "a", "d");
+    expect(paths.map((p) => p.nodeIds)).toEqual(
+      expect.arrayContaining([
+        ["a", "d"],
+        ["a", "b", "d"],
+      ])
+    );
+    expect(paths.every((p) => p.cost === 3)).toBe(true);
+  });
+
+  it("finds nothing between people who aren't connected", () => {
+    const data = bubble(["a", "b", "c"], [{ source: "a", target: "b" }]);
+    expect(findShortestPaths(data, "a", "c").paths).toEqual([]);
+    expect(findShortestPaths(data, "a", "a").paths).toEqual([]);
+  });
+
+  it("stops at the limit", () => {
+    const middle = ["m1", "m2", "m3", "m4"];
+    const data = bubble(
+      ["a", "z", ...middle],
+      middle.flatMap((m) => [
+        { source: "a", target: m },
+        { source: m, target: "z" },
+      ])
+    );
+    expect(findShortestPaths(data, "a", "z", 3).paths).toHaveLength(3);
+    expect(findShortestPaths(data, "a", "z").paths).toHaveLength(4);
+  });
+});
@@ -0,0 +1,93 @@
+import type { BubbleData, LinkData } from "@/types/network";
+import { MAX_STRENGTH, DEFAULT_STRENGTH } from "@/lib/relationships";
+
+export interface IntroductionPath {
+  /** Node ids from the start to the end of the chain. */
+  nodeIds: string[];
+  /** Total cost: hops when unweighted, summed tie cost when weighted. */
+  cost: number;
+}
+
+export interface PathSearchResult {
+  fromId: string;
+  toId: string;
+  /** Whether link closeness was taken into account. */
+  weighted: boolean;
+  /** Every path of the lowest cost, up to the limit; empty if unreachable. */
+  paths: IntroductionPath[];
+}
+
+const PATH_LIMIT = 10;
+const EPSILON = 1e-9;
+
+/**
+ * Cost of going through a link. Closer ties are cheaper, so a chain of good
+ * friends beats a shorter chain of acquaintances; strength 5 costs 1 and
+ * strength 1 costs 5.
+ */
+function tieCost(link: LinkData): number {
+  return MAX_STRENGTH + 1 - (link.strength ?? DEFAULT_STRENGTH);
+}
+
+/**
+ * Finds the cheapest introduction chains between two people. Closeness is
+ * only weighed once someone has set it on a link; until then every link
+ * counts the same and the fewest hops win.
+ */
+export function findShortestPaths(
+  { nodes, links }: BubbleData,
+  fromId: string,
+  toId: string,
+  limit = PATH_LIMIT
+): PathSearchResult {
+  const weighted = links.some((l) => l.strength != null);
+  const neighbours = new Map<string, { id: string; cost: number }[]>(
+    nodes.map((n) => [n.id, []])
+  );
+  links.forEach((l) => {
+    const cost = weighted ? tieCost(l) : 1;
+    neighbours.get(l.source)?.push({ id: l.target, cost });
+    neighbours.get(l.target)?.push({ id: l.source, cost });
+  });
+
+  // Dijkstra, remembering every predecessor on an equally cheap route.
+  const distance = new Map<string, number>([[fromId, 0]]);
+  const predecessors = new Map<string, string[]>([[fromId, []]]);
+  const done = new Set<string>();
+  for (;;) {
+    let id: string | null = null;
+    for (const [candidate, d] of distance) {
+      if (!done.has(candidate) && (id === null || d < distance.get(id)!)) {
+        id = candidate;
+      }
+    }
+    if (id === null || id === toId) break;
+    done.add(id);
+    (neighbours.get(id) ?? []).forEach((next) => {
+      const candidate = distance.get(id)! + next.cost;
+      const known = distance.get(next.id);
+      if (known === undefined || candidate < known - EPSILON) {
+        distance.set(next.id, candidate);
+        predecessors.set(next.id, [id]);
+      } else if (Math.abs(candidate - known) < EPSILON) {
+        predecessors.get(next.id)!.push(id);
+      }
+    });
+  }
+
+  const paths: IntroductionPath[] = [];
+  const cost = distance.get(toId);
+  if (cost !== undefined && fromId !== toId) {
+    // Walk predecessors back from the target, depth first.
+    const walk = (id: string, suffix: string[]) => {
+      if (paths.length >= limit) return;
+      if (id === fromId) {
+        paths.push({ nodeIds: [id, ...suffix], cost });
+        return;
+      }
+      predecessors.get(id)!.forEach((prev) => walk(prev, [id, ...suffix]));
+    };
+    walk(toId, []);
+  }
+  return { fromId, toId, weighted, paths };
+}
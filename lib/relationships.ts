@@ -0,0 +1,94 @@
+import type {
+  LinkAttributes,
+  LinkDirection,
+  RelationshipType,
+} from "@/types/network";
+
+export const RELATIONSHIP_TYPES: readonly RelationshipType[] = [
+  "friend",
+  "colleague",
+  "family",
+  "mentor",
+  "custom",
+];
+
+export const LINK_DIRECTIONS: readonly LinkDirection[] = [
+  "forward",
+  "backward",
+];
+
+export const MIN_STRENGTH = 1;
+export const MAX_STRENGTH = 5;
+export const DEFAULT_STRENGTH = 3;
+
+interface RelationshipStyle {
+  label: string;
+  color: string;
+  /** SVG stroke-dasharray; null draws a solid line. */
+  dash: string | null;
+}
+
+export const RELATIONSHIP_STYLES: Record<RelationshipType, RelationshipStyle> =
+  {
+    friend: { label: "Friend", color: "#0ea5e9", dash: null },
+    colleague: { label: "Colleague", color: "#8b5cf6", dash: "8 4" },
+    family: { label: "Family", color: "#f43f5e", dash: null },
+    mentor: { label: "Mentor", color: "#f59e0b", dash: "2 4" },
+    custom: { label: "Custom", color: "#64748b", dash: "10 3 2 3" },
+  };
+
+/** How links without a relationship type have always been drawn. */
+export const UNTYPED_LINK_COLOR = "#7dd3fc";
+
+export function linkColor({ type }: LinkAttributes): string {
+  return type ? RELATIONSHIP_STYLES[type].color : UNTYPED_LINK_COLOR;
+}
+
+export function linkDash({ type }: LinkAttributes): string | null {
+  return type ? RELATIONSHIP_STYLES[type].dash : null;
+}
+
+export function linkStrokeWidth({ strength }: LinkAttributes): number {
+  return 1 + (strength ?? DEFAULT_STRENGTH) * 0.5;
+}
+
+/** Resting length of a link; closer ties pull their nodes nearer. */
+export function linkDistance({ strength }: LinkAttributes): number {
+  return 180 + (DEFAULT_STRENGTH - (strength ?? DEFAULT_STRENGTH)) * 35;
+}
+
+/** Human-readable relationship name, e.g. "Mentor" or a custom "Coach". */
+export function relationshipName(link: LinkAttributes): string | null {
+  if (!link.type) return null;
+  if (link.type === "custom" && link.customType) return link.customType;
+  return RELATIONSHIP_STYLES[link.type].label;
+}
+
+/**
+ * Trims and range-checks link attributes, dropping empty ones so untouched
+ * fields aren't stored. `customType` only survives on "custom" links.
+ */
+export function normalizeLinkAttributes(
+  attributes: LinkAttributes
+): LinkAttributes {
+  const normalized: LinkAttributes = {};
+  if (attributes.type && RELATIONSHIP_TYPES.includes(attributes.type)) {
+    normalized.type = attributes.type;
+    const customType = attributes.customType?.trim();
+    if (attributes.type === "custom" && customType) {
+      normalized.customType = customType;
+    }
+  }
+  if (attributes.strength != null && isFinite(attributes.strength)) {
+    normalized.strength = Math.min(
+      MAX_STRENGTH,
+      Math.max(MIN_STRENGTH, Math.round(attributes.strength))
+    );
+  }
+  if (attributes.direction && LINK_DIRECTIONS.includes(attributes.direction)) {
+    normalized.direction = attributes.direction;
+  }
+  const label = attributes.label?.trim();
+  if (label) normalized.label = label;
+  return normalized;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { createNode, toSavedBubble } from "@/lib/network-utils";
+import { decodeShareFragment, encodeShareFragment } from "@/lib/share";
+
+describe("share links", () => {
+  const owner = { ...createNode("user", "Alex", "user"), x: 10.4, y: 20.6 };
+  const sam = {
+    ...createNode("conn-0", "Sam", "connection"),
+    profile: { email: "sam@example.com", notes: "Owes me lunch" },
+  };
+  const bubble = toSavedBubble(
+    "Alex",
+    [owner, sam],
+    [{ source: "user", target: "conn-0", type: "friend" as const }],
+    []
+  );
+
+  it("round-trips a bubble with rounded positions", async () => {
+    const result = await decodeShareFragment(
+      await encodeShareFragment("Alex's bubble", bubble)
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.title).toBe("Alex's bubble");
+    const [me, them] = result.value.bubble.nodes;
+    expect([me.x, me.y]).toEqual([10, 21]);
+    expect(them.name).toBe("Sam");
+    expect(result.value.bubble.links).toEqual(bubble.links);
+  });
+
+  it("leaves profiles out of the link", async () => {
+    const fragment = await encodeShareFragment("Alex's bubble", bubble);
+    const result = await decodeShareFragment(fragment);
+    if (!result.ok) throw new Error("link didn't decode");
+    expect(result.value.bubble.nodes.every((n) => !n.profile)).toBe(true);
+  });
+
+  it("rejects a corrupted link", async () => {
+    expect(await decodeShareFragment("z:not-really")).toEqual({
+      ok: false,
+      errors: [{ path: "(link)", message: "is incomplete or corrupted" }],
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import type { SavedBubble } from "@/types/network";
+import {
+  createBubbleFile,
+  parseBubbleFile,
+  type SchemaResult,
+} from "@/lib/bubble-schema";
+import type { ImportedBubble } from "@/lib/interop";
+
+export const SHARE_VIEW_PATH = "/network/view";
+
+// Fragments are "<encoding>:<base64url payload>". "z" is deflate-compressed
+// JSON; "j" is plain JSON for browsers without CompressionStream.
+const COMPRESSED = "z";
+const PLAIN = "j";
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+async function pipeBytes(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const piped = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+/**
+ * Rounds positions so the link doesn't carry meaningless precision, and
+ * leaves out profiles: the viewer never shows them, and a link can reach
+ * anyone, so contact details and notes about people stay private.
+ */
+function compactBubble(bubble: SavedBubble): SavedBubble {
+  return {
+    ...bubble,
+    nodes: bubble.nodes.map((node) => {
+      const n = { ...node };
+      delete n.profile;
+      return n.x != null && n.y != null
+        ? { ...n, x: Math.round(n.x), y: Math.round(n.y) }
+        : n;
+    }),
+  };
+}
+
+export async function encodeShareFragment(
+  title: string,
+  bubble: SavedBubble
+): Promise<string> {
+  const json = JSON.stringify(
+    createBubbleFile(title, compactBubble(bubble))
+  );
+  const bytes = new TextEncoder().encode(json);
+  if (typeof CompressionStream === "undefined") {
+    return `${PLAIN}:${toBase64Url(bytes)}`;
+  }
+  const compressed = await pipeBytes(bytes, new CompressionStream("deflate-raw"));
+  return `${COMPRESSED}:${toBase64Url(compressed)}`;
+}
+
+export async function decodeShareFragment(
+  fragment: string
+): Promise<SchemaResult<ImportedBubble>> {
+  const [encoding, payload] = fragment.replace(/^#/, "").split(":", 2);
+  try {
+    if (!payload || (encoding !== COMPRESSED && encoding !== PLAIN)) {
+      throw new Error("unknown encoding");
+    }
+    const bytes =
+      encoding === COMPRESSED
+        ? await pipeBytes(
+            fromBase64Url(payload),
+            new DecompressionStream("deflate-raw")
+          )
+        : fromBase64Url(payload);
+    return parseBubbleFile(new TextDecoder().decode(bytes));
+  } catch {
+    return {
+      ok: false,
+      errors: [{ path: "(link)", message: "is incomplete or corrupted" }],
+    };
+  }
+}
+
+export function buildShareUrl(origin: string, fragment: string): string {
+  return `${origin}${SHARE_VIEW_PATH}#${fragment}`;
+}
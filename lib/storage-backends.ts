@@ -0,0 +1,119 @@
+import { STORAGE_KEY } from "@/lib/network-utils";
+
+/**
+ * Where stored entries actually live. The app reads from an in-memory copy
+ * loaded once at startup, so backends only need to load everything, re-read
+ * entries other tabs changed, and write single entries, and can take their
+ * time doing it.
+ */
+export interface StorageBackend {
+  name: string;
+  /** Every entry this app has stored, keyed as written. */
+  loadAll(): Promise<Map<string, string>>;
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// ── localStorage ───────────────────────────────────────────────
+
+/** Limited to a few megabytes, but there in every browser. */
+export const localStorageBackend: StorageBackend = {
+  name: "localStorage",
+  async loadAll() {
+    const entries = new Map<string, string>();
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(STORAGE_KEY)) continue;
+      const value = localStorage.getItem(key);
+      if (value !== null) entries.set(key, value);
+    }
+    return entries;
+  },
+  async read(key) {
+    return localStorage.getItem(key);
+  },
+  async write(key, value) {
+    localStorage.setItem(key, value);
+  },
+  async remove(key) {
+    localStorage.removeItem(key);
+  },
+};
+
+// ── IndexedDB ──────────────────────────────────────────────────
+
+const DB_VERSION = 1;
+const ENTRIES_STORE = "entries";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(STORAGE_KEY, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ENTRIES_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("database upgrade blocked"));
+  });
+}
+
+/** Resolves once the transaction commits, so a failed write is noticed. */
+function transact(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ENTRIES_STORE, mode);
+    run(tx.objectStore(ENTRIES_STORE));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Room for far more than localStorage. Transactions on the one store run
+ * in the order they're started, so writes to a key land in order. Returns
+ * null where IndexedDB is missing or won't open, e.g. some private modes.
+ */
+export async function openIndexedDbBackend(): Promise<StorageBackend | null> {
+  if (typeof indexedDB === "undefined") return null;
+  let db: IDBDatabase;
+  try {
+    db = await openDatabase();
+  } catch {
+    return null;
+  }
+  return {
+    name: "IndexedDB",
+    async loadAll() {
+      const entries = new Map<string, string>();
+      await transact(db, "readonly", (store) => {
+        const request = store.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          entries.set(String(cursor.key), cursor.value);
+          cursor.continue();
+        };
+      });
+      return entries;
+    },
+    async read(key) {
+      let value: string | null = null;
+      await transact(db, "readonly", (store) => {
+        const request = store.get(key);
+        request.onsuccess = () => (value = request.result ?? null);
+      });
+      return value;
+    },
+    write(key, value) {
+      return transact(db, "readwrite", (store) => store.put(value, key));
+    },
+    remove(key) {
+      return transact(db, "readwrite", (store) => store.delete(key));
+    },
+  };
+}
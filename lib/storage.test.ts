@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { STORAGE_KEY } from "@/lib/network-utils";
+import type { StorageBackend } from "@/lib/storage-backends";
+
+// One IndexedDB shared by every tab.
+const { database } = vi.hoisted(() => ({
+  database: new Map<string, string>(),
+}));
+
+vi.mock("@/lib/storage-backends", async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import("@/lib/storage-backends")>();
+  const indexedDb: StorageBackend = {
+    name: "IndexedDB",
+    async loadAll() {
+      return new Map(database);
+    },
+    async read(key) {
+      return database.get(key) ?? null;
+    },
+    async write(key, value) {
+      database.set(key, value);
+    },
+    async remove(key) {
+      database.delete(key);
+    },
+  };
+  return { ...original, openIndexedDbBackend: async () => indexedDb };
+});
+
+/** A fresh copy of the storage module, as another tab would have. */
+async function openTab() {
+  vi.resetModules();
+  const storage = await import("@/lib/storage");
+  await storage.initStorage();
+  return storage;
+}
+
+describe("storage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it("syncs tabs on IndexedDB without a BroadcastChannel", async () => {
+    vi.stubGlobal("BroadcastChannel", undefined);
+    const key = `${STORAGE_KEY}-bubble-a`;
+    const writer = await openTab();
+    const reader = await openTab();
+    const changed = new Promise<void>((resolve) =>
+      reader.watchChanges(resolve)
+    );
+
+    writer.writeItem(key, "new");
+    await Promise.resolve();
+    // Browsers fire this in every other tab; jsdom has only the one.
+    const pingKey = `changed:${STORAGE_KEY}`;
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: pingKey,
+        newValue: localStorage.getItem(pingKey),
+      })
+    );
+    await changed;
+
+    expect(reader.readItem(key)).toBe("new");
+  });
+
+  it("leaves localStorage entries it didn't move", async () => {
+    const kept = `${STORAGE_KEY}-bubble-kept`;
+    const moved = `${STORAGE_KEY}-bubble-moved`;
+    const same = `${STORAGE_KEY}-bubble-same`;
+    database.set(kept, "newer");
+    localStorage.setItem(kept, "older");
+    database.set(same, "copied before");
+    localStorage.setItem(same, "copied before");
+    localStorage.setItem(moved, "only copy");
+
+    const tab = await openTab();
+
+    expect(tab.readItem(kept)).toBe("newer");
+    expect(tab.readItem(moved)).toBe("only copy");
+    expect(database.get(moved)).toBe("only copy");
+    expect(localStorage.getItem(moved)).toBeNull();
+    expect(localStorage.getItem(kept)).toBe("older");
+    expect(localStorage.getItem(same)).toBeNull();
+  });
+});
@@ -0,0 +1,305 @@
+import { STORAGE_KEY } from "@/lib/network-utils";
+import {
+  localStorageBackend,
+  openIndexedDbBackend,
+  type StorageBackend,
+} from "@/lib/storage-backends";
+
+// Every read and write of the browser's storage goes through here, so a full
+// or blocked storage is reported rather than silently losing edits, and
+// other open tabs hear about each change. Where the data lives is up to a
+// `StorageBackend`.
+
+export type StorageErrorKind =
+  | "quota"
+  | "unavailable"
+  | "conflict"
+  | "missing";
+
+export interface StorageError {
+  kind: StorageErrorKind;
+  message: string;
+}
+
+export type StorageResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: StorageError };
+
+const ERROR_MESSAGES: Record<StorageErrorKind, string> = {
+  quota:
+    "Your browser's storage is full, so recent changes haven't been saved. " +
+    "Export or delete bubbles you no longer need to make room.",
+  unavailable:
+    "Your browser isn't letting this page save, so changes will be lost " +
+    "when you close it.",
+  conflict: "This bubble was changed in another tab.",
+  missing: "This bubble was deleted, so changes to it can't be saved.",
+};
+
+export function storageError(kind: StorageErrorKind): StorageError {
+  return { kind, message: ERROR_MESSAGES[kind] };
+}
+
+function isQuotaError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === "QuotaExceededError" ||
+      error.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+      error.code === 22)
+  );
+}
+
+const errorListeners = new Set<(error: StorageError) => void>();
+
+/** Hears about failed reads and writes; returns an unsubscribe function. */
+export function onStorageError(
+  listener: (error: StorageError) => void
+): () => void {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+}
+
+function fail<T>(kind: StorageErrorKind): StorageResult<T> {
+  const error = storageError(kind);
+  errorListeners.forEach((listener) => listener(error));
+  return { ok: false, error };
+}
+
+// ── Entries ────────────────────────────────────────────────────
+
+// Reads come from this copy of every entry, so they stay synchronous
+// whichever backend holds the data; writes update it and go through to
+// the backend in the background.
+const cache = new Map<string, string>();
+let backend: StorageBackend | null = null;
+/** Entries whose last write failed, retried with the next write. */
+const unsavedKeys = new Set<string>();
+let ready: Promise<void> | null = null;
+
+/**
+ * Picks a backend and loads everything stored, once. Uses IndexedDB where
+ * the browser allows it, moving across anything localStorage held from
+ * before, and falls back to localStorage otherwise. Nothing else here
+ * should be called until this resolves.
+ */
+export function initStorage(): Promise<void> {
+  ready ??= (async () => {
+    const idb = await openIndexedDbBackend();
+    let entries: Map<string, string>;
+    try {
+      entries = await (idb ?? localStorageBackend).loadAll();
+    } catch {
+      fail("unavailable");
+      return;
+    }
+    if (idb) {
+      try {
+        await moveEntries(localStorageBackend, idb, entries);
+      } catch {
+        // Left in localStorage; the move is tried again next time.
+      }
+    }
+    entries.forEach((value, key) => cache.set(key, value));
+    backend = idb ?? localStorageBackend;
+    followOtherTabs();
+  })();
+  return ready;
+}
+
+/**
+ * Copies entries `to` doesn't have yet, then deletes them from `from`.
+ * Entries `to` holds differently are left in `from`, in case they're all
+ * that's left of an edit.
+ */
+async function moveEntries(
+  from: StorageBackend,
+  to: StorageBackend,
+  existing: Map<string, string>
+): Promise<void> {
+  const moved: string[] = [];
+  for (const [key, value] of await from.loadAll()) {
+    if (!existing.has(key)) {
+      await to.write(key, value);
+      existing.set(key, value);
+    }
+    if (existing.get(key) === value) moved.push(key);
+  }
+  for (const key of moved) await from.remove(key);
+}
+
+function persist(key: string): void {
+  if (!backend) return;
+  const value = cache.get(key);
+  const done =
+    value === undefined ? backend.remove(key) : backend.write(key, value);
+  done.catch((e) => {
+    unsavedKeys.add(key);
+    fail(isQuotaError(e) ? "quota" : "unavailable");
+  });
+}
+
+function setEntry(key: string, value: string | null): StorageResult<void> {
+  if (value === null) cache.delete(key);
+  else cache.set(key, value);
+  queueAnnouncement(key, value);
+  if (!backend) return fail("unavailable");
+  const keys = new Set([...unsavedKeys, key]);
+  unsavedKeys.clear();
+  keys.forEach(persist);
+  return { ok: true, value: undefined };
+}
+
+export function readItem(key: string): string | null {
+  return cache.get(key) ?? null;
+}
+
+/** Keys of every stored entry that starts with `prefix`. */
+export function listItemKeys(prefix: string): string[] {
+  return [...cache.keys()].filter((key) => key.startsWith(prefix));
+}
+
+/**
+ * Stores `value` under `key`. Failures of the write itself show up later,
+ * through `onStorageError`; only a missing backend fails straight away.
+ */
+export function writeItem(key: string, value: string): StorageResult<void> {
+  return setEntry(key, value);
+}
+
+export function removeItem(key: string): StorageResult<void> {
+  return setEntry(key, null);
+}
+
+// ── Cross-tab notifications ────────────────────────────────────
+
+const CHANNEL_NAME = STORAGE_KEY;
+/**
+ * Without a BroadcastChannel, tabs using IndexedDB list what they changed
+ * here, since only localStorage writes reach other tabs as `storage` events.
+ * Kept outside the app's own keys so it's never loaded or moved as an entry.
+ */
+const PING_KEY = `changed:${STORAGE_KEY}`;
+
+/** What changed; null values were removed. */
+interface ChangeMessage {
+  entries: [string, string | null][];
+}
+
+/** Which entries changed, and when, so every ping is a new value. */
+interface ChangePing {
+  keys: string[];
+  at: number;
+}
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel =
+      typeof BroadcastChannel === "undefined"
+        ? null
+        : new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+let outgoing: Map<string, string | null> | null = null;
+
+// Writes made together, like a bubble and its summary, go out as one
+// message so other tabs never see one without the other.
+function queueAnnouncement(key: string, value: string | null): void {
+  const bc = getChannel();
+  // localStorage writes announce themselves.
+  if (!bc && backend === localStorageBackend) return;
+  if (!outgoing) {
+    outgoing = new Map();
+    queueMicrotask(() => {
+      const entries = [...outgoing!];
+      outgoing = null;
+      if (bc) {
+        const message: ChangeMessage = { entries };
+        bc.postMessage(message);
+      } else {
+        ping(entries.map(([key]) => key));
+      }
+    });
+  }
+  outgoing.set(key, value);
+}
+
+// The writes are already queued in the backend, so other tabs reading
+// these keys afterwards get the new values.
+function ping(keys: string[]): void {
+  const message: ChangePing = { keys, at: Date.now() };
+  try {
+    localStorage.setItem(PING_KEY, JSON.stringify(message));
+  } catch {
+    // Other tabs catch up when they're next opened.
+  }
+}
+
+function isOurs(e: StorageEvent): e is StorageEvent & { key: string } {
+  return e.key !== null && e.key.startsWith(STORAGE_KEY);
+}
+
+const changeListeners = new Set<() => void>();
+let following = false;
+
+/**
+ * Keeps this tab's copy in step with what other tabs write, then tells
+ * `watchChanges` listeners. Uses a BroadcastChannel where there is one,
+ * else the `storage` event, which browsers fire in other tabs for every
+ * localStorage write: the entries themselves, or a ping naming the ones
+ * to re-read from IndexedDB.
+ */
+function followOtherTabs(): void {
+  if (following) return;
+  following = true;
+  const apply = (entries: [string, string | null][]) => {
+    entries.forEach(([key, value]) => {
+      if (value === null) cache.delete(key);
+      else cache.set(key, value);
+    });
+    changeListeners.forEach((listener) => listener());
+  };
+  const bc = getChannel();
+  if (bc) {
+    bc.addEventListener("message", (e: MessageEvent<ChangeMessage>) =>
+      apply(e.data.entries)
+    );
+    return;
+  }
+  window.addEventListener("storage", (e) => {
+    if (isOurs(e)) {
+      apply([[e.key, e.newValue]]);
+    } else if (e.key === PING_KEY && e.newValue) {
+      const { keys }: ChangePing = JSON.parse(e.newValue);
+      reread(keys).then(apply, () => fail("unavailable"));
+    }
+  });
+}
+
+async function reread(keys: string[]): Promise<[string, string | null][]> {
+  if (!backend) return [];
+  const from = backend;
+  return Promise.all(
+    keys.map(async (key): Promise<[string, string | null]> => [
+      key,
+      await from.read(key),
+    ])
+  );
+}
+
+/**
+ * Calls `listener` whenever another tab saves, once this tab's copy has
+ * caught up. Returns an unsubscribe function.
+ */
+export function watchChanges(listener: () => void): () => void {
+  followOtherTabs();
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
@@ -0,0 +1,68 @@
+// Touch gestures on the graph. A long press is a hold that barely moves;
+// releasing it in place opens someone's details, dragging on from it
+// draws a link to whoever the finger is lifted over.
+
+const LONG_PRESS_MS = 500;
+/** Screen pixels a finger may wander before a hold stops being one. */
+const LONG_PRESS_TOLERANCE = 8;
+
+/** Media query for phones and tablets, where pointers are fingers. */
+export const COARSE_POINTER_QUERY = "(pointer: coarse)";
+
+/**
+ * Pointer travel, in screen pixels, that still counts as a tap rather
+ * than a pan. Fingers wobble more than mice.
+ */
+export function clickDistanceFor(coarse: boolean): number {
+  return coarse ? 8 : 0;
+}
+
+export function isTouchEvent(event: Event | null | undefined): boolean {
+  return typeof TouchEvent !== "undefined" && event instanceof TouchEvent;
+}
+
+export interface LongPress {
+  /** Starts timing a hold at screen point (x, y). */
+  start: (x: number, y: number) => void;
+  /** Gives up on the hold if the finger has wandered off. */
+  move: (x: number, y: number) => void;
+  /** Whether the current hold lasted long enough to count. */
+  fired: () => boolean;
+  /** Ends the hold, fired or not, ready for the next one. */
+  reset: () => void;
+}
+
+export function createLongPress(onLongPress: () => void): LongPress {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let origin: [number, number] | null = null;
+  let didFire = false;
+  const stopTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+  return {
+    start(x, y) {
+      stopTimer();
+      origin = [x, y];
+      didFire = false;
+      timer = setTimeout(() => {
+        timer = null;
+        didFire = true;
+        navigator.vibrate?.(15);
+        onLongPress();
+      }, LONG_PRESS_MS);
+    },
+    move(x, y) {
+      if (!timer || !origin) return;
+      if (Math.hypot(x - origin[0], y - origin[1]) > LONG_PRESS_TOLERANCE) {
+        stopTimer();
+      }
+    },
+    fired: () => didFire,
+    reset() {
+      stopTimer();
+      origin = null;
+      didFire = false;
+    },
+  };
+}
@@ -1,5 +1,17 @@
 import type * as d3 from "d3";
 
+export interface NodeProfile {
+  notes?: string;
+  tags?: string[];
+  email?: string;
+  phone?: string;
+  organisation?: string;
+  role?: string;
+  howWeMet?: string;
+  /** Calendar date as YYYY-MM-DD. */
+  dateMet?: string;
+}
+
 export interface NodeData {
   id: string;
   name: string;
@@ -7,29 +19,119 @@ export interface NodeData {
   radius: number;
   x?: number;
   y?: number;
+  /** Held where it is while the layout moves everyone else. */
+  pinned?: boolean;
+  profile?: NodeProfile;
 }
 
 export interface Node extends d3.SimulationNodeDatum, NodeData {}
 
-export interface LinkData {
+/** Where a drag took someone, for undo. */
+export interface NodeMove {
+  id: string;
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+}
+
+/** Overrides for how a node is drawn, e.g. to encode an analytics metric. */
+export interface NodeStyle {
+  radius?: number;
+  fill?: string;
+}
+
+export type RelationshipType =
+  | "friend"
+  | "colleague"
+  | "family"
+  | "mentor"
+  | "custom";
+
+/** Which way a directed link points, relative to source → target. */
+export type LinkDirection = "forward" | "backward";
+
+export interface LinkAttributes {
+  type?: RelationshipType;
+  /** Name of the relationship when `type` is "custom". */
+  customType?: string;
+  /** Closeness from 1 (acquaintance) to 5 (very close). */
+  strength?: number;
+  direction?: LinkDirection;
+  label?: string;
+}
+
+export interface LinkData extends LinkAttributes {
   source: string;
   target: string;
 }
 
+/** How a group's outline is drawn. */
+export type GroupOutline = "dashed" | "solid" | "dotted";
+
 export interface BubbleGroup {
   id: string;
   name: string;
   memberNodeIds: string[];
+  /** Hex colour; groups without one get a palette colour from their id. */
+  color?: string;
+  /** Defaults to dashed. */
+  outline?: GroupOutline;
+  /** The group this one sits inside, e.g. a team within Work. */
+  parentId?: string;
 }
 
+export interface BubbleData {
+  nodes: NodeData[];
+  links: LinkData[];
+  groups: BubbleGroup[];
+}
+
+/** How nodes are arranged; "force" leaves it all to the simulation. */
+export type LayoutKind = "force" | "radial" | "tree" | "circular" | "clustered";
+
 export interface SavedBubble {
+  version?: number;
   name: string;
   nodes: NodeData[];
   links: LinkData[];
   groups?: BubbleGroup[];
+  /** Omitted for the default free-form layout. */
+  layout?: LayoutKind;
+  /** Everyone stays where they are until the layout is unfrozen. */
+  frozen?: boolean;
+}
+
+export interface BubbleSummary {
+  id: string;
+  title: string;
+  ownerName: string;
+  nodeCount: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Bumped on every save, so tabs can tell whose copy is newer. */
+  revision?: number;
+}
+
+/** An earlier version of a bubble, kept automatically as it's edited. */
+export interface BubbleSnapshot {
+  id: string;
+  /** When this version was saved. */
+  savedAt: number;
+  nodeCount: number;
+  linkCount: number;
+  bubble: SavedBubble;
 }
 
-export interface Link extends d3.SimulationLinkDatum<Node> {
+export interface Link extends d3.SimulationLinkDatum<Node>, LinkAttributes {
   source: Node | string;
   target: Node | string;
 }
+
+/** What the graph view shows right now, for overlays like the minimap. */
+export interface GraphViewport {
+  transform: d3.ZoomTransform;
+  /** Size of the view on screen. */
+  width: number;
+  height: number;
+  nodes: Node[];
+  links: Link[];
+}